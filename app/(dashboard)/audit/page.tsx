@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import { useSession } from "next-auth/react";
+import { can } from "@/lib/permissions";
 import {
   Table,
   TableBody,
@@ -18,12 +19,32 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Card, CardContent } from "@/components/ui/card";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
 import { format } from "date-fns";
-import { ShieldAlert } from "lucide-react";
+import { AuditEntryDetails } from "@/components/audit/AuditEntryDetails";
+import {
+  Download,
+  Eye,
+  ShieldAlert,
+  ShieldCheck,
+  ShieldX,
+} from "lucide-react";
 
 interface AuditLog {
   id: string;
@@ -36,7 +57,12 @@ interface AuditLog {
     id: string;
     name: string;
     email: string;
-  };
+  } | null;
+  apiToken: {
+    id: string;
+    name: string;
+    prefix: string;
+  } | null;
   processInstance?: {
     id: string;
     workflowTemplate: {
@@ -50,6 +76,31 @@ interface User {
   name: string;
 }
 
+interface Archive {
+  id: string;
+  entryCount: number;
+  firstChangedAt: string;
+  lastChangedAt: string;
+  fromSequence: number | null;
+  toSequence: number | null;
+  signed: boolean;
+  createdAt: string;
+}
+
+interface Verification {
+  valid: boolean;
+  checked: number;
+  legacyEntries: number;
+  archivedThrough: number | null;
+  head: { sequence: number; hash: string | null } | null;
+  issues: Array<{
+    type: string;
+    sequence: number | null;
+    id: string | null;
+    message: string;
+  }>;
+}
+
 export default function AuditPage() {
   const { data: session } = useSession();
   const [logs, setLogs] = useState<AuditLog[]>([]);
@@ -60,24 +111,40 @@ export default function AuditPage() {
   const [userFilter, setUserFilter] = useState<string>("all");
   const [startDate, setStartDate] = useState<string>("");
   const [endDate, setEndDate] = useState<string>("");
+  const [verification, setVerification] = useState<Verification | null>(
+    null
+  );
+  const [verifying, setVerifying] = useState(false);
+  const [selectedLog, setSelectedLog] = useState<AuditLog | null>(null);
+  const [archives, setArchives] = useState<Archive[]>([]);
 
   useEffect(() => {
-    if (session?.user?.role === "ADMIN") {
+    if (can(session?.user, "audit.read")) {
       fetchLogs();
     } else {
       setLoading(false);
     }
   }, [session, actionFilter, userFilter, startDate, endDate]);
 
+  useEffect(() => {
+    if (can(session?.user, "audit.read")) {
+      fetchArchives();
+    }
+  }, [session]);
+
+  function filterParams() {
+    const params = new URLSearchParams();
+    if (actionFilter !== "all") params.set("action", actionFilter);
+    if (userFilter !== "all") params.set("userId", userFilter);
+    if (startDate) params.set("startDate", startDate);
+    if (endDate) params.set("endDate", endDate);
+    return params;
+  }
+
   async function fetchLogs() {
     setLoading(true);
     try {
-      const params = new URLSearchParams();
-      if (actionFilter !== "all") params.set("action", actionFilter);
-      if (userFilter !== "all") params.set("userId", userFilter);
-      if (startDate) params.set("startDate", startDate);
-      if (endDate) params.set("endDate", endDate);
-
+      const params = filterParams();
       const res = await fetch(`/api/audit?${params.toString()}`);
       if (res.ok) {
         const data = await res.json();
@@ -94,13 +161,48 @@ export default function AuditPage() {
     }
   }
 
-  if (session?.user?.role !== "ADMIN") {
+  async function fetchArchives() {
+    try {
+      const res = await fetch("/api/audit/archives");
+      if (res.ok) {
+        setArchives(await res.json());
+      }
+    } catch {
+      // The archive list is secondary; the log itself still shows
+    }
+  }
+
+  // Exports are streamed straight to a download rather than through fetch,
+  // so large ranges don't have to fit in memory
+  function exportLog(format: "csv" | "ndjson" | "bundle") {
+    const params = filterParams();
+    params.set("format", format);
+    window.location.assign(`/api/audit/export?${params.toString()}`);
+  }
+
+  async function verifyLog() {
+    setVerifying(true);
+    try {
+      const res = await fetch("/api/audit/verify");
+      if (res.ok) {
+        setVerification(await res.json());
+      } else {
+        toast.error("Failed to verify audit log");
+      }
+    } catch {
+      toast.error("Failed to verify audit log");
+    } finally {
+      setVerifying(false);
+    }
+  }
+
+  if (!can(session?.user, "audit.read")) {
     return (
       <div className="flex flex-col items-center justify-center py-16">
         <ShieldAlert className="h-16 w-16 text-gray-300" />
         <h2 className="mt-4 text-xl font-semibold">Access Denied</h2>
         <p className="text-muted-foreground">
-          Only administrators can view the audit log
+          You don&apos;t have permission to view the audit log
         </p>
       </div>
     );
@@ -108,13 +210,116 @@ export default function AuditPage() {
 
   return (
     <div>
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold">Audit Log</h1>
-        <p className="text-muted-foreground">
-          View all system activity and changes
-        </p>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Audit Log</h1>
+          <p className="text-muted-foreground">
+            View all system activity and changes
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => exportLog("csv")}>
+                CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportLog("ndjson")}>
+                NDJSON
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => exportLog("bundle")}>
+                Signed bundle (JSON)
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <Button variant="outline" onClick={verifyLog} disabled={verifying}>
+            <ShieldCheck className="mr-2 h-4 w-4" />
+            {verifying ? "Verifying..." : "Verify Integrity"}
+          </Button>
+        </div>
       </div>
 
+      {verification && (
+        <Card className="mb-6">
+          <CardContent className="pt-6">
+            <div className="flex items-start gap-3">
+              {verification.valid ? (
+                <ShieldCheck className="h-6 w-6 shrink-0 text-green-500" />
+              ) : (
+                <ShieldX className="h-6 w-6 shrink-0 text-red-500" />
+              )}
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">
+                  {verification.valid
+                    ? "The audit log is intact"
+                    : "The audit log has been altered"}
+                </p>
+                <p className="text-muted-foreground">
+                  {verification.checked} entries checked
+                  {verification.legacyEntries > 0 &&
+                    `, ${verification.legacyEntries} older entries predate the hash chain`}
+                  {verification.archivedThrough &&
+                    `, entries up to #${verification.archivedThrough} are archived`}
+                  {verification.head &&
+                    `. Latest entry #${verification.head.sequence}, hash ${verification.head.hash?.slice(0, 16)}`}
+                </p>
+                {verification.issues.length > 0 && (
+                  <ul className="list-disc pl-5 text-red-600">
+                    {verification.issues.map((issue, i) => (
+                      <li key={i}>{issue.message}</li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {archives.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-base">Archives</CardTitle>
+            <CardDescription>
+              Entries moved out of the log by the retention policy
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ul className="divide-y text-sm">
+              {archives.map((archive) => (
+                <li
+                  key={archive.id}
+                  className="flex items-center justify-between py-2"
+                >
+                  <span>
+                    {format(new Date(archive.firstChangedAt), "MMM d, yyyy")}{" "}
+                    – {format(new Date(archive.lastChangedAt), "MMM d, yyyy")}
+                    <span className="text-muted-foreground">
+                      {" "}
+                      · {archive.entryCount} entries
+                      {archive.toSequence &&
+                        ` (#${archive.fromSequence} to #${archive.toSequence})`}
+                      {!archive.signed && " · unsigned"}
+                    </span>
+                  </span>
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={`/api/audit/archives/${archive.id}`}>
+                      <Download className="mr-2 h-4 w-4" />
+                      Download
+                    </a>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </CardContent>
+        </Card>
+      )}
+
       <Card className="mb-6">
         <CardContent className="pt-6">
           <div className="flex flex-wrap gap-4">
@@ -178,6 +383,7 @@ export default function AuditPage() {
               <TableHead>User</TableHead>
               <TableHead>Process</TableHead>
               <TableHead>Details</TableHead>
+              <TableHead className="w-12" />
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -199,11 +405,12 @@ export default function AuditPage() {
                   <TableCell>
                     <Skeleton className="h-4 w-48" />
                   </TableCell>
+                  <TableCell />
                 </TableRow>
               ))
             ) : logs.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={5} className="text-center py-8">
+                <TableCell colSpan={6} className="text-center py-8">
                   <p className="text-muted-foreground">No audit logs found</p>
                 </TableCell>
               </TableRow>
@@ -218,7 +425,15 @@ export default function AuditPage() {
                       {log.action}
                     </span>
                   </TableCell>
-                  <TableCell>{log.changedBy.name}</TableCell>
+                  <TableCell>
+                    {log.changedBy?.name ?? "System"}
+                    {log.apiToken && (
+                      <p className="text-xs text-muted-foreground">
+                        via API token {log.apiToken.name} (
+                        {log.apiToken.prefix}…)
+                      </p>
+                    )}
+                  </TableCell>
                   <TableCell>
                     {log.processInstance ? (
                       <Link
@@ -234,12 +449,29 @@ export default function AuditPage() {
                   <TableCell className="max-w-xs truncate">
                     {log.notes || "-"}
                   </TableCell>
+                  <TableCell>
+                    {(log.previousValue != null || log.newValue != null) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setSelectedLog(log)}
+                        title="View changes"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
                 </TableRow>
               ))
             )}
           </TableBody>
         </Table>
       </div>
+
+      <AuditEntryDetails
+        entry={selectedLog}
+        onOpenChange={(open) => !open && setSelectedLog(null)}
+      />
     </div>
   );
 }
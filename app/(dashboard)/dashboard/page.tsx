@@ -1,6 +1,7 @@
 import { Suspense } from "react";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { overdueStepWhere } from "@/lib/sla";
 import {
   Card,
   CardContent,
@@ -20,6 +21,7 @@ async function DashboardStats() {
   const [
     activeProcesses,
     pendingApprovals,
+    overdueApprovals,
     completedProcesses,
     recentActivity,
   ] = await Promise.all([
@@ -36,6 +38,9 @@ async function DashboardStats() {
         },
       },
     }),
+    db.processStepInstance.count({
+      where: overdueStepWhere(),
+    }),
     db.processInstance.count({
       where: {
         status: "COMPLETED",
@@ -68,6 +73,13 @@ async function DashboardStats() {
       color: "text-yellow-600",
       bgColor: "bg-yellow-100",
     },
+    {
+      title: "Overdue Approvals",
+      value: overdueApprovals,
+      icon: AlertCircle,
+      color: "text-red-600",
+      bgColor: "bg-red-100",
+    },
     {
       title: "Completed",
       value: completedProcesses,
@@ -79,7 +91,7 @@ async function DashboardStats() {
 
   return (
     <>
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         {stats.map((stat) => (
           <Card key={stat.title}>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -115,7 +127,7 @@ async function DashboardStats() {
                     </div>
                     <div className="flex-1 min-w-0">
                       <p className="text-sm">
-                        <span className="font-medium">{log.changedBy.name}</span>{" "}
+                        <span className="font-medium">{log.changedBy?.name ?? "System"}</span>{" "}
                         {log.action.toLowerCase().replace(/_/g, " ")}
                         {log.processInstance && (
                           <>
@@ -182,7 +194,7 @@ async function DashboardStats() {
 function DashboardStatsSkeleton() {
   return (
     <>
-      <div className="grid gap-4 md:grid-cols-3">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
         {[1, 2, 3].map((i) => (
           <Card key={i}>
             <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -0,0 +1,229 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { can } from "@/lib/permissions";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import {
+  Plus,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  ShieldAlert,
+} from "lucide-react";
+import { GroupDialog, type ManagedGroup } from "@/components/groups/GroupDialog";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export default function GroupsPage() {
+  const { data: session } = useSession();
+  const [groups, setGroups] = useState<ManagedGroup[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<ManagedGroup | null>(null);
+
+  useEffect(() => {
+    if (can(session?.user, "group.manage")) {
+      fetchGroups();
+      fetchUsers();
+    } else {
+      setLoading(false);
+    }
+  }, [session]);
+
+  async function fetchGroups() {
+    try {
+      const res = await fetch("/api/groups");
+      if (res.ok) {
+        const data = await res.json();
+        setGroups(data.groups);
+      } else {
+        toast.error("Failed to fetch groups");
+      }
+    } catch {
+      toast.error("Failed to fetch groups");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchUsers() {
+    try {
+      const res = await fetch("/api/users");
+      if (res.ok) {
+        const data = await res.json();
+        setUsers(data.users);
+      }
+    } catch (error) {
+      console.error("Failed to fetch users:", error);
+    }
+  }
+
+  function openDialog(group: ManagedGroup | null) {
+    setEditingGroup(group);
+    setDialogOpen(true);
+  }
+
+  async function deleteGroup(group: ManagedGroup) {
+    if (!confirm(`Delete the group ${group.name}?`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/groups/${group.id}`, {
+        method: "DELETE",
+      });
+
+      if (res.ok) {
+        toast.success("Group deleted");
+        fetchGroups();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || "Failed to delete group");
+      }
+    } catch {
+      toast.error("Failed to delete group");
+    }
+  }
+
+  if (!can(session?.user, "group.manage")) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16">
+        <ShieldAlert className="h-16 w-16 text-gray-300" />
+        <h2 className="mt-4 text-xl font-semibold">Access Denied</h2>
+        <p className="text-muted-foreground">
+          You don&apos;t have permission to manage groups
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Groups</h1>
+          <p className="text-muted-foreground">
+            Manage departments and teams used for approvals and reporting
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Group
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Manager</TableHead>
+              <TableHead>Members</TableHead>
+              <TableHead className="w-10"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              Array.from({ length: 3 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Skeleton className="h-4 w-40" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-24" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-48" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-8 w-8" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : groups.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={4}
+                  className="py-8 text-center text-muted-foreground"
+                >
+                  No groups yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              groups.map((group) => (
+                <TableRow key={group.id}>
+                  <TableCell>
+                    <p className="font-medium">{group.name}</p>
+                    {group.description && (
+                      <p className="text-sm text-muted-foreground">
+                        {group.description}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>{group.manager?.name ?? "-"}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {group.members.length === 0
+                      ? "No members"
+                      : group.members.map((m) => m.user.name).join(", ")}
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => openDialog(group)}>
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => deleteGroup(group)}
+                          className="text-red-600"
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <GroupDialog
+        group={editingGroup}
+        users={users}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={fetchGroups}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BulkActionDialog } from "@/components/inbox/BulkActionDialog";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { toast } from "sonner";
+import { CheckCircle, Eye, Search, XCircle } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+interface InboxStep {
+  id: string;
+  name: string;
+  waitingSince: string;
+  dueAt: string | null;
+  overdue: boolean;
+  process: {
+    id: string;
+    createdAt: string;
+    workflowTemplate: {
+      id: string;
+      name: string;
+    };
+    createdBy: {
+      id: string;
+      name: string;
+      email: string;
+    };
+  };
+}
+
+// Sort options as "<sort>:<order>"
+const sortOptions: Record<string, string> = {
+  "age:asc": "Oldest first",
+  "age:desc": "Newest first",
+  "due:asc": "Due soonest",
+};
+
+export default function InboxPage() {
+  const [steps, setSteps] = useState<InboxStep[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [sort, setSort] = useState("age:asc");
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [bulkAction, setBulkAction] = useState<{
+    action: "approve" | "reject";
+    steps: InboxStep[];
+  } | null>(null);
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(fetchInbox, search ? 300 : 0);
+    return () => clearTimeout(timeout);
+  }, [search, sort, page]);
+
+  // New approval requests arrive as notifications
+  useLiveUpdates({ onNotifications: fetchInbox, onRefresh: fetchInbox });
+
+  async function fetchInbox() {
+    try {
+      const [sortBy, order] = sort.split(":");
+      const params = new URLSearchParams({
+        sort: sortBy,
+        order,
+        page: String(page),
+      });
+      if (search.trim()) params.set("search", search.trim());
+
+      const res = await fetch(`/api/inbox?${params.toString()}`);
+      if (res.ok) {
+        const data = await res.json();
+        setSteps(data.steps);
+        setTotal(data.pagination.total);
+        setTotalPages(Math.max(data.pagination.totalPages, 1));
+        // Drop selections for steps that are no longer waiting
+        setSelected((current) =>
+          current.filter((id) =>
+            data.steps.some((s: InboxStep) => s.id === id)
+          )
+        );
+      } else {
+        toast.error("Failed to fetch approvals");
+      }
+    } catch {
+      toast.error("Failed to fetch approvals");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleStep(stepId: string, checked: boolean) {
+    setSelected((current) =>
+      checked ? [...current, stepId] : current.filter((id) => id !== stepId)
+    );
+  }
+
+  function openBulkAction(action: "approve" | "reject") {
+    setBulkAction({
+      action,
+      steps: steps.filter((s) => selected.includes(s.id)),
+    });
+  }
+
+  const allSelected = steps.length > 0 && selected.length === steps.length;
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">My Approvals</h1>
+        <p className="text-muted-foreground">
+          Requests waiting for your decision
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="relative w-72">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search workflows and form values"
+            className="pl-8"
+          />
+        </div>
+
+        <Select
+          value={sort}
+          onValueChange={(value) => {
+            setSort(value);
+            setPage(1);
+          }}
+        >
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(sortOptions).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {selected.length > 0 && (
+          <div className="ml-auto flex items-center gap-2">
+            <span className="text-sm text-muted-foreground">
+              {selected.length} selected
+            </span>
+            <Button size="sm" onClick={() => openBulkAction("approve")}>
+              <CheckCircle className="mr-2 h-4 w-4" />
+              Approve
+            </Button>
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => openBulkAction("reject")}
+            >
+              <XCircle className="mr-2 h-4 w-4" />
+              Reject
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) =>
+                    setSelected(checked === true ? steps.map((s) => s.id) : [])
+                  }
+                  disabled={steps.length === 0}
+                />
+              </TableHead>
+              <TableHead>Workflow</TableHead>
+              <TableHead>Step</TableHead>
+              <TableHead>Requested By</TableHead>
+              <TableHead>Waiting</TableHead>
+              <TableHead>Due</TableHead>
+              <TableHead className="w-10"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Skeleton className="h-4 w-4" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-32" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-24" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-28" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-20" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-20" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-8 w-8" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : steps.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center py-8">
+                  <p className="text-muted-foreground">
+                    {search
+                      ? "No approvals match your search"
+                      : "Nothing is waiting for your approval"}
+                  </p>
+                </TableCell>
+              </TableRow>
+            ) : (
+              steps.map((step) => (
+                <TableRow key={step.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected.includes(step.id)}
+                      onCheckedChange={(checked) =>
+                        toggleStep(step.id, checked === true)
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Link
+                      href={`/processes/${step.process.id}`}
+                      className="font-medium hover:underline"
+                    >
+                      {step.process.workflowTemplate.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {step.name}
+                  </TableCell>
+                  <TableCell>{step.process.createdBy.name}</TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(step.waitingSince))}
+                  </TableCell>
+                  <TableCell>
+                    {step.dueAt ? (
+                      step.overdue ? (
+                        <Badge
+                          className="bg-red-100 text-red-800"
+                          variant="secondary"
+                        >
+                          Overdue
+                        </Badge>
+                      ) : (
+                        <span className="text-muted-foreground">
+                          {format(new Date(step.dueAt), "PP p")}
+                        </span>
+                      )
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" asChild>
+                      <Link href={`/processes/${step.process.id}`}>
+                        <Eye className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="mt-4 flex items-center justify-between">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => p - 1)}
+            disabled={page <= 1 || loading}
+          >
+            Previous
+          </Button>
+          <span className="text-sm text-muted-foreground">
+            Page {page} of {totalPages} ({total} waiting)
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setPage((p) => p + 1)}
+            disabled={page >= totalPages || loading}
+          >
+            Next
+          </Button>
+        </div>
+      )}
+
+      {bulkAction && (
+        <BulkActionDialog
+          action={bulkAction.action}
+          steps={bulkAction.steps}
+          open={!!bulkAction}
+          onOpenChange={(open) => !open && setBulkAction(null)}
+          onCompleted={fetchInbox}
+        />
+      )}
+    </div>
+  );
+}
@@ -7,13 +7,21 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
-import { Bell, Check, CheckCheck, Info, AlertCircle, Zap } from "lucide-react";
+import {
+  Bell,
+  Check,
+  CheckCheck,
+  Info,
+  AlertCircle,
+  Zap,
+  FileBarChart,
+} from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
 interface Notification {
   id: string;
   message: string;
-  type: "INFO" | "ACTION_REQUIRED" | "UPDATE";
+  type: "INFO" | "ACTION_REQUIRED" | "UPDATE" | "REPORT";
   isRead: boolean;
   createdAt: string;
   processInstance?: {
@@ -22,6 +30,13 @@ interface Notification {
       name: string;
     };
   };
+  reportRun?: {
+    id: string;
+    savedReport: {
+      name: string;
+    };
+  };
+  actions?: Array<{ action: string; label: string; url: string }>;
 }
 
 const typeConfig: Record<
@@ -31,6 +46,7 @@ const typeConfig: Record<
   INFO: { icon: Info, color: "text-blue-600", bg: "bg-blue-100" },
   ACTION_REQUIRED: { icon: AlertCircle, color: "text-yellow-600", bg: "bg-yellow-100" },
   UPDATE: { icon: Zap, color: "text-green-600", bg: "bg-green-100" },
+  REPORT: { icon: FileBarChart, color: "text-purple-600", bg: "bg-purple-100" },
 };
 
 export default function NotificationsPage() {
@@ -152,6 +168,33 @@ export default function NotificationsPage() {
                               View {notification.processInstance.workflowTemplate.name}
                             </Link>
                           )}
+                          {notification.reportRun && (
+                            <a
+                              href={`/api/reports/runs/${notification.reportRun.id}`}
+                              className="text-sm text-primary hover:underline"
+                            >
+                              Download {notification.reportRun.savedReport.name}
+                            </a>
+                          )}
+                          {notification.actions &&
+                            notification.actions.length > 0 && (
+                              <div className="mt-2 flex gap-2">
+                                {notification.actions.map((action) => (
+                                  <Button
+                                    key={action.action}
+                                    asChild
+                                    variant={
+                                      action.action === "approve"
+                                        ? "default"
+                                        : "outline"
+                                    }
+                                    size="sm"
+                                  >
+                                    <a href={action.url}>{action.label}</a>
+                                  </Button>
+                                ))}
+                              </div>
+                            )}
                           <p className="text-xs text-muted-foreground mt-1">
                             {formatDistanceToNow(new Date(notification.createdAt), {
                               addSuffix: true,
@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useSession } from "next-auth/react";
+import { can } from "@/lib/permissions";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -35,17 +36,23 @@ import {
   FileText,
   AlertTriangle,
   User,
+  Pencil,
+  Send,
+  UserCog,
+  Paperclip,
 } from "lucide-react";
 import Link from "next/link";
 import { format, formatDistanceToNow } from "date-fns";
 import { ProcessTimeline } from "@/components/process/ProcessTimeline";
-
-interface FormField {
-  id: string;
-  name: string;
-  label: string;
-  type: string;
-}
+import { ReassignStepDialog } from "@/components/process/ReassignStepDialog";
+import { DynamicForm } from "@/components/form/DynamicForm";
+import {
+  fileValueSchema,
+  validateFormData,
+  type FormField,
+} from "@/lib/form-validation";
+import { formatFileSize } from "@/lib/utils";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 
 interface Process {
   id: string;
@@ -56,6 +63,10 @@ interface Process {
   workflowTemplate: {
     id: string;
     name: string;
+  };
+  workflowVersion: {
+    id: string;
+    version: number;
     formSchema: {
       fields: FormField[];
     } | null;
@@ -70,16 +81,34 @@ interface Process {
     status: string;
     comments: string | null;
     actedAt: string | null;
+    dueAt: string | null;
+    breachedAt: string | null;
     workflowStep: {
       id: string;
       name: string;
       stepType: string;
       stepOrder: number;
+      config: Record<string, unknown>;
     };
     actedBy: {
       id: string;
       name: string;
     } | null;
+    decisions: Array<{
+      id: string;
+      decision: "APPROVED" | "REJECTED" | "CHANGES_REQUESTED";
+      comments: string | null;
+      createdAt: string;
+      supersededAt: string | null;
+      approver: {
+        id: string;
+        name: string;
+      };
+      onBehalfOf: {
+        id: string;
+        name: string;
+      } | null;
+    }>;
   }>;
   auditLogs: Array<{
     id: string;
@@ -89,8 +118,9 @@ interface Process {
     changedBy: {
       id: string;
       name: string;
-    };
+    } | null;
   }>;
+  actionableStepIds: string[];
 }
 
 const statusConfig: Record<string, { icon: React.ElementType; color: string; bg: string }> = {
@@ -119,11 +149,20 @@ export default function ProcessDetailPage({
   } | null>(null);
   const [comments, setComments] = useState("");
   const [submitting, setSubmitting] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [editValues, setEditValues] = useState<Record<string, unknown>>({});
+  const [editErrors, setEditErrors] = useState<Record<string, string>>({});
+  const [resubmitComments, setResubmitComments] = useState("");
+  const [reassigning, setReassigning] = useState(false);
 
   useEffect(() => {
     fetchProcess();
   }, [id]);
 
+  // Picks up decisions and status changes made by others while the page is
+  // open
+  useLiveUpdates({ onProcess: fetchProcess, onRefresh: fetchProcess }, [id]);
+
   async function fetchProcess() {
     try {
       const res = await fetch(`/api/processes/${id}`);
@@ -159,10 +198,11 @@ export default function ProcessDetailPage({
       );
 
       if (res.ok) {
-        const updated = await res.json();
-        setProcess(updated);
+        const data = await res.json();
         toast.success(
-          actionDialog.action === "approve"
+          !data.outcome
+            ? "Your decision has been recorded"
+            : actionDialog.action === "approve"
             ? "Request approved"
             : actionDialog.action === "reject"
             ? "Request rejected"
@@ -170,7 +210,7 @@ export default function ProcessDetailPage({
         );
         setActionDialog(null);
         setComments("");
-        fetchProcess(); // Refresh to get audit logs
+        fetchProcess(); // Refresh to get the full process with audit logs
       } else {
         const data = await res.json();
         toast.error(data.error || "Failed to process action");
@@ -182,9 +222,83 @@ export default function ProcessDetailPage({
     }
   }
 
-  function canTakeAction() {
-    if (!session?.user) return false;
-    return ["ADMIN", "APPROVER"].includes(session.user.role);
+  function startEditing() {
+    if (!process) return;
+    setEditValues({ ...process.formData });
+    setEditErrors({});
+    setResubmitComments("");
+    setEditing(true);
+  }
+
+  async function handleResubmit() {
+    if (!process) return;
+
+    const validationErrors = validateFormData(
+      process.workflowVersion.formSchema?.fields || [],
+      editValues
+    );
+
+    if (Object.keys(validationErrors).length > 0) {
+      setEditErrors(validationErrors);
+      toast.error("Please fix the form errors");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/processes/${process.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          formData: editValues,
+          comments: resubmitComments || undefined,
+        }),
+      });
+
+      if (res.ok) {
+        const updated = await res.json();
+        setProcess(updated);
+        setEditing(false);
+        toast.success("Request resubmitted");
+      } else {
+        const data = await res.json();
+        const fieldErrors: Record<string, string[]> =
+          data.details?.fieldErrors ?? {};
+        setEditErrors(
+          Object.fromEntries(
+            Object.entries(fieldErrors).map(([name, messages]) => [
+              name,
+              messages[0],
+            ])
+          )
+        );
+        toast.error(data.error || "Failed to resubmit request");
+      }
+    } catch {
+      toast.error("Failed to resubmit request");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  function canResubmit() {
+    if (!session?.user || !process) return false;
+    return (
+      process.status === "CHANGES_REQUESTED" &&
+      process.createdBy.id === session.user.id
+    );
+  }
+
+  function getChangesRequestedStep() {
+    if (!process) return null;
+    return process.steps.find(
+      (s) => s.status === "REJECTED" && s.workflowStep.stepType === "APPROVAL"
+    );
+  }
+
+  function canTakeAction(stepId: string) {
+    if (!process) return false;
+    return process.actionableStepIds.includes(stepId);
   }
 
   function getPendingApprovalStep() {
@@ -216,6 +330,7 @@ export default function ProcessDetailPage({
 
   const StatusIcon = statusConfig[process.status]?.icon || Clock;
   const pendingStep = getPendingApprovalStep();
+  const changesRequestedStep = getChangesRequestedStep();
 
   return (
     <div>
@@ -260,17 +375,29 @@ export default function ProcessDetailPage({
               </CardTitle>
             </CardHeader>
             <CardContent>
-              {process.workflowTemplate.formSchema?.fields.length ? (
+              {process.workflowVersion.formSchema?.fields.length ? (
                 <dl className="grid gap-4 md:grid-cols-2">
-                  {process.workflowTemplate.formSchema.fields.map((field) => {
+                  {process.workflowVersion.formSchema.fields.map((field) => {
                     const value = process.formData[field.name];
+                    const file = fileValueSchema.safeParse(value);
                     return (
                       <div key={field.id}>
                         <dt className="text-sm font-medium text-muted-foreground">
                           {field.label}
                         </dt>
                         <dd className="mt-1">
-                          {value !== undefined && value !== null
+                          {file.success ? (
+                            <a
+                              href={`/api/attachments/${file.data.id}`}
+                              className="inline-flex items-center gap-1 text-primary hover:underline"
+                            >
+                              <Paperclip className="h-4 w-4" />
+                              {file.data.name}
+                              <span className="text-muted-foreground">
+                                ({formatFileSize(file.data.size)})
+                              </span>
+                            </a>
+                          ) : value !== undefined && value !== null
                             ? field.type === "date"
                               ? format(new Date(value as string), "PPP")
                               : field.type === "currency"
@@ -288,8 +415,76 @@ export default function ProcessDetailPage({
             </CardContent>
           </Card>
 
+          {/* Resubmission */}
+          {canResubmit() && (
+            <Card className="border-yellow-400">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-yellow-600" />
+                  Changes Requested
+                </CardTitle>
+                <CardDescription>
+                  {changesRequestedStep
+                    ? `${changesRequestedStep.workflowStep.name}${
+                        changesRequestedStep.actedBy
+                          ? ` · ${changesRequestedStep.actedBy.name}`
+                          : ""
+                      }`
+                    : "Update your request and send it back for approval"}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {changesRequestedStep?.comments && (
+                  <p className="text-sm italic text-muted-foreground">
+                    &quot;{changesRequestedStep.comments}&quot;
+                  </p>
+                )}
+                {editing ? (
+                  <>
+                    <DynamicForm
+                      fields={process.workflowVersion.formSchema?.fields || []}
+                      workflowVersionId={process.workflowVersion.id}
+                      values={editValues}
+                      onChange={setEditValues}
+                      errors={editErrors}
+                      disabled={submitting}
+                    />
+                    <div className="space-y-2">
+                      <Label htmlFor="resubmit-comments">Comments</Label>
+                      <Textarea
+                        id="resubmit-comments"
+                        value={resubmitComments}
+                        onChange={(e) => setResubmitComments(e.target.value)}
+                        placeholder="Describe what you changed..."
+                        rows={3}
+                      />
+                    </div>
+                    <div className="flex justify-end gap-3">
+                      <Button
+                        variant="outline"
+                        onClick={() => setEditing(false)}
+                        disabled={submitting}
+                      >
+                        Cancel
+                      </Button>
+                      <Button onClick={handleResubmit} disabled={submitting}>
+                        <Send className="mr-2 h-4 w-4" />
+                        {submitting ? "Resubmitting..." : "Resubmit"}
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <Button onClick={startEditing}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit &amp; Resubmit
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Approval Actions */}
-          {canTakeAction() && pendingStep && process.status === "IN_PROGRESS" && (
+          {pendingStep && canTakeAction(pendingStep.id) && process.status === "IN_PROGRESS" && (
             <Card className="border-primary">
               <CardHeader>
                 <CardTitle>Action Required</CardTitle>
@@ -341,6 +536,26 @@ export default function ProcessDetailPage({
             </Card>
           )}
 
+          {/* Reassignment */}
+          {pendingStep &&
+            process.status === "IN_PROGRESS" &&
+            can(session?.user, "process.reassign") && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Reassign</CardTitle>
+                  <CardDescription>
+                    Hand {pendingStep.workflowStep.name} to different approvers
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Button variant="outline" onClick={() => setReassigning(true)}>
+                    <UserCog className="mr-2 h-4 w-4" />
+                    Reassign Step
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
           {/* Activity Log */}
           <Card>
             <CardHeader>
@@ -359,7 +574,7 @@ export default function ProcessDetailPage({
                       </div>
                       <div>
                         <p className="text-sm">
-                          <span className="font-medium">{log.changedBy.name}</span>{" "}
+                          <span className="font-medium">{log.changedBy?.name ?? "System"}</span>{" "}
                           {log.notes || log.action.toLowerCase().replace(/_/g, " ")}
                         </p>
                         <p className="text-xs text-muted-foreground">
@@ -407,6 +622,13 @@ export default function ProcessDetailPage({
                 </p>
               </div>
               <Separator />
+              <div>
+                <p className="text-sm text-muted-foreground">Workflow Version</p>
+                <p className="font-medium">
+                  v{process.workflowVersion.version}
+                </p>
+              </div>
+              <Separator />
               <div>
                 <p className="text-sm text-muted-foreground">Last Updated</p>
                 <p className="font-medium">
@@ -418,6 +640,16 @@ export default function ProcessDetailPage({
         </div>
       </div>
 
+      {pendingStep && (
+        <ReassignStepDialog
+          processId={process.id}
+          step={{ id: pendingStep.id, name: pendingStep.workflowStep.name }}
+          open={reassigning}
+          onOpenChange={setReassigning}
+          onReassigned={fetchProcess}
+        />
+      )}
+
       {/* Action Dialog */}
       <AlertDialog
         open={actionDialog?.open}
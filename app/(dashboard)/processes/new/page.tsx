@@ -22,26 +22,12 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
 import { ArrowLeft, Send } from "lucide-react";
 import Link from "next/link";
-import { DynamicForm, validateFormData } from "@/components/form/DynamicForm";
+import { DynamicForm } from "@/components/form/DynamicForm";
+import { validateFormData, type FormField } from "@/lib/form-validation";
 
-interface FormField {
+interface WorkflowVersion {
   id: string;
-  name: string;
-  label: string;
-  type: string;
-  required: boolean;
-  validation?: Record<string, unknown>;
-  options?: string[];
-  conditionalOn?: {
-    fieldId: string;
-    value: unknown;
-  };
-}
-
-interface Workflow {
-  id: string;
-  name: string;
-  description: string | null;
+  version: number;
   steps: Array<{
     id: string;
     name: string;
@@ -53,6 +39,13 @@ interface Workflow {
   } | null;
 }
 
+interface Workflow {
+  id: string;
+  name: string;
+  description: string | null;
+  publishedVersion: WorkflowVersion | null;
+}
+
 export default function NewProcessPage() {
   const router = useRouter();
   const [workflows, setWorkflows] = useState<Workflow[]>([]);
@@ -61,6 +54,7 @@ export default function NewProcessPage() {
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
+  const selectedVersion = selectedWorkflow?.publishedVersion ?? null;
 
   useEffect(() => {
     fetchWorkflows();
@@ -71,7 +65,10 @@ export default function NewProcessPage() {
       const res = await fetch("/api/workflows?status=ACTIVE");
       if (res.ok) {
         const data = await res.json();
-        setWorkflows(data.workflows);
+        // Processes can only be started on a published version
+        setWorkflows(
+          data.workflows.filter((w: Workflow) => w.publishedVersion !== null)
+        );
       } else {
         toast.error("Failed to fetch workflows");
       }
@@ -93,7 +90,7 @@ export default function NewProcessPage() {
     if (!selectedWorkflow) return;
 
     // Validate form
-    const formFields = selectedWorkflow.formSchema?.fields || [];
+    const formFields = selectedVersion?.formSchema?.fields || [];
     const validationErrors = validateFormData(formFields, formData);
 
     if (Object.keys(validationErrors).length > 0) {
@@ -119,6 +116,16 @@ export default function NewProcessPage() {
         router.push(`/processes/${process.id}`);
       } else {
         const data = await res.json();
+        const fieldErrors: Record<string, string[]> =
+          data.details?.fieldErrors ?? {};
+        setErrors(
+          Object.fromEntries(
+            Object.entries(fieldErrors).map(([name, messages]) => [
+              name,
+              messages[0],
+            ])
+          )
+        );
         toast.error(data.error || "Failed to start process");
       }
     } catch {
@@ -191,7 +198,7 @@ export default function NewProcessPage() {
         </CardContent>
       </Card>
 
-      {selectedWorkflow && (
+      {selectedWorkflow && selectedVersion && (
         <>
           <Card className="mb-6">
             <CardHeader>
@@ -202,13 +209,13 @@ export default function NewProcessPage() {
             </CardHeader>
             <CardContent>
               <div className="flex items-center gap-2 flex-wrap">
-                {selectedWorkflow.steps.map((step, index) => (
+                {selectedVersion?.steps.map((step, index, steps) => (
                   <div key={step.id} className="flex items-center">
                     <div className="flex items-center gap-2 px-3 py-1 bg-gray-100 rounded-full text-sm">
                       <span className="text-xs text-gray-500">{index + 1}</span>
                       <span>{step.name}</span>
                     </div>
-                    {index < selectedWorkflow.steps.length - 1 && (
+                    {index < steps.length - 1 && (
                       <span className="mx-2 text-gray-400">→</span>
                     )}
                   </div>
@@ -224,7 +231,8 @@ export default function NewProcessPage() {
             </CardHeader>
             <CardContent>
               <DynamicForm
-                fields={selectedWorkflow.formSchema?.fields || []}
+                fields={selectedVersion?.formSchema?.fields || []}
+                workflowVersionId={selectedVersion.id}
                 values={formData}
                 onChange={setFormData}
                 errors={errors}
@@ -0,0 +1,483 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import {
+  CalendarOff,
+  KeyRound,
+  Trash2,
+  UserCheck,
+  UserCircle,
+} from "lucide-react";
+import { format } from "date-fns";
+import { ApiTokensCard } from "@/components/profile/ApiTokensCard";
+import { NotificationPreferencesCard } from "@/components/profile/NotificationPreferencesCard";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface Profile {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+  manager: { id: string; name: string } | null;
+}
+
+interface Delegation {
+  id: string;
+  startsAt: string;
+  endsAt: string;
+  delegate?: User;
+  delegator?: User;
+}
+
+function formatPeriod(delegation: Delegation) {
+  return `${format(new Date(delegation.startsAt), "PPP")} – ${format(
+    new Date(delegation.endsAt),
+    "PPP"
+  )}`;
+}
+
+export default function ProfilePage() {
+  const { data: session, update: updateSession } = useSession();
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [name, setName] = useState("");
+  const [savingProfile, setSavingProfile] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [changingPassword, setChangingPassword] = useState(false);
+  const [users, setUsers] = useState<User[]>([]);
+  const [given, setGiven] = useState<Delegation[]>([]);
+  const [received, setReceived] = useState<Delegation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [delegateId, setDelegateId] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    fetchProfile();
+    fetchDelegations();
+    fetchUsers();
+  }, []);
+
+  async function fetchProfile() {
+    try {
+      const res = await fetch("/api/profile");
+      if (res.ok) {
+        const data = await res.json();
+        setProfile(data);
+        setName(data.name);
+      } else {
+        toast.error("Failed to fetch profile");
+      }
+    } catch {
+      toast.error("Failed to fetch profile");
+    }
+  }
+
+  async function handleSaveProfile(e: React.FormEvent) {
+    e.preventDefault();
+
+    setSavingProfile(true);
+    try {
+      const res = await fetch("/api/profile", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+
+      if (res.ok) {
+        const data = await res.json();
+        setProfile(data);
+        await updateSession({ name: data.name });
+        toast.success("Profile updated");
+      } else {
+        const data = await res.json();
+        toast.error(data.error || "Failed to update profile");
+      }
+    } catch {
+      toast.error("Failed to update profile");
+    } finally {
+      setSavingProfile(false);
+    }
+  }
+
+  async function handleChangePassword(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (newPassword !== confirmPassword) {
+      toast.error("The new passwords don't match");
+      return;
+    }
+
+    setChangingPassword(true);
+    try {
+      const res = await fetch("/api/profile/password", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+
+      if (res.ok) {
+        toast.success("Password changed");
+        setCurrentPassword("");
+        setNewPassword("");
+        setConfirmPassword("");
+      } else {
+        const data = await res.json();
+        toast.error(
+          data.details?.fieldErrors?.newPassword?.[0] ||
+            data.error ||
+            "Failed to change password"
+        );
+      }
+    } catch {
+      toast.error("Failed to change password");
+    } finally {
+      setChangingPassword(false);
+    }
+  }
+
+  async function fetchDelegations() {
+    try {
+      const res = await fetch("/api/delegations");
+      if (res.ok) {
+        const data = await res.json();
+        setGiven(data.given);
+        setReceived(data.received);
+      } else {
+        toast.error("Failed to fetch delegations");
+      }
+    } catch {
+      toast.error("Failed to fetch delegations");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchUsers() {
+    try {
+      const res = await fetch("/api/users");
+      if (res.ok) {
+        const data = await res.json();
+        setUsers(data.users);
+      }
+    } catch {
+      toast.error("Failed to fetch users");
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/delegations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          delegateId,
+          // The whole of both days, in the user's own time zone
+          startsAt: new Date(`${startDate}T00:00:00`).toISOString(),
+          endsAt: new Date(`${endDate}T23:59:59.999`).toISOString(),
+        }),
+      });
+
+      if (res.ok) {
+        toast.success("Delegate added");
+        setDelegateId("");
+        setStartDate("");
+        setEndDate("");
+        fetchDelegations();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || "Failed to add delegate");
+      }
+    } catch {
+      toast.error("Failed to add delegate");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function handleDelete(id: string) {
+    try {
+      const res = await fetch(`/api/delegations/${id}`, { method: "DELETE" });
+      if (res.ok) {
+        toast.success("Delegate removed");
+        fetchDelegations();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || "Failed to remove delegate");
+      }
+    } catch {
+      toast.error("Failed to remove delegate");
+    }
+  }
+
+  const otherUsers = users.filter((u) => u.id !== session?.user?.id);
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">Profile</h1>
+        <p className="text-muted-foreground">
+          {session?.user?.name} · {session?.user?.email}
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 mb-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCircle className="h-5 w-5" />
+              Account
+            </CardTitle>
+            <CardDescription>
+              Your email, role and manager are managed by an administrator.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!profile ? (
+              <Skeleton className="h-32 w-full" />
+            ) : (
+              <form onSubmit={handleSaveProfile} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name *</Label>
+                  <Input
+                    id="name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                  />
+                </div>
+                <dl className="grid grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <dt className="text-muted-foreground">Role</dt>
+                    <dd className="capitalize">{profile.role.toLowerCase()}</dd>
+                  </div>
+                  <div>
+                    <dt className="text-muted-foreground">Manager</dt>
+                    <dd>{profile.manager?.name ?? "-"}</dd>
+                  </div>
+                </dl>
+                <Button
+                  type="submit"
+                  disabled={savingProfile || !name || name === profile.name}
+                >
+                  {savingProfile ? "Saving..." : "Save"}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Change Password
+            </CardTitle>
+            <CardDescription>Use at least 8 characters.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleChangePassword} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="currentPassword">Current Password *</Label>
+                <Input
+                  id="currentPassword"
+                  type="password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  autoComplete="current-password"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">New Password *</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm New Password *</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+              <Button type="submit" disabled={changingPassword}>
+                {changingPassword ? "Changing..." : "Change Password"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarOff className="h-5 w-5" />
+              Out of Office
+            </CardTitle>
+            <CardDescription>
+              While you are away, approvals assigned to you go to your delegate
+              instead.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Delegate *</Label>
+                <Select value={delegateId} onValueChange={setDelegateId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a user" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {otherUsers.map((user) => (
+                      <SelectItem key={user.id} value={user.id}>
+                        {user.name} ({user.email})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="startDate">From *</Label>
+                  <Input
+                    id="startDate"
+                    type="date"
+                    value={startDate}
+                    onChange={(e) => setStartDate(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="endDate">Until *</Label>
+                  <Input
+                    id="endDate"
+                    type="date"
+                    value={endDate}
+                    min={startDate || undefined}
+                    onChange={(e) => setEndDate(e.target.value)}
+                  />
+                </div>
+              </div>
+              <Button
+                type="submit"
+                disabled={submitting || !delegateId || !startDate || !endDate}
+              >
+                {submitting ? "Saving..." : "Add Delegate"}
+              </Button>
+            </form>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Your delegates</p>
+              {loading ? (
+                <Skeleton className="h-12 w-full" />
+              ) : given.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No upcoming delegations
+                </p>
+              ) : (
+                given.map((delegation) => (
+                  <div
+                    key={delegation.id}
+                    className="flex items-center justify-between rounded-md border p-3"
+                  >
+                    <div>
+                      <p className="text-sm font-medium">
+                        {delegation.delegate?.name}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatPeriod(delegation)}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(delegation.id)}
+                    >
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCheck className="h-5 w-5" />
+              Covering For
+            </CardTitle>
+            <CardDescription>
+              People who have made you their delegate
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {loading ? (
+              <Skeleton className="h-12 w-full" />
+            ) : received.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nobody has delegated to you
+              </p>
+            ) : (
+              received.map((delegation) => (
+                <div key={delegation.id} className="rounded-md border p-3">
+                  <p className="text-sm font-medium">
+                    {delegation.delegator?.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatPeriod(delegation)}
+                  </p>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <NotificationPreferencesCard />
+
+      <ApiTokensCard />
+    </div>
+  );
+}
@@ -2,7 +2,17 @@
 
 import { useState, useEffect } from "react";
 import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { can } from "@/lib/permissions";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import {
   Table,
   TableBody,
@@ -23,9 +33,9 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
-import { Download, Eye } from "lucide-react";
+import { Bookmark, Download, Eye, FolderOpen } from "lucide-react";
 import { format } from "date-fns";
-import Papa from "papaparse";
+import { SavedReportDialog } from "@/components/reports/SavedReportDialog";
 
 interface Process {
   id: string;
@@ -46,6 +56,7 @@ interface Process {
     id: string;
     status: string;
     actedAt: string | null;
+    breachedAt: string | null;
     workflowStep: {
       name: string;
       stepType: string;
@@ -67,6 +78,16 @@ interface Approver {
   name: string;
 }
 
+interface Group {
+  id: string;
+  name: string;
+}
+
+interface Manager {
+  id: string;
+  name: string;
+}
+
 const statusColors: Record<string, string> = {
   PENDING: "bg-gray-100 text-gray-800",
   IN_PROGRESS: "bg-blue-100 text-blue-800",
@@ -77,30 +98,55 @@ const statusColors: Record<string, string> = {
 };
 
 export default function ReportsPage() {
+  const { data: session } = useSession();
   const [processes, setProcesses] = useState<Process[]>([]);
   const [workflows, setWorkflows] = useState<Workflow[]>([]);
   const [approvers, setApprovers] = useState<Approver[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [managers, setManagers] = useState<Manager[]>([]);
   const [loading, setLoading] = useState(true);
   const [workflowFilter, setWorkflowFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [approverFilter, setApproverFilter] = useState<string>("all");
+  const [slaFilter, setSlaFilter] = useState<string>("all");
+  const [groupFilter, setGroupFilter] = useState<string>("all");
+  const [managerFilter, setManagerFilter] = useState<string>("all");
   const [startDate, setStartDate] = useState<string>("");
   const [endDate, setEndDate] = useState<string>("");
   const [total, setTotal] = useState(0);
+  const [flattenFormData, setFlattenFormData] = useState(false);
+  const [saveDialogOpen, setSaveDialogOpen] = useState(false);
 
   useEffect(() => {
     fetchReports();
-  }, [workflowFilter, statusFilter, approverFilter, startDate, endDate]);
+  }, [
+    workflowFilter,
+    statusFilter,
+    approverFilter,
+    slaFilter,
+    groupFilter,
+    managerFilter,
+    startDate,
+    endDate,
+  ]);
+
+  function filterParams() {
+    const params = new URLSearchParams();
+    if (workflowFilter !== "all") params.set("workflowId", workflowFilter);
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    if (approverFilter !== "all") params.set("approverId", approverFilter);
+    if (slaFilter !== "all") params.set("sla", slaFilter);
+    if (groupFilter !== "all") params.set("groupId", groupFilter);
+    if (managerFilter !== "all") params.set("managerId", managerFilter);
+    if (startDate) params.set("startDate", startDate);
+    if (endDate) params.set("endDate", endDate);
+    return params;
+  }
 
   async function fetchReports() {
     setLoading(true);
     try {
-      const params = new URLSearchParams();
-      if (workflowFilter !== "all") params.set("workflowId", workflowFilter);
-      if (statusFilter !== "all") params.set("status", statusFilter);
-      if (approverFilter !== "all") params.set("approverId", approverFilter);
-      if (startDate) params.set("startDate", startDate);
-      if (endDate) params.set("endDate", endDate);
+      const params = filterParams();
       params.set("limit", "100");
 
       const res = await fetch(`/api/reports?${params.toString()}`);
@@ -109,6 +155,8 @@ export default function ReportsPage() {
         setProcesses(data.processes);
         setWorkflows(data.workflows);
         setApprovers(data.approvers);
+        setGroups(data.groups);
+        setManagers(data.managers);
         setTotal(data.pagination.total);
       } else {
         toast.error("Failed to fetch reports");
@@ -120,39 +168,13 @@ export default function ReportsPage() {
     }
   }
 
-  function exportToCSV() {
-    const csvData = processes.map((process) => ({
-      ID: process.id,
-      Workflow: process.workflowTemplate.name,
-      Status: process.status,
-      "Created By": process.createdBy.name,
-      "Created By Email": process.createdBy.email,
-      "Created At": format(new Date(process.createdAt), "yyyy-MM-dd HH:mm:ss"),
-      "Updated At": format(new Date(process.updatedAt), "yyyy-MM-dd HH:mm:ss"),
-      "Last Approver": process.steps
-        .filter((s) => s.actedBy)
-        .map((s) => s.actedBy?.name)
-        .filter(Boolean)
-        .pop() || "",
-      "Completion Date": process.status === "COMPLETED"
-        ? format(new Date(process.updatedAt), "yyyy-MM-dd HH:mm:ss")
-        : "",
-    }));
-
-    const csv = Papa.unparse(csvData);
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" });
-    const link = document.createElement("a");
-    const url = URL.createObjectURL(blob);
-    link.setAttribute("href", url);
-    link.setAttribute(
-      "download",
-      `process-report-${format(new Date(), "yyyy-MM-dd")}.csv`
-    );
-    link.style.visibility = "hidden";
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    toast.success("Report exported successfully");
+  // Exports cover every matching process, not just the loaded page, and are
+  // streamed by the server straight into a download
+  function exportReport(format: "csv" | "xlsx" | "pdf") {
+    const params = filterParams();
+    params.set("format", format);
+    if (flattenFormData) params.set("flatten", "true");
+    window.location.assign(`/api/reports/export?${params.toString()}`);
   }
 
   return (
@@ -164,10 +186,49 @@ export default function ReportsPage() {
             Generate and export process reports
           </p>
         </div>
-        <Button onClick={exportToCSV} disabled={processes.length === 0}>
-          <Download className="mr-2 h-4 w-4" />
-          Export to CSV
-        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/reports/saved">
+              <FolderOpen className="mr-2 h-4 w-4" />
+              Saved Reports
+            </Link>
+          </Button>
+          {can(session?.user, "report.export") && (
+            <Button variant="outline" onClick={() => setSaveDialogOpen(true)}>
+              <Bookmark className="mr-2 h-4 w-4" />
+              Save Report
+            </Button>
+          )}
+          {can(session?.user, "report.export") && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button disabled={total === 0}>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-56">
+                <DropdownMenuItem onClick={() => exportReport("csv")}>
+                  CSV
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportReport("xlsx")}>
+                  Excel (XLSX)
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => exportReport("pdf")}>
+                  PDF summary
+                </DropdownMenuItem>
+                <DropdownMenuSeparator />
+                <DropdownMenuCheckboxItem
+                  checked={flattenFormData}
+                  onCheckedChange={setFlattenFormData}
+                  onSelect={(e) => e.preventDefault()}
+                >
+                  Form fields as columns
+                </DropdownMenuCheckboxItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
       </div>
 
       <Card className="mb-6">
@@ -219,6 +280,47 @@ export default function ReportsPage() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="w-44">
+              <Select value={slaFilter} onValueChange={setSlaFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by SLA" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All SLA States</SelectItem>
+                  <SelectItem value="breached">SLA Breached</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-44">
+              <Select value={groupFilter} onValueChange={setGroupFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by group" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Groups</SelectItem>
+                  {groups.map((group) => (
+                    <SelectItem key={group.id} value={group.id}>
+                      {group.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-44">
+              <Select value={managerFilter} onValueChange={setManagerFilter}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Filter by manager" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Teams</SelectItem>
+                  {managers.map((manager) => (
+                    <SelectItem key={manager.id} value={manager.id}>
+                      Team of {manager.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex items-center gap-2">
               <Input
                 type="date"
@@ -322,6 +424,13 @@ export default function ReportsPage() {
           </TableBody>
         </Table>
       </div>
+
+      <SavedReportDialog
+        savedReport={null}
+        filters={Object.fromEntries(filterParams())}
+        open={saveDialogOpen}
+        onOpenChange={setSaveDialogOpen}
+      />
     </div>
   );
 }
@@ -0,0 +1,288 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import {
+  ArrowLeft,
+  MoreHorizontal,
+  Pencil,
+  Play,
+  Trash2,
+  History,
+} from "lucide-react";
+import { format } from "date-fns";
+import {
+  SavedReportDialog,
+  describeSchedule,
+  reportFormats,
+  type SavedReport,
+} from "@/components/reports/SavedReportDialog";
+import { ReportRunsSheet } from "@/components/reports/ReportRunsSheet";
+
+const runStatusVariants = {
+  RUNNING: "secondary",
+  SUCCEEDED: "default",
+  FAILED: "destructive",
+} as const;
+
+export default function SavedReportsPage() {
+  const { data: session } = useSession();
+  const [savedReports, setSavedReports] = useState<SavedReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingReport, setEditingReport] = useState<SavedReport | null>(null);
+  const [runsReport, setRunsReport] = useState<SavedReport | null>(null);
+  const [running, setRunning] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSavedReports();
+  }, []);
+
+  async function fetchSavedReports() {
+    try {
+      const res = await fetch("/api/reports/saved");
+      if (res.ok) {
+        const data = await res.json();
+        setSavedReports(data.savedReports);
+      } else {
+        toast.error("Failed to fetch saved reports");
+      }
+    } catch {
+      toast.error("Failed to fetch saved reports");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function runReport(savedReport: SavedReport) {
+    setRunning(savedReport.id);
+    try {
+      const res = await fetch(`/api/reports/saved/${savedReport.id}/runs`, {
+        method: "POST",
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        if (data.status === "SUCCEEDED") {
+          toast.success("Report generated");
+        } else {
+          toast.error(data.error || "Report failed");
+        }
+        fetchSavedReports();
+        setRunsReport(savedReport);
+      } else {
+        toast.error(data.error || "Failed to run report");
+      }
+    } catch {
+      toast.error("Failed to run report");
+    } finally {
+      setRunning(null);
+    }
+  }
+
+  async function deleteReport(savedReport: SavedReport) {
+    if (
+      !confirm(
+        `Delete the saved report ${savedReport.name} and all of its runs?`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/reports/saved/${savedReport.id}`, {
+        method: "DELETE",
+      });
+
+      if (res.ok) {
+        toast.success("Saved report deleted");
+        fetchSavedReports();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || "Failed to delete saved report");
+      }
+    } catch {
+      toast.error("Failed to delete saved report");
+    }
+  }
+
+  return (
+    <div>
+      <div className="mb-6">
+        <Button variant="ghost" size="sm" className="-ml-3 mb-2" asChild>
+          <Link href="/reports">
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Reports
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-bold">Saved Reports</h1>
+        <p className="text-muted-foreground">
+          Reports you saved, were sent or that were shared with your groups
+        </p>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Schedule</TableHead>
+              <TableHead>Last Run</TableHead>
+              <TableHead className="w-10"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              Array.from({ length: 3 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Skeleton className="h-4 w-48" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-40" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-32" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-8 w-8" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : savedReports.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={4}
+                  className="py-8 text-center text-muted-foreground"
+                >
+                  No saved reports yet. Save one from the filters on the
+                  reports page.
+                </TableCell>
+              </TableRow>
+            ) : (
+              savedReports.map((savedReport) => {
+                const lastRun = savedReport.runs[0];
+                const isOwner = savedReport.ownerId === session?.user?.id;
+                const sharedCount = savedReport.sharedGroupIds.length;
+
+                return (
+                  <TableRow key={savedReport.id}>
+                    <TableCell>
+                      <p className="font-medium">{savedReport.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {reportFormats[savedReport.format]}
+                        {!isOwner && ` · Shared by ${savedReport.owner.name}`}
+                        {isOwner &&
+                          sharedCount > 0 &&
+                          ` · Shared with ${sharedCount} ${
+                            sharedCount === 1 ? "group" : "groups"
+                          }`}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <p>{describeSchedule(savedReport)}</p>
+                      {savedReport.nextRunAt && (
+                        <p className="text-sm text-muted-foreground">
+                          Next run{" "}
+                          {format(new Date(savedReport.nextRunAt), "PPp")}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {lastRun ? (
+                        <>
+                          <Badge variant={runStatusVariants[lastRun.status]}>
+                            {lastRun.status.toLowerCase()}
+                          </Badge>
+                          <p className="text-sm text-muted-foreground">
+                            {format(new Date(lastRun.startedAt), "PPp")}
+                          </p>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">Never</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem
+                            onClick={() => runReport(savedReport)}
+                            disabled={running !== null}
+                          >
+                            <Play className="mr-2 h-4 w-4" />
+                            {running === savedReport.id
+                              ? "Running..."
+                              : "Run now"}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => setRunsReport(savedReport)}
+                          >
+                            <History className="mr-2 h-4 w-4" />
+                            Run history
+                          </DropdownMenuItem>
+                          {isOwner && (
+                            <>
+                              <DropdownMenuItem
+                                onClick={() => setEditingReport(savedReport)}
+                              >
+                                <Pencil className="mr-2 h-4 w-4" />
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => deleteReport(savedReport)}
+                                className="text-red-600"
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <SavedReportDialog
+        savedReport={editingReport}
+        filters={{}}
+        open={editingReport !== null}
+        onOpenChange={(open) => !open && setEditingReport(null)}
+        onSaved={fetchSavedReports}
+      />
+
+      <ReportRunsSheet
+        savedReport={runsReport}
+        onClose={() => setRunsReport(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { can } from "@/lib/permissions";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import {
+  Plus,
+  MoreHorizontal,
+  Pencil,
+  KeyRound,
+  UserX,
+  UserCheck,
+  ShieldAlert,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { UserDialog, type ManagedUser } from "@/components/users/UserDialog";
+import { SignInSettings } from "@/components/users/SignInSettings";
+
+const roleColors = {
+  ADMIN: "bg-purple-100 text-purple-800",
+  APPROVER: "bg-blue-100 text-blue-800",
+  USER: "bg-gray-100 text-gray-800",
+};
+
+export default function UsersPage() {
+  const { data: session } = useSession();
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<ManagedUser | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState<string | null>(
+    null
+  );
+
+  useEffect(() => {
+    if (can(session?.user, "user.manage")) {
+      fetchUsers();
+    } else {
+      setLoading(false);
+    }
+  }, [session]);
+
+  async function fetchUsers() {
+    try {
+      const res = await fetch("/api/users?includeInactive=true");
+      if (res.ok) {
+        const data = await res.json();
+        setUsers(data.users);
+      } else {
+        toast.error("Failed to fetch users");
+      }
+    } catch {
+      toast.error("Failed to fetch users");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function openDialog(user: ManagedUser | null) {
+    setEditingUser(user);
+    setDialogOpen(true);
+  }
+
+  async function setActive(user: ManagedUser, isActive: boolean) {
+    try {
+      const res = await fetch(`/api/users/${user.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive }),
+      });
+
+      if (res.ok) {
+        toast.success(isActive ? "User reactivated" : "User deactivated");
+        fetchUsers();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || "Failed to update user");
+      }
+    } catch {
+      toast.error("Failed to update user");
+    }
+  }
+
+  async function resetPassword(user: ManagedUser) {
+    if (!confirm(`Reset the password of ${user.name}?`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/users/${user.id}/password`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        setTemporaryPassword(data.temporaryPassword);
+      } else {
+        toast.error(data.error || "Failed to reset password");
+      }
+    } catch {
+      toast.error("Failed to reset password");
+    }
+  }
+
+  if (!can(session?.user, "user.manage")) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16">
+        <ShieldAlert className="h-16 w-16 text-gray-300" />
+        <h2 className="mt-4 text-xl font-semibold">Access Denied</h2>
+        <p className="text-muted-foreground">
+          You don&apos;t have permission to manage users
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Users</h1>
+          <p className="text-muted-foreground">
+            Manage accounts, roles and reporting lines
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New User
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Manager</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead className="w-10"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              Array.from({ length: 5 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Skeleton className="h-4 w-40" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-6 w-16" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-24" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-6 w-16" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-24" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-8 w-8" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              users.map((user) => (
+                <TableRow
+                  key={user.id}
+                  className={user.isActive ? "" : "opacity-60"}
+                >
+                  <TableCell>
+                    <p className="font-medium">{user.name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {user.email}
+                    </p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={roleColors[user.role]} variant="secondary">
+                      {user.role}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{user.manager?.name ?? "-"}</TableCell>
+                  <TableCell>
+                    <Badge
+                      className={
+                        user.isActive
+                          ? "bg-green-100 text-green-800"
+                          : "bg-red-100 text-red-800"
+                      }
+                      variant="secondary"
+                    >
+                      {user.isActive ? "ACTIVE" : "DEACTIVATED"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {formatDistanceToNow(new Date(user.createdAt), {
+                      addSuffix: true,
+                    })}
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => openDialog(user)}>
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => resetPassword(user)}>
+                          <KeyRound className="mr-2 h-4 w-4" />
+                          Reset Password
+                        </DropdownMenuItem>
+                        {user.id !== session?.user?.id && (
+                          <>
+                            <DropdownMenuSeparator />
+                            {user.isActive ? (
+                              <DropdownMenuItem
+                                onClick={() => setActive(user, false)}
+                                className="text-red-600"
+                              >
+                                <UserX className="mr-2 h-4 w-4" />
+                                Deactivate
+                              </DropdownMenuItem>
+                            ) : (
+                              <DropdownMenuItem
+                                onClick={() => setActive(user, true)}
+                              >
+                                <UserCheck className="mr-2 h-4 w-4" />
+                                Reactivate
+                              </DropdownMenuItem>
+                            )}
+                          </>
+                        )}
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {can(session?.user, "settings.manage") && <SignInSettings />}
+
+      <UserDialog
+        user={editingUser}
+        users={users}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={(password) => {
+          setTemporaryPassword(password);
+          fetchUsers();
+        }}
+      />
+
+      {/* Generated passwords are only shown once */}
+      <AlertDialog
+        open={temporaryPassword !== null}
+        onOpenChange={(open) => !open && setTemporaryPassword(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Temporary Password</AlertDialogTitle>
+            <AlertDialogDescription>
+              Share this password with the user and ask them to change it from
+              their profile. It won&apos;t be shown again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <p className="rounded-md border bg-muted p-3 font-mono text-sm select-all">
+            {temporaryPassword}
+          </p>
+          <AlertDialogFooter>
+            <AlertDialogAction>Done</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
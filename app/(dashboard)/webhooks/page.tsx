@@ -0,0 +1,290 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { can } from "@/lib/permissions";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+import {
+  Plus,
+  MoreHorizontal,
+  Pencil,
+  Trash2,
+  History,
+  ShieldAlert,
+} from "lucide-react";
+import { WebhookDialog, type Webhook } from "@/components/webhooks/WebhookDialog";
+import { WebhookDeliveriesSheet } from "@/components/webhooks/WebhookDeliveriesSheet";
+
+interface Workflow {
+  id: string;
+  name: string;
+}
+
+export default function WebhooksPage() {
+  const { data: session } = useSession();
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [events, setEvents] = useState<Record<string, string>>({});
+  const [workflows, setWorkflows] = useState<Workflow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingWebhook, setEditingWebhook] = useState<Webhook | null>(null);
+  const [deliveriesWebhook, setDeliveriesWebhook] = useState<Webhook | null>(
+    null
+  );
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (can(session?.user, "webhook.manage")) {
+      fetchWebhooks();
+    } else {
+      setLoading(false);
+    }
+  }, [session]);
+
+  async function fetchWebhooks() {
+    try {
+      const res = await fetch("/api/webhooks");
+      if (res.ok) {
+        const data = await res.json();
+        setWebhooks(data.webhooks);
+        setEvents(data.events);
+        setWorkflows(data.workflows);
+      } else {
+        toast.error("Failed to fetch webhooks");
+      }
+    } catch {
+      toast.error("Failed to fetch webhooks");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function openDialog(webhook: Webhook | null) {
+    setEditingWebhook(webhook);
+    setDialogOpen(true);
+  }
+
+  function handleSaved(secret?: string) {
+    if (secret) {
+      setNewSecret(secret);
+    }
+    fetchWebhooks();
+  }
+
+  async function deleteWebhook(webhook: Webhook) {
+    if (!confirm(`Delete the webhook ${webhook.name}?`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/webhooks/${webhook.id}`, {
+        method: "DELETE",
+      });
+
+      if (res.ok) {
+        toast.success("Webhook deleted");
+        fetchWebhooks();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || "Failed to delete webhook");
+      }
+    } catch {
+      toast.error("Failed to delete webhook");
+    }
+  }
+
+  function workflowNames(webhook: Webhook) {
+    if (webhook.workflowTemplateIds.length === 0) return "All workflows";
+    return webhook.workflowTemplateIds
+      .map((id) => workflows.find((w) => w.id === id)?.name ?? "Deleted")
+      .join(", ");
+  }
+
+  if (!can(session?.user, "webhook.manage")) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16">
+        <ShieldAlert className="h-16 w-16 text-gray-300" />
+        <h2 className="mt-4 text-xl font-semibold">Access Denied</h2>
+        <p className="text-muted-foreground">
+          You don&apos;t have permission to manage webhooks
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold">Webhooks</h1>
+          <p className="text-muted-foreground">
+            Notify other systems when processes and steps change
+          </p>
+        </div>
+        <Button onClick={() => openDialog(null)}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Webhook
+        </Button>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Events</TableHead>
+              <TableHead>Workflows</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="w-10"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              Array.from({ length: 3 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Skeleton className="h-4 w-48" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-40" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-24" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-16" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-8 w-8" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : webhooks.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={5}
+                  className="py-8 text-center text-muted-foreground"
+                >
+                  No webhooks yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              webhooks.map((webhook) => (
+                <TableRow key={webhook.id}>
+                  <TableCell>
+                    <p className="font-medium">{webhook.name}</p>
+                    <p className="text-sm text-muted-foreground break-all">
+                      {webhook.url}
+                    </p>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">
+                    {webhook.events.join(", ")}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {workflowNames(webhook)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={webhook.isActive ? "default" : "secondary"}>
+                      {webhook.isActive ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon">
+                          <MoreHorizontal className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          onClick={() => setDeliveriesWebhook(webhook)}
+                        >
+                          <History className="mr-2 h-4 w-4" />
+                          Deliveries
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => openDialog(webhook)}>
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => deleteWebhook(webhook)}
+                          className="text-red-600"
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <WebhookDialog
+        webhook={editingWebhook}
+        events={events}
+        workflows={workflows}
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        onSaved={handleSaved}
+      />
+
+      <WebhookDeliveriesSheet
+        webhook={deliveriesWebhook}
+        onClose={() => setDeliveriesWebhook(null)}
+      />
+
+      {/* Secrets are only shown once */}
+      <AlertDialog
+        open={newSecret !== null}
+        onOpenChange={(open) => !open && setNewSecret(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Webhook Created</AlertDialogTitle>
+            <AlertDialogDescription>
+              Use this secret to verify the <code>X-Webhook-Signature</code>{" "}
+              header of each request. Copy it now; it won&apos;t be shown
+              again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <p className="rounded-md border bg-muted p-3 font-mono text-sm break-all select-all">
+            {newSecret}
+          </p>
+          <AlertDialogFooter>
+            <AlertDialogAction>Done</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
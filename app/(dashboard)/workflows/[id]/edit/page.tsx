@@ -17,9 +17,10 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
-import { ArrowLeft, Save, Play, Archive } from "lucide-react";
+import { ArrowLeft, Save, Play, Archive, Upload } from "lucide-react";
 import Link from "next/link";
 import { WorkflowStepsList } from "@/components/workflow/WorkflowStepsList";
+import { WorkflowVersionHistory } from "@/components/workflow/WorkflowVersionHistory";
 import { FormBuilder } from "@/components/form/FormBuilder";
 
 interface WorkflowStep {
@@ -49,6 +50,9 @@ interface Workflow {
   name: string;
   description: string | null;
   status: "DRAFT" | "ACTIVE" | "ARCHIVED";
+  version: number | null;
+  versionStatus: "DRAFT" | "PUBLISHED" | "SUPERSEDED" | null;
+  publishedVersion: { version: number } | null;
   steps: WorkflowStep[];
   formSchema: {
     fields: FormField[];
@@ -132,7 +136,13 @@ export default function EditWorkflowPage({
       if (res.ok) {
         const updated = await res.json();
         setWorkflow(updated);
-        toast.success("Workflow saved successfully");
+        if (updated.versionStatus === "DRAFT" && updated.publishedVersion) {
+          toast.success(
+            `Saved as draft version ${updated.version}. Publish it to use it for new processes.`
+          );
+        } else {
+          toast.success("Workflow saved successfully");
+        }
       } else {
         const data = await res.json();
         toast.error(data.error || "Failed to save workflow");
@@ -155,7 +165,11 @@ export default function EditWorkflowPage({
       if (res.ok) {
         const updated = await res.json();
         setWorkflow(updated);
-        toast.success(`Workflow ${status.toLowerCase()}`);
+        toast.success(
+          workflow?.status === status
+            ? `Version ${updated.publishedVersion?.version} published`
+            : `Workflow ${status.toLowerCase()}`
+        );
       } else {
         const data = await res.json();
         toast.error(data.error || "Failed to update status");
@@ -199,6 +213,14 @@ export default function EditWorkflowPage({
               <Badge className={statusColors[workflow.status]} variant="secondary">
                 {workflow.status}
               </Badge>
+              {workflow.version !== null && (
+                <Badge variant="outline">
+                  v{workflow.version}
+                  {workflow.versionStatus === "DRAFT" &&
+                    workflow.publishedVersion &&
+                    " draft"}
+                </Badge>
+              )}
             </div>
             <p className="text-muted-foreground">Edit workflow template</p>
           </div>
@@ -210,6 +232,16 @@ export default function EditWorkflowPage({
               Activate
             </Button>
           )}
+          {workflow.status === "ACTIVE" &&
+            workflow.versionStatus === "DRAFT" && (
+              <Button
+                variant="outline"
+                onClick={() => handleStatusChange("ACTIVE")}
+              >
+                <Upload className="mr-2 h-4 w-4" />
+                Publish v{workflow.version}
+              </Button>
+            )}
           {workflow.status === "ACTIVE" && (
             <Button
               variant="outline"
@@ -237,6 +269,7 @@ export default function EditWorkflowPage({
           <TabsTrigger value="details">Details</TabsTrigger>
           <TabsTrigger value="steps">Steps</TabsTrigger>
           <TabsTrigger value="form">Form Builder</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
         </TabsList>
 
         <TabsContent value="details">
@@ -280,7 +313,11 @@ export default function EditWorkflowPage({
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <WorkflowStepsList steps={steps} onStepsChange={setSteps} />
+              <WorkflowStepsList
+                steps={steps}
+                fields={formFields}
+                onStepsChange={setSteps}
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -298,6 +335,21 @@ export default function EditWorkflowPage({
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="history">
+          <Card>
+            <CardHeader>
+              <CardTitle>Version History</CardTitle>
+              <CardDescription>
+                Published versions are immutable; running processes keep the
+                version they were started on
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WorkflowVersionHistory workflowId={id} />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -166,7 +166,11 @@ export default function CreateWorkflowPage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <WorkflowStepsList steps={steps} onStepsChange={setSteps} />
+              <WorkflowStepsList
+                steps={steps}
+                fields={formFields}
+                onStepsChange={setSteps}
+              />
             </CardContent>
           </Card>
         </TabsContent>
@@ -3,6 +3,8 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
+import { useSession } from "next-auth/react";
+import { can } from "@/lib/permissions";
 import { Button } from "@/components/ui/button";
 import {
   Table,
@@ -37,6 +39,10 @@ interface Workflow {
   name: string;
   description: string | null;
   status: "DRAFT" | "ACTIVE" | "ARCHIVED";
+  ownerId: string | null;
+  version: number | null;
+  versionStatus: "DRAFT" | "PUBLISHED" | "SUPERSEDED" | null;
+  publishedVersion: { version: number } | null;
   createdAt: string;
   updatedAt: string;
   steps: Array<{
@@ -58,6 +64,8 @@ const statusColors = {
 
 export default function WorkflowsPage() {
   const router = useRouter();
+  const { data: session } = useSession();
+  const user = session?.user;
   const [workflows, setWorkflows] = useState<Workflow[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<string>("all");
@@ -138,12 +146,14 @@ export default function WorkflowsPage() {
             Manage your workflow templates
           </p>
         </div>
-        <Button asChild>
-          <Link href="/workflows/create">
-            <Plus className="mr-2 h-4 w-4" />
-            Create Workflow
-          </Link>
-        </Button>
+        {can(user, "workflow.create") && (
+          <Button asChild>
+            <Link href="/workflows/create">
+              <Plus className="mr-2 h-4 w-4" />
+              Create Workflow
+            </Link>
+          </Button>
+        )}
       </div>
 
       <div className="flex items-center gap-4 mb-4">
@@ -166,6 +176,7 @@ export default function WorkflowsPage() {
             <TableRow>
               <TableHead>Name</TableHead>
               <TableHead>Status</TableHead>
+              <TableHead>Version</TableHead>
               <TableHead>Steps</TableHead>
               <TableHead>Processes</TableHead>
               <TableHead>Last Updated</TableHead>
@@ -188,6 +199,9 @@ export default function WorkflowsPage() {
                   <TableCell>
                     <Skeleton className="h-4 w-8" />
                   </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-4 w-8" />
+                  </TableCell>
                   <TableCell>
                     <Skeleton className="h-4 w-24" />
                   </TableCell>
@@ -198,11 +212,13 @@ export default function WorkflowsPage() {
               ))
             ) : workflows.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={6} className="text-center py-8">
+                <TableCell colSpan={7} className="text-center py-8">
                   <p className="text-muted-foreground">No workflows found</p>
-                  <Button asChild className="mt-4" variant="outline">
-                    <Link href="/workflows/create">Create your first workflow</Link>
-                  </Button>
+                  {can(user, "workflow.create") && (
+                    <Button asChild className="mt-4" variant="outline">
+                      <Link href="/workflows/create">Create your first workflow</Link>
+                    </Button>
+                  )}
                 </TableCell>
               </TableRow>
             ) : (
@@ -228,6 +244,16 @@ export default function WorkflowsPage() {
                       {workflow.status}
                     </Badge>
                   </TableCell>
+                  <TableCell>
+                    {workflow.publishedVersion
+                      ? `v${workflow.publishedVersion.version}`
+                      : "-"}
+                    {workflow.versionStatus === "DRAFT" && (
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        (v{workflow.version} draft)
+                      </span>
+                    )}
+                  </TableCell>
                   <TableCell>{workflow.steps.length}</TableCell>
                   <TableCell>{workflow._count.processes}</TableCell>
                   <TableCell className="text-muted-foreground">
@@ -236,55 +262,65 @@ export default function WorkflowsPage() {
                     })}
                   </TableCell>
                   <TableCell>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button variant="ghost" size="icon">
-                          <MoreHorizontal className="h-4 w-4" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align="end">
-                        <DropdownMenuItem
-                          onClick={() =>
-                            router.push(`/workflows/${workflow.id}/edit`)
-                          }
-                        >
-                          <Pencil className="mr-2 h-4 w-4" />
-                          Edit
-                        </DropdownMenuItem>
-                        {workflow.status === "DRAFT" && (
-                          <DropdownMenuItem
-                            onClick={() => updateStatus(workflow.id, "ACTIVE")}
-                          >
-                            <Play className="mr-2 h-4 w-4" />
-                            Activate
-                          </DropdownMenuItem>
-                        )}
-                        {workflow.status === "ACTIVE" && (
-                          <DropdownMenuItem
-                            onClick={() => updateStatus(workflow.id, "ARCHIVED")}
-                          >
-                            <Archive className="mr-2 h-4 w-4" />
-                            Archive
-                          </DropdownMenuItem>
-                        )}
-                        {workflow.status === "ARCHIVED" && (
+                    {can(user, "workflow.edit", workflow) && (
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
                           <DropdownMenuItem
-                            onClick={() => updateStatus(workflow.id, "ACTIVE")}
+                            onClick={() =>
+                              router.push(`/workflows/${workflow.id}/edit`)
+                            }
                           >
-                            <Play className="mr-2 h-4 w-4" />
-                            Reactivate
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit
                           </DropdownMenuItem>
-                        )}
-                        <DropdownMenuSeparator />
-                        <DropdownMenuItem
-                          className="text-red-600 focus:text-red-600"
-                          onClick={() => deleteWorkflow(workflow.id)}
-                        >
-                          <Trash2 className="mr-2 h-4 w-4" />
-                          Delete
-                        </DropdownMenuItem>
-                      </DropdownMenuContent>
-                    </DropdownMenu>
+                          {can(user, "workflow.publish", workflow) && (
+                            <>
+                              {workflow.status === "DRAFT" && (
+                                <DropdownMenuItem
+                                  onClick={() => updateStatus(workflow.id, "ACTIVE")}
+                                >
+                                  <Play className="mr-2 h-4 w-4" />
+                                  Activate
+                                </DropdownMenuItem>
+                              )}
+                              {workflow.status === "ACTIVE" && (
+                                <DropdownMenuItem
+                                  onClick={() => updateStatus(workflow.id, "ARCHIVED")}
+                                >
+                                  <Archive className="mr-2 h-4 w-4" />
+                                  Archive
+                                </DropdownMenuItem>
+                              )}
+                              {workflow.status === "ARCHIVED" && (
+                                <DropdownMenuItem
+                                  onClick={() => updateStatus(workflow.id, "ACTIVE")}
+                                >
+                                  <Play className="mr-2 h-4 w-4" />
+                                  Reactivate
+                                </DropdownMenuItem>
+                              )}
+                            </>
+                          )}
+                          {can(user, "workflow.delete", workflow) && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                className="text-red-600 focus:text-red-600"
+                                onClick={() => deleteWorkflow(workflow.id)}
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    )}
                   </TableCell>
                 </TableRow>
               ))
@@ -0,0 +1,191 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { CheckCircle, XCircle } from "lucide-react";
+import { format } from "date-fns";
+
+type StepAction = "approve" | "reject" | "request_changes";
+
+interface ActionLink {
+  action: StepAction;
+  userName: string;
+  stepName: string;
+  process: {
+    id: string;
+    workflowName: string;
+    requesterName: string;
+    createdAt: string;
+  };
+}
+
+const actionText: Record<
+  StepAction,
+  { title: string; button: string; done: string }
+> = {
+  approve: {
+    title: "Approve request",
+    button: "Approve",
+    done: "You approved this request.",
+  },
+  reject: {
+    title: "Reject request",
+    button: "Reject",
+    done: "You rejected this request.",
+  },
+  request_changes: {
+    title: "Request changes",
+    button: "Request Changes",
+    done: "You asked the requester for changes.",
+  },
+};
+
+// Reached from the signed links in approval notifications and emails. The
+// action is only taken once the approver confirms, so link previews and mail
+// scanners that open the link can't decide the step.
+export default function ActionLinkPage({
+  params,
+}: {
+  params: { token: string };
+}) {
+  const [link, setLink] = useState<ActionLink | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [comments, setComments] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [done, setDone] = useState(false);
+
+  useEffect(() => {
+    fetchLink();
+  }, [params.token]);
+
+  async function fetchLink() {
+    try {
+      const res = await fetch(`/api/action-links/${params.token}`);
+      const data = await res.json();
+      if (res.ok) {
+        setLink(data);
+      } else {
+        setError(data.error || "This link is invalid or has expired");
+      }
+    } catch {
+      setError("Failed to load this link");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleConfirm(e: React.FormEvent) {
+    e.preventDefault();
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(`/api/action-links/${params.token}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ comments: comments || undefined }),
+      });
+      const data = await res.json();
+      if (res.ok) {
+        setDone(true);
+      } else {
+        setError(data.error || "Failed to record your decision");
+      }
+    } catch {
+      setError("Failed to record your decision");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const text = link && actionText[link.action];
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gray-100 px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-2xl font-bold text-center">
+            {text?.title ?? "Process Ninja"}
+          </CardTitle>
+          {link && (
+            <CardDescription className="text-center">
+              Deciding as {link.userName}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-16 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : error ? (
+            <div className="flex flex-col items-center space-y-4 text-center">
+              <XCircle className="h-12 w-12 text-red-500" />
+              <p className="text-sm">{error}</p>
+              <Button asChild variant="outline">
+                <Link href={link ? `/processes/${link.process.id}` : "/"}>
+                  Open Process Ninja
+                </Link>
+              </Button>
+            </div>
+          ) : done && link && text ? (
+            <div className="flex flex-col items-center space-y-4 text-center">
+              <CheckCircle className="h-12 w-12 text-green-500" />
+              <p className="text-sm">{text.done}</p>
+              <Button asChild variant="outline">
+                <Link href={`/processes/${link.process.id}`}>
+                  View the request
+                </Link>
+              </Button>
+            </div>
+          ) : link && text ? (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <div className="rounded-md border p-3 text-sm">
+                <p className="font-medium">{link.process.workflowName}</p>
+                <p className="text-muted-foreground">
+                  {link.stepName} · requested by {link.process.requesterName}{" "}
+                  on {format(new Date(link.process.createdAt), "PPP")}
+                </p>
+                <Link
+                  href={`/processes/${link.process.id}`}
+                  className="text-primary hover:underline"
+                >
+                  View the full request
+                </Link>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="comments">Comment (optional)</Label>
+                <Textarea
+                  id="comments"
+                  value={comments}
+                  onChange={(e) => setComments(e.target.value)}
+                  rows={3}
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full"
+                variant={link.action === "reject" ? "destructive" : "default"}
+                disabled={submitting}
+              >
+                {submitting ? "Submitting..." : text.button}
+              </Button>
+            </form>
+          ) : null}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { verifyActionLink } from "@/lib/action-links";
+import { performStepAction, StepActionError } from "@/lib/step-actions";
+
+const useLinkSchema = z.object({
+  comments: z.string().optional(),
+});
+
+// Action links stand in for a session: the signed token names the user, so
+// these routes don't require signing in. Everything else about the action
+// is checked as in POST /api/processes/:id/steps/:stepId/action.
+async function loadLink(token: string) {
+  const link = verifyActionLink(token);
+  if (!link) {
+    return { error: "This link is invalid or has expired", status: 400 };
+  }
+
+  const [used, step, user] = await Promise.all([
+    db.usedActionLink.findUnique({ where: { nonce: link.nonce } }),
+    db.processStepInstance.findUnique({
+      where: { id: link.stepInstanceId },
+      include: {
+        workflowStep: { select: { name: true } },
+        processInstance: {
+          select: {
+            id: true,
+            createdAt: true,
+            workflowTemplate: { select: { name: true } },
+            createdBy: { select: { name: true } },
+          },
+        },
+      },
+    }),
+    db.user.findUnique({
+      where: { id: link.userId },
+      select: { name: true, isActive: true },
+    }),
+  ]);
+
+  if (used) {
+    return { error: "This link has already been used", status: 410 };
+  }
+  if (!user?.isActive) {
+    return { error: "This link is invalid or has expired", status: 400 };
+  }
+  // Resubmitting a process reactivates its step, which retires older links
+  if (
+    !step ||
+    step.status !== "PENDING" ||
+    step.activatedAt?.getTime() !== link.activatedAt
+  ) {
+    return {
+      error: "This request no longer needs your decision",
+      status: 410,
+    };
+  }
+
+  return { link, step, user };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const loaded = await loadLink(params.token);
+    if ("error" in loaded) {
+      return NextResponse.json(
+        { error: loaded.error },
+        { status: loaded.status }
+      );
+    }
+
+    const { link, step, user } = loaded;
+    return NextResponse.json({
+      action: link.action,
+      userName: user.name,
+      stepName: step.workflowStep.name,
+      process: {
+        id: step.processInstance.id,
+        workflowName: step.processInstance.workflowTemplate.name,
+        requesterName: step.processInstance.createdBy.name,
+        createdAt: step.processInstance.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching action link:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch action link" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const body = await request.json();
+    const result = useLinkSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const loaded = await loadLink(params.token);
+    if ("error" in loaded) {
+      return NextResponse.json(
+        { error: loaded.error },
+        { status: loaded.status }
+      );
+    }
+
+    // The link is used up together with the vote, see performStepAction
+    const { link, step } = loaded;
+    const outcome = await performStepAction({
+      processId: step.processInstanceId,
+      stepId: step.id,
+      userId: link.userId,
+      action: link.action,
+      comments: result.data.comments || undefined,
+      actionLink: link,
+    });
+
+    return NextResponse.json({ outcome });
+  } catch (error) {
+    if (error instanceof StepActionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+    console.error("Error using action link:", error);
+    return NextResponse.json(
+      { error: "Failed to use action link" },
+      { status: 500 }
+    );
+  }
+}
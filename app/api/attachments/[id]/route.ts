@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { db } from "@/lib/db";
+import { getStorage } from "@/lib/storage";
+import { canViewProcess } from "@/lib/visibility";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("processes:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const attachment = await db.attachment.findUnique({
+      where: { id: params.id },
+      include: {
+        processInstance: {
+          include: {
+            steps: {
+              include: { workflowStep: true, decisions: true },
+            },
+          },
+        },
+      },
+    });
+
+    if (!attachment) {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
+    // Files follow the access rules of the request they belong to; until
+    // the request is submitted only the uploader can see them
+    const process = attachment.processInstance;
+    if (!process) {
+      if (attachment.uploadedById !== session.user.id) {
+        return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+      }
+    } else if (!(await canViewProcess(session.user, process))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const data = await getStorage().get(attachment.storageKey);
+
+    // Always downloaded, never rendered, and the browser mustn't guess a
+    // more dangerous type than the one stored
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": attachment.mimeType,
+        "X-Content-Type-Options": "nosniff",
+        "Content-Length": String(data.length),
+        "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(
+          attachment.fileName
+        )}`,
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading file:", error);
+    return NextResponse.json(
+      { error: "Failed to download file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { saveAttachment } from "@/lib/attachments";
+import {
+  checkFile,
+  MAX_FILE_SIZE_MB,
+  type FormField,
+} from "@/lib/form-validation";
+
+// Room for the multipart framing and the other form fields around the file
+const MAX_UPLOAD_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024 + 64 * 1024;
+
+const uploadSchema = z.object({
+  workflowVersionId: z.string().min(1),
+  fieldName: z.string().min(1),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession("processes:write");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Oversized uploads are refused before the body is read into memory. The
+    // body can't run past its Content-Length, so requests without one (such
+    // as chunked uploads) are refused too.
+    const contentLength = Number(request.headers.get("content-length"));
+    if (!contentLength) {
+      return NextResponse.json(
+        { error: "Content-Length required" },
+        { status: 411 }
+      );
+    }
+    if (contentLength > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `Files can be no larger than ${MAX_FILE_SIZE_MB} MB` },
+        { status: 413 }
+      );
+    }
+
+    const form = await request.formData();
+    const result = uploadSchema.safeParse({
+      workflowVersionId: form.get("workflowVersionId"),
+      fieldName: form.get("fieldName"),
+    });
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const file = form.get("file");
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+    }
+
+    const { workflowVersionId, fieldName } = result.data;
+
+    const version = await db.workflowVersion.findUnique({
+      where: { id: workflowVersionId },
+      include: { formSchema: true },
+    });
+
+    if (!version) {
+      return NextResponse.json(
+        { error: "Workflow version not found" },
+        { status: 404 }
+      );
+    }
+
+    const fields = (version.formSchema?.fields ?? []) as unknown as FormField[];
+    const field = fields.find(
+      (f) => f.name === fieldName && f.type === "file"
+    );
+
+    if (!field) {
+      return NextResponse.json(
+        { error: "The form has no file field with this name" },
+        { status: 400 }
+      );
+    }
+
+    const fileError = checkFile(field, file);
+    if (fileError) {
+      return NextResponse.json({ error: fileError }, { status: 400 });
+    }
+
+    const attachment = await saveAttachment({
+      file,
+      workflowVersionId,
+      fieldName,
+      uploadedById: session.user.id,
+    });
+
+    return NextResponse.json(
+      {
+        id: attachment.id,
+        name: attachment.fileName,
+        size: attachment.size,
+        mimeType: attachment.mimeType,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error uploading file:", error);
+    return NextResponse.json(
+      { error: "Failed to upload file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { format } from "date-fns";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { getStorage } from "@/lib/storage";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("audit:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "audit.read")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const archive = await db.auditArchive.findUnique({
+      where: { id: params.id },
+    });
+    if (!archive) {
+      return NextResponse.json(
+        { error: "Archive not found" },
+        { status: 404 }
+      );
+    }
+
+    const data = await getStorage().get(archive.storageKey);
+    const fileName = `audit-archive-${format(
+      archive.firstChangedAt,
+      "yyyy-MM-dd"
+    )}-to-${format(archive.lastChangedAt, "yyyy-MM-dd")}.json`;
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Length": String(data.length),
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading audit archive:", error);
+    return NextResponse.json(
+      { error: "Failed to download audit archive" },
+      { status: 500 }
+    );
+  }
+}
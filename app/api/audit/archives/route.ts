@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+
+export async function GET() {
+  try {
+    const session = await getSession("audit:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "audit.read")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const archives = await db.auditArchive.findMany({
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json(archives);
+  } catch (error) {
+    console.error("Error fetching audit archives:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch audit archives" },
+      { status: 500 }
+    );
+  }
+}
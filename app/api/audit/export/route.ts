@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { format } from "date-fns";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit";
+import {
+  auditExportFormats,
+  auditFiltersSchema,
+  auditLogWhere,
+  createExportWriter,
+  getAuditSigningKey,
+  streamAuditExport,
+} from "@/lib/audit-export";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = auditFiltersSchema.extend({
+  format: z.enum(auditExportFormats),
+});
+
+const contentTypes = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+  bundle: "application/json",
+};
+
+const extensions = { csv: "csv", ndjson: "ndjson", bundle: "json" };
+
+/**
+ * Downloads the entries matching the audit log filters, oldest first, as
+ * CSV, newline-delimited JSON, or a signed bundle that can be checked
+ * offline. The download is streamed and recorded in the audit log.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession("audit:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "audit.read")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const result = querySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { format: exportFormat, ...filters } = result.data;
+    if (exportFormat === "bundle" && !getAuditSigningKey()) {
+      return NextResponse.json(
+        { error: "Audit bundle signing is not configured" },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.user.findUniqueOrThrow({
+      where: { id: session.user.id },
+      select: { id: true, name: true, email: true },
+    });
+
+    await db.$transaction((tx) =>
+      createAuditLog(tx, {
+        action: "AUDIT_LOG_EXPORTED",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        newValue: { format: exportFormat, filters },
+      })
+    );
+
+    const writer = createExportWriter(exportFormat, {
+      createdBy: user,
+      reason: "export",
+      filters,
+    });
+    const fileName = `audit-log-${format(new Date(), "yyyy-MM-dd")}.${
+      extensions[exportFormat]
+    }`;
+
+    return new NextResponse(
+      streamAuditExport(auditLogWhere(filters), writer),
+      {
+        headers: {
+          "Content-Type": contentTypes[exportFormat],
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+          "Cache-Control": "no-store",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error exporting audit log:", error);
+    return NextResponse.json(
+      { error: "Failed to export audit log" },
+      { status: 500 }
+    );
+  }
+}
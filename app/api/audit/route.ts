@@ -1,39 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import { auditFiltersSchema, auditLogWhere } from "@/lib/audit-export";
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getSession("audit:read");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Only admins can view full audit log
-    if (session.user.role !== "ADMIN") {
+    if (!can(session.user, "audit.read")) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
     const searchParams = request.nextUrl.searchParams;
-    const processId = searchParams.get("processId");
-    const userId = searchParams.get("userId");
-    const action = searchParams.get("action");
-    const startDate = searchParams.get("startDate");
-    const endDate = searchParams.get("endDate");
+    const result = auditFiltersSchema.safeParse({
+      processId: searchParams.get("processId") || undefined,
+      userId: searchParams.get("userId") || undefined,
+      action: searchParams.get("action") || undefined,
+      startDate: searchParams.get("startDate") || undefined,
+      endDate: searchParams.get("endDate") || undefined,
+    });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "50");
     const skip = (page - 1) * limit;
-
-    // Build where clause
-    const where: Record<string, unknown> = {};
-    if (processId) where.processInstanceId = processId;
-    if (userId) where.changedById = userId;
-    if (action) where.action = action;
-    if (startDate || endDate) {
-      where.changedAt = {};
-      if (startDate) (where.changedAt as Record<string, Date>).gte = new Date(startDate);
-      if (endDate) (where.changedAt as Record<string, Date>).lte = new Date(endDate);
-    }
+    const where = auditLogWhere(result.data);
 
     const [logs, total] = await Promise.all([
       db.auditLog.findMany({
@@ -45,6 +45,9 @@ export async function GET(request: NextRequest) {
           changedBy: {
             select: { id: true, name: true, email: true },
           },
+          apiToken: {
+            select: { id: true, name: true, prefix: true },
+          },
           processInstance: {
             select: {
               id: true,
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { getAuditSigningPublicKey } from "@/lib/audit-export";
+
+/**
+ * The public key audit bundles are signed with. Keep a copy somewhere else
+ * to check bundles against; the key inside a bundle can be replaced along
+ * with its signature.
+ */
+export async function GET() {
+  try {
+    const session = await getSession("audit:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "audit.read")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const key = getAuditSigningPublicKey();
+    if (!key) {
+      return NextResponse.json(
+        { error: "Audit bundle signing is not configured" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(key);
+  } catch (error) {
+    console.error("Error fetching audit signing key:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch audit signing key" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { verifyAuditChain } from "@/lib/audit";
+
+export async function GET() {
+  try {
+    const session = await getSession("audit:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "audit.read")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json(await verifyAuditChain());
+  } catch (error) {
+    console.error("Error verifying audit log:", error);
+    return NextResponse.json(
+      { error: "Failed to verify audit log" },
+      { status: 500 }
+    );
+  }
+}
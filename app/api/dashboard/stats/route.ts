@@ -1,17 +1,27 @@
 import { NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import { overdueStepWhere } from "@/lib/sla";
+import { processVisibilityWhere } from "@/lib/visibility";
 
 export async function GET() {
   try {
-    const session = await auth();
+    const session = await getSession("processes:read");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    // Without access to the audit log, recent activity is limited to the
+    // processes the user can see
+    const activityWhere = can(session.user, "audit.read")
+      ? {}
+      : { processInstance: await processVisibilityWhere(session.user) };
+
     const [
       activeProcesses,
       pendingApprovals,
+      overdueApprovals,
       completedProcesses,
       rejectedProcesses,
       processesByStatus,
@@ -24,7 +34,7 @@ export async function GET() {
       }),
 
       // Pending approvals count (for approvers/admins)
-      session.user.role !== "USER"
+      can(session.user, "process.view.all")
         ? db.processStepInstance.count({
             where: {
               status: "PENDING",
@@ -33,6 +43,11 @@ export async function GET() {
           })
         : Promise.resolve(0),
 
+      // Approval steps past their SLA deadline
+      db.processStepInstance.count({
+        where: overdueStepWhere(),
+      }),
+
       // Completed processes count
       db.processInstance.count({
         where: { status: "COMPLETED" },
@@ -51,6 +66,7 @@ export async function GET() {
 
       // Recent activity
       db.auditLog.findMany({
+        where: activityWhere,
         take: 10,
         orderBy: { changedAt: "desc" },
         include: {
@@ -88,6 +104,7 @@ export async function GET() {
     return NextResponse.json({
       activeProcesses,
       pendingApprovals,
+      overdueApprovals,
       completedProcesses,
       rejectedProcesses,
       myPendingProcesses,
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit";
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const delegation = await db.delegation.findUnique({
+      where: { id: params.id },
+      include: { delegate: { select: { id: true, name: true } } },
+    });
+
+    if (!delegation) {
+      return NextResponse.json(
+        { error: "Delegation not found" },
+        { status: 404 }
+      );
+    }
+
+    if (
+      delegation.delegatorId !== session.user.id &&
+      !can(session.user, "delegation.manage")
+    ) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    await db.$transaction(async (tx) => {
+      await tx.delegation.delete({ where: { id: delegation.id } });
+
+      await createAuditLog(tx, {
+        action: "DELEGATION_REMOVED",
+        changedById: session.user.id,
+        previousValue: {
+          delegationId: delegation.id,
+          delegatorId: delegation.delegatorId,
+          delegate: delegation.delegate,
+          startsAt: delegation.startsAt,
+          endsAt: delegation.endsAt,
+        },
+        notes: `Removed delegation to ${delegation.delegate.name}`,
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting delegation:", error);
+    return NextResponse.json(
+      { error: "Failed to delete delegation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { createAuditLog } from "@/lib/audit";
+
+const createDelegationSchema = z.object({
+  delegateId: z.string().min(1),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+});
+
+const userSelect = { select: { id: true, name: true, email: true } };
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Past delegations are no longer relevant to anyone
+    const current = { endsAt: { gte: new Date() } };
+
+    const [given, received] = await Promise.all([
+      db.delegation.findMany({
+        where: { delegatorId: session.user.id, ...current },
+        include: { delegate: userSelect },
+        orderBy: { startsAt: "asc" },
+      }),
+      db.delegation.findMany({
+        where: { delegateId: session.user.id, ...current },
+        include: { delegator: userSelect },
+        orderBy: { startsAt: "asc" },
+      }),
+    ]);
+
+    return NextResponse.json({ given, received });
+  } catch (error) {
+    console.error("Error fetching delegations:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch delegations" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = createDelegationSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { delegateId, startsAt, endsAt } = result.data;
+
+    if (delegateId === session.user.id) {
+      return NextResponse.json(
+        { error: "You cannot delegate to yourself" },
+        { status: 400 }
+      );
+    }
+
+    if (endsAt <= startsAt) {
+      return NextResponse.json(
+        { error: "The end date must be after the start date" },
+        { status: 400 }
+      );
+    }
+
+    const delegate = await db.user.findUnique({
+      where: { id: delegateId },
+      select: { id: true, name: true },
+    });
+
+    if (!delegate) {
+      return NextResponse.json(
+        { error: "Delegate not found" },
+        { status: 400 }
+      );
+    }
+
+    // Only one delegate can cover a given moment
+    const overlapping = await db.delegation.findFirst({
+      where: {
+        delegatorId: session.user.id,
+        startsAt: { lt: endsAt },
+        endsAt: { gt: startsAt },
+      },
+    });
+
+    if (overlapping) {
+      return NextResponse.json(
+        { error: "You already have a delegate for part of this period" },
+        { status: 400 }
+      );
+    }
+
+    const delegation = await db.$transaction(async (tx) => {
+      const delegation = await tx.delegation.create({
+        data: {
+          delegatorId: session.user.id,
+          delegateId,
+          startsAt,
+          endsAt,
+        },
+        include: { delegate: userSelect },
+      });
+
+      await createAuditLog(tx, {
+        action: "DELEGATION_CREATED",
+        changedById: session.user.id,
+        newValue: {
+          delegationId: delegation.id,
+          delegate,
+          startsAt,
+          endsAt,
+        },
+        notes: `Delegated approvals to ${delegate.name}`,
+      });
+
+      return delegation;
+    });
+
+    return NextResponse.json(delegation, { status: 201 });
+  } catch (error) {
+    console.error("Error creating delegation:", error);
+    return NextResponse.json(
+      { error: "Failed to create delegation" },
+      { status: 500 }
+    );
+  }
+}
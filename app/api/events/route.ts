@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { canViewProcess } from "@/lib/visibility";
+import { subscribeRealtime, type RealtimeEvent } from "@/lib/realtime";
+
+export const dynamic = "force-dynamic";
+
+// Comment lines keep proxies from closing an idle connection
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+/**
+ * Server-sent events for the signed-in user: `notifications` when their
+ * notifications or unread count change, and `process` when one of the
+ * processes named by the `processId` query parameters changes. Clients
+ * fetch the details through the usual routes.
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth();
+  if (!session?.user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const viewerId = session.user.id;
+  const processIds = new Set(request.nextUrl.searchParams.getAll("processId"));
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      function write(chunk: string) {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client went away between the check and the write
+          cleanup();
+        }
+      }
+
+      function send(event: string, data: unknown) {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+
+      // Only processes the user can see right now are passed on; access can
+      // change while the connection is open, and so can the user's role. A
+      // deactivated user's stream is closed.
+      async function handleProcessEvent(processInstanceId: string) {
+        const viewer = await db.user.findUnique({
+          where: { id: viewerId },
+          select: { id: true, role: true, isActive: true },
+        });
+        if (!viewer?.isActive) {
+          cleanup();
+          return;
+        }
+
+        const process = await db.processInstance.findUnique({
+          where: { id: processInstanceId },
+          include: {
+            steps: { include: { workflowStep: true, decisions: true } },
+          },
+        });
+        if (!process || !(await canViewProcess(viewer, process))) return;
+
+        send("process", {
+          processInstanceId,
+          status: process.status,
+          updatedAt: process.updatedAt,
+        });
+      }
+
+      function handleEvent(event: RealtimeEvent) {
+        if (event.type === "notifications" && event.userId === viewerId) {
+          send("notifications", {
+            unreadCount: event.unreadCount,
+            notification: event.notification ?? null,
+          });
+        } else if (
+          event.type === "process" &&
+          processIds.has(event.processInstanceId)
+        ) {
+          handleProcessEvent(event.processInstanceId).catch((error) =>
+            console.error("Failed to push process update:", error)
+          );
+        }
+      }
+
+      const unsubscribe = subscribeRealtime(handleEvent);
+      const heartbeat = setInterval(
+        () => write(": ping\n\n"),
+        HEARTBEAT_INTERVAL
+      );
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener("abort", () => cleanup());
+
+      // Tells the client to retry after 5 seconds if the connection drops
+      write("retry: 5000\n\n");
+      send("ready", { processIds: Array.from(processIds) });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Stops nginx from buffering the stream
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit";
+import { groupInclude, groupSchema } from "@/lib/groups";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("users:write");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "group.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = params;
+    const body = await request.json();
+    const result = groupSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const group = await db.group.findUnique({
+      where: { id },
+      include: { members: { select: { userId: true } } },
+    });
+
+    if (!group) {
+      return NextResponse.json({ error: "Group not found" }, { status: 404 });
+    }
+
+    const { name, description, managerId, memberIds } = result.data;
+
+    if (name !== group.name) {
+      const existing = await db.group.findUnique({ where: { name } });
+      if (existing) {
+        return NextResponse.json(
+          { error: "A group with this name already exists" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const userIds = Array.from(new Set(memberIds.concat(managerId ?? [])));
+    const userCount = await db.user.count({ where: { id: { in: userIds } } });
+    if (userCount !== userIds.length) {
+      return NextResponse.json(
+        { error: "One or more users were not found" },
+        { status: 400 }
+      );
+    }
+
+    // Membership is replaced with the submitted list
+    const newMemberIds = Array.from(new Set(memberIds));
+    const updatedGroup = await db.$transaction(async (tx) => {
+      await tx.groupMember.deleteMany({
+        where: { groupId: id, userId: { notIn: newMemberIds } },
+      });
+      await tx.groupMember.createMany({
+        data: newMemberIds.map((userId) => ({ groupId: id, userId })),
+        skipDuplicates: true,
+      });
+      const updatedGroup = await tx.group.update({
+        where: { id },
+        data: { name, description, managerId: managerId ?? null },
+        include: groupInclude,
+      });
+
+      await createAuditLog(tx, {
+        action: "GROUP_UPDATED",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        previousValue: {
+          groupId: id,
+          name: group.name,
+          description: group.description,
+          managerId: group.managerId,
+          memberIds: group.members.map((m) => m.userId),
+        },
+        newValue: {
+          groupId: id,
+          name,
+          description: description ?? null,
+          managerId: managerId ?? null,
+          memberIds: newMemberIds,
+        },
+        notes: `Updated group ${name}`,
+      });
+
+      return updatedGroup;
+    });
+
+    return NextResponse.json(updatedGroup);
+  } catch (error) {
+    console.error("Error updating group:", error);
+    return NextResponse.json(
+      { error: "Failed to update group" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("users:write");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "group.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = params;
+
+    const group = await db.group.findUnique({ where: { id } });
+
+    if (!group) {
+      return NextResponse.json({ error: "Group not found" }, { status: 404 });
+    }
+
+    // Steps assigned to a deleted group would silently fall back to the
+    // default approvers
+    const assignedSteps = await db.workflowStep.count({
+      where: {
+        config: { path: ["assignee", "groupId"], equals: id },
+        workflowVersion: { status: { in: ["DRAFT", "PUBLISHED"] } },
+      },
+    });
+
+    if (assignedSteps > 0) {
+      return NextResponse.json(
+        { error: "Group is assigned to workflow steps and cannot be deleted" },
+        { status: 400 }
+      );
+    }
+
+    await db.$transaction(async (tx) => {
+      await tx.group.delete({ where: { id } });
+
+      await createAuditLog(tx, {
+        action: "GROUP_DELETED",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        previousValue: { groupId: id, name: group.name },
+        notes: `Deleted group ${group.name}`,
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting group:", error);
+    return NextResponse.json(
+      { error: "Failed to delete group" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit";
+import { groupInclude, groupSchema } from "@/lib/groups";
+
+export async function GET() {
+  try {
+    const session = await getSession("users:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const groups = await db.group.findMany({
+      include: groupInclude,
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ groups });
+  } catch (error) {
+    console.error("Error fetching groups:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch groups" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession("users:write");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "group.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = groupSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { name, description, managerId, memberIds } = result.data;
+
+    const existing = await db.group.findUnique({ where: { name } });
+    if (existing) {
+      return NextResponse.json(
+        { error: "A group with this name already exists" },
+        { status: 400 }
+      );
+    }
+
+    const userIds = Array.from(new Set(memberIds.concat(managerId ?? [])));
+    const userCount = await db.user.count({ where: { id: { in: userIds } } });
+    if (userCount !== userIds.length) {
+      return NextResponse.json(
+        { error: "One or more users were not found" },
+        { status: 400 }
+      );
+    }
+
+    const group = await db.$transaction(async (tx) => {
+      const group = await tx.group.create({
+        data: {
+          name,
+          description,
+          managerId,
+          members: {
+            create: Array.from(new Set(memberIds)).map((userId) => ({
+              userId,
+            })),
+          },
+        },
+        include: groupInclude,
+      });
+
+      await createAuditLog(tx, {
+        action: "GROUP_CREATED",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        newValue: {
+          groupId: group.id,
+          name,
+          description,
+          managerId: managerId ?? null,
+          memberIds: group.members.map((m) => m.userId),
+        },
+        notes: `Created group ${name}`,
+      });
+
+      return group;
+    });
+
+    return NextResponse.json(group, { status: 201 });
+  } catch (error) {
+    console.error("Error creating group:", error);
+    return NextResponse.json(
+      { error: "Failed to create group" },
+      { status: 500 }
+    );
+  }
+}
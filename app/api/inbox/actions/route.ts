@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import {
+  performStepAction,
+  StepActionError,
+  type StepAction,
+} from "@/lib/step-actions";
+
+const MAX_STEPS = 100;
+
+const bulkActionSchema = z.object({
+  action: z.enum(["approve", "reject"]),
+  stepIds: z.array(z.string().min(1)).min(1).max(MAX_STEPS),
+  // Recorded with every decision
+  comments: z.string().optional(),
+});
+
+interface BulkActionResult {
+  stepId: string;
+  processId: string | null;
+  success: boolean;
+  // How the step was decided, or null while its quorum is still open
+  outcome?: StepAction | null;
+  error?: string;
+}
+
+/**
+ * Approves or rejects several steps with one comment. Each step goes through
+ * the same checks as a single decision and is reported on separately, so one
+ * step that can't be decided doesn't stop the rest.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession("approvals:write");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = bulkActionSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { action, comments } = result.data;
+    const stepIds = Array.from(new Set(result.data.stepIds));
+
+    const steps = await db.processStepInstance.findMany({
+      where: { id: { in: stepIds } },
+      select: { id: true, processInstanceId: true },
+    });
+    const processIds = new Map(steps.map((s) => [s.id, s.processInstanceId]));
+
+    // One at a time, so decisions on steps of the same process don't race
+    const results: BulkActionResult[] = [];
+    for (const stepId of stepIds) {
+      const processId = processIds.get(stepId) ?? null;
+      if (!processId) {
+        results.push({
+          stepId,
+          processId,
+          success: false,
+          error: "Step not found",
+        });
+        continue;
+      }
+
+      try {
+        const outcome = await performStepAction({
+          processId,
+          stepId,
+          userId: session.user.id,
+          action,
+          comments,
+          apiTokenId: session.apiTokenId,
+        });
+        results.push({ stepId, processId, success: true, outcome });
+      } catch (error) {
+        if (!(error instanceof StepActionError)) {
+          console.error(`Error processing action on step ${stepId}:`, error);
+        }
+        results.push({
+          stepId,
+          processId,
+          success: false,
+          error:
+            error instanceof StepActionError
+              ? error.message
+              : "Failed to process action",
+        });
+      }
+    }
+
+    const succeeded = results.filter((r) => r.success).length;
+    return NextResponse.json({
+      results,
+      succeeded,
+      failed: results.length - succeeded,
+    });
+  } catch (error) {
+    console.error("Error processing bulk action:", error);
+    return NextResponse.json(
+      { error: "Failed to process bulk action" },
+      { status: 500 }
+    );
+  }
+}
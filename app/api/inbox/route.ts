@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { z } from "zod";
+import { getInboxSteps, inboxSorts } from "@/lib/inbox";
+
+const querySchema = z.object({
+  search: z.string().trim().optional(),
+  sort: z.enum(inboxSorts).optional(),
+  order: z.enum(["asc", "desc"]).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession("processes:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const result = querySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { search, sort, order, page, limit } = result.data;
+    const steps = await getInboxSteps(session.user.id, {
+      search: search || undefined,
+      sort,
+      order,
+    });
+
+    return NextResponse.json({
+      steps: steps.slice((page - 1) * limit, page * limit),
+      pagination: {
+        page,
+        limit,
+        total: steps.length,
+        totalPages: Math.ceil(steps.length / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching approval inbox:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch approval inbox" },
+      { status: 500 }
+    );
+  }
+}
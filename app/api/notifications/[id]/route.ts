@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { z } from "zod";
+import { publishNotifications } from "@/lib/realtime";
 
 const updateSchema = z.object({
   isRead: z.boolean(),
@@ -48,6 +49,9 @@ export async function PATCH(
       data: { isRead: result.data.isRead },
     });
 
+    // Keeps the unread count in step across the user's tabs
+    await publishNotifications(session.user.id);
+
     return NextResponse.json(updated);
   } catch (error) {
     console.error("Error updating notification:", error);
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { publishNotifications } from "@/lib/realtime";
 
 export async function POST() {
   try {
@@ -17,6 +18,8 @@ export async function POST() {
       data: { isRead: true },
     });
 
+    await publishNotifications(session.user.id);
+
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error("Error marking notifications as read:", error);
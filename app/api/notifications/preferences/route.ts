@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import type { NotificationType } from "@prisma/client";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import {
+  getChannels,
+  getDeliveryModes,
+  notificationTypes,
+} from "@/lib/channels";
+
+const updatePreferenceSchema = z.object({
+  channel: z.string().min(1),
+  type: z.enum(Object.keys(notificationTypes) as [NotificationType]),
+  mode: z.enum(["OFF", "IMMEDIATE", "DAILY_DIGEST"]),
+});
+
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const channels = await getDeliveryModes(session.user.id);
+
+    return NextResponse.json({ channels, types: notificationTypes });
+  } catch (error) {
+    console.error("Error fetching notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch notification preferences" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = updatePreferenceSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { channel, type, mode } = result.data;
+    if (!getChannels()[channel]) {
+      return NextResponse.json(
+        { error: "Unknown notification channel" },
+        { status: 400 }
+      );
+    }
+
+    const userId = session.user.id;
+    await db.notificationPreference.upsert({
+      where: { userId_channel_type: { userId, channel, type } },
+      create: { userId, channel, type, mode },
+      update: { mode },
+    });
+
+    const channels = await getDeliveryModes(userId);
+
+    return NextResponse.json({ channels, types: notificationTypes });
+  } catch (error) {
+    console.error("Error updating notification preferences:", error);
+    return NextResponse.json(
+      { error: "Failed to update notification preferences" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
+import { getNotificationActionLinks } from "@/lib/action-links";
 
 export async function GET(request: NextRequest) {
   try {
@@ -33,6 +34,12 @@ export async function GET(request: NextRequest) {
               workflowTemplate: { select: { name: true } },
             },
           },
+          stepInstance: {
+            select: { id: true, status: true, activatedAt: true },
+          },
+          reportRun: {
+            select: { id: true, savedReport: { select: { name: true } } },
+          },
         },
       }),
       db.notification.count({ where }),
@@ -45,7 +52,10 @@ export async function GET(request: NextRequest) {
     ]);
 
     return NextResponse.json({
-      notifications,
+      notifications: notifications.map(({ stepInstance, ...notification }) => ({
+        ...notification,
+        actions: getNotificationActionLinks({ ...notification, stepInstance }),
+      })),
       unreadCount,
       pagination: {
         page,
@@ -1,49 +1,144 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
 import { db } from "@/lib/db";
+import { z } from "zod";
+import { Prisma } from "@prisma/client";
+import { createAuditLog } from "@/lib/audit";
+import { notifyApprovers } from "@/lib/notifications";
+import { getActionableStepIds } from "@/lib/assignees";
+import { resolveFileFields } from "@/lib/attachments";
+import { canViewProcess } from "@/lib/visibility";
+import { InvalidTransitionError, resubmitProcess } from "@/lib/engine";
+import { emitProcessEndEvent, emitWebhookEvent } from "@/lib/webhooks";
+import { publishProcessUpdate } from "@/lib/realtime";
+import { versionInclude } from "@/lib/workflow-versions";
+import {
+  compileFormSchema,
+  diffFormData,
+  type FormField,
+  type FormValues,
+} from "@/lib/form-validation";
+
+const resubmitSchema = z.object({
+  formData: z.record(z.string(), z.any()),
+  comments: z.string().optional(),
+});
+
+const processInclude = {
+  workflowTemplate: {
+    select: { id: true, name: true },
+  },
+  workflowVersion: {
+    include: versionInclude,
+  },
+  createdBy: {
+    select: { id: true, name: true, email: true },
+  },
+  steps: {
+    include: {
+      workflowStep: true,
+      actedBy: {
+        select: { id: true, name: true, email: true },
+      },
+      decisions: {
+        include: {
+          approver: {
+            select: { id: true, name: true },
+          },
+          onBehalfOf: {
+            select: { id: true, name: true },
+          },
+        },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+    orderBy: {
+      workflowStep: { stepOrder: "asc" },
+    },
+  },
+  auditLogs: {
+    include: {
+      changedBy: {
+        select: { id: true, name: true },
+      },
+    },
+    orderBy: { changedAt: "desc" },
+  },
+} satisfies Prisma.ProcessInstanceInclude;
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await auth();
+    const session = await getSession("processes:read");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
     const { id } = params;
 
+    const process = await db.processInstance.findUnique({
+      where: { id },
+      include: processInclude,
+    });
+
+    if (!process) {
+      return NextResponse.json(
+        { error: "Process not found" },
+        { status: 404 }
+      );
+    }
+
+    const actionableStepIds = await getActionableStepIds(
+      session.user.id,
+      process
+    );
+
+    // Check access - see canViewProcess for who can open a process
+    if (!(await canViewProcess(session.user, process))) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json({ ...process, actionableStepIds });
+  } catch (error) {
+    console.error("Error fetching process:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch process" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("processes:write");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = params;
+    const body = await request.json();
+    const result = resubmitSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
     const process = await db.processInstance.findUnique({
       where: { id },
       include: {
-        workflowTemplate: {
-          include: {
-            steps: { orderBy: { stepOrder: "asc" } },
-            formSchema: true,
-          },
-        },
-        createdBy: {
-          select: { id: true, name: true, email: true },
-        },
+        workflowTemplate: { select: { id: true, name: true } },
+        workflowVersion: { include: versionInclude },
         steps: {
-          include: {
-            workflowStep: true,
-            actedBy: {
-              select: { id: true, name: true, email: true },
-            },
-          },
-          orderBy: {
-            workflowStep: { stepOrder: "asc" },
-          },
-        },
-        auditLogs: {
-          include: {
-            changedBy: {
-              select: { id: true, name: true },
-            },
-          },
-          orderBy: { changedAt: "desc" },
+          include: { workflowStep: true },
+          orderBy: { actedAt: "desc" },
         },
       },
     });
@@ -55,19 +150,154 @@ export async function GET(
       );
     }
 
-    // Check access
-    if (
-      session.user.role === "USER" &&
-      process.createdById !== session.user.id
-    ) {
+    // Only the creator can resubmit their own request
+    if (process.createdById !== session.user.id) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    return NextResponse.json(process);
+    if (process.status !== "CHANGES_REQUESTED") {
+      return NextResponse.json(
+        { error: "Process is not awaiting changes" },
+        { status: 400 }
+      );
+    }
+
+    // The approval step that requested changes is the most recent rejection
+    const requestingStep = process.steps.find(
+      (s) => s.status === "REJECTED" && s.workflowStep.stepType === "APPROVAL"
+    );
+
+    if (!requestingStep) {
+      return NextResponse.json(
+        { error: "No approval step requested changes" },
+        { status: 400 }
+      );
+    }
+
+    const fields = (process.workflowVersion.formSchema?.fields ??
+      []) as unknown as FormField[];
+    const formResult = compileFormSchema(fields).safeParse(
+      result.data.formData
+    );
+
+    if (!formResult.success) {
+      return NextResponse.json(
+        { error: "Invalid form data", details: formResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Files may be kept from the earlier submission or uploaded again
+    const files = await resolveFileFields({
+      fields,
+      formData: formResult.data,
+      workflowVersionId: process.workflowVersionId,
+      userId: session.user.id,
+      processInstanceId: id,
+    });
+
+    if (Object.keys(files.fieldErrors).length > 0) {
+      return NextResponse.json(
+        {
+          error: "Invalid form data",
+          details: { formErrors: [], fieldErrors: files.fieldErrors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { formData } = files;
+    const { comments } = result.data;
+    const { before, after } = diffFormData(
+      process.formData as FormValues,
+      formData
+    );
+
+    // Send the request back to the approval step that asked for changes,
+    // where voting starts over. The process is locked and re-checked so two
+    // resubmits can't both reopen the step.
+    const resubmitted = await db.$transaction(async (tx) => {
+      await tx.$executeRaw`
+        SELECT 1 FROM "ProcessInstance" WHERE id = ${id} FOR UPDATE
+      `;
+      const current = await tx.processInstance.findUniqueOrThrow({
+        where: { id },
+        select: { status: true },
+      });
+      if (current.status !== "CHANGES_REQUESTED") {
+        return null;
+      }
+
+      await tx.processInstance.update({
+        where: { id },
+        data: { formData: formData as Prisma.InputJsonValue },
+      });
+      await tx.attachment.updateMany({
+        where: { id: { in: files.attachmentIds } },
+        data: { processInstanceId: id },
+      });
+
+      const advance = await resubmitProcess(tx, id, requestingStep.id);
+
+      await createAuditLog(tx, {
+        processInstanceId: id,
+        action: "PROCESS_RESUBMITTED",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        previousValue: before,
+        newValue: after,
+        notes: `Resubmitted for ${requestingStep.workflowStep.name}${
+          comments ? ` - ${comments}` : ""
+        }`,
+      });
+
+      return advance;
+    });
+
+    if (!resubmitted) {
+      return NextResponse.json(
+        { error: "Process is not awaiting changes" },
+        { status: 409 }
+      );
+    }
+
+    const { status, activeStep } = resubmitted;
+    publishProcessUpdate(id);
+
+    const eventContext = { processInstanceId: id, actorId: session.user.id };
+    await emitWebhookEvent("process.resubmitted", eventContext);
+    await emitProcessEndEvent(status, eventContext);
+
+    // The updated data may no longer match the step's condition, in which
+    // case the process has moved past it
+    if (activeStep) {
+      await notifyApprovers(
+        id,
+        process.workflowTemplate.name,
+        activeStep.workflowStep.config,
+        process.createdById
+      );
+    }
+
+    const updatedProcess = await db.processInstance.findUniqueOrThrow({
+      where: { id },
+      include: processInclude,
+    });
+
+    return NextResponse.json({
+      ...updatedProcess,
+      actionableStepIds: await getActionableStepIds(
+        session.user.id,
+        updatedProcess
+      ),
+    });
   } catch (error) {
-    console.error("Error fetching process:", error);
+    if (error instanceof InvalidTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+    console.error("Error resubmitting process:", error);
     return NextResponse.json(
-      { error: "Failed to fetch process" },
+      { error: "Failed to resubmit process" },
       { status: 500 }
     );
   }
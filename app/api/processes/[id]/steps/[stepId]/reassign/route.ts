@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { createAuditLog } from "@/lib/audit";
+import { notifyApprovers } from "@/lib/notifications";
+import { stepAssigneeSchema } from "@/lib/step-config";
+import { getActiveStep, supersedeDecisions } from "@/lib/engine";
+import { publishProcessUpdate } from "@/lib/realtime";
+
+const reassignSchema = z.object({
+  assignee: stepAssigneeSchema,
+  comments: z.string().optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; stepId: string } }
+) {
+  try {
+    const session = await getSession("approvals:write");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "process.reassign")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id: processId, stepId } = params;
+    const body = await request.json();
+    const result = reassignSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { assignee, comments } = result.data;
+
+    const stepInstance = await db.processStepInstance.findUnique({
+      where: { id: stepId },
+      include: {
+        workflowStep: true,
+        processInstance: {
+          include: {
+            workflowTemplate: { select: { name: true } },
+            steps: {
+              include: { workflowStep: true },
+              orderBy: { workflowStep: { stepOrder: "asc" } },
+            },
+          },
+        },
+      },
+    });
+
+    if (!stepInstance || stepInstance.processInstanceId !== processId) {
+      return NextResponse.json({ error: "Step not found" }, { status: 404 });
+    }
+
+    const process = stepInstance.processInstance;
+
+    // Only the approval step the process is waiting on can be reassigned
+    if (
+      stepInstance.workflowStep.stepType !== "APPROVAL" ||
+      process.status !== "IN_PROGRESS" ||
+      getActiveStep(process.steps)?.id !== stepId
+    ) {
+      return NextResponse.json(
+        { error: "Step is not awaiting action" },
+        { status: 400 }
+      );
+    }
+
+    if (assignee.type === "users") {
+      const count = await db.user.count({
+        where: { id: { in: assignee.userIds } },
+      });
+      if (count !== new Set(assignee.userIds).size) {
+        return NextResponse.json(
+          { error: "One or more users were not found" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Votes cast so far were made by the previous assignees, so the new
+    // assignees decide the step from scratch. The step is locked like it is
+    // for a vote, so a vote cast meanwhile is either superseded here or
+    // refused, and the step is checked again in case it was decided.
+    const reassigned = await db.$transaction(async (tx) => {
+      await tx.$executeRaw`
+        SELECT 1 FROM "ProcessStepInstance" WHERE id = ${stepId} FOR UPDATE
+      `;
+      const current = await tx.processStepInstance.findUniqueOrThrow({
+        where: { id: stepId },
+        select: { status: true },
+      });
+      if (current.status !== "PENDING") return false;
+
+      await supersedeDecisions(tx, stepId);
+      await tx.processStepInstance.update({
+        where: { id: stepId },
+        data: { assignee },
+      });
+
+      await createAuditLog(tx, {
+        processInstanceId: processId,
+        action: "STEP_REASSIGNED",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        previousValue: { assignee: stepInstance.assignee },
+        newValue: { stepName: stepInstance.workflowStep.name, assignee },
+        notes: `${stepInstance.workflowStep.name}: reassigned${comments ? ` - ${comments}` : ""}`,
+      });
+      return true;
+    });
+
+    if (!reassigned) {
+      return NextResponse.json(
+        { error: "Step is not awaiting action" },
+        { status: 400 }
+      );
+    }
+
+    publishProcessUpdate(processId);
+
+    await notifyApprovers(
+      processId,
+      process.workflowTemplate.name,
+      stepInstance.workflowStep.config,
+      process.createdById,
+      assignee
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error reassigning step:", error);
+    return NextResponse.json(
+      { error: "Failed to reassign step" },
+      { status: 500 }
+    );
+  }
+}
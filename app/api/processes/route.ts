@@ -1,10 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
 import { db } from "@/lib/db";
 import { z } from "zod";
 import { Prisma } from "@prisma/client";
 import { createAuditLog } from "@/lib/audit";
 import { createNotification, notifyApprovers } from "@/lib/notifications";
+import { versionInclude } from "@/lib/workflow-versions";
+import { compileFormSchema, type FormField } from "@/lib/form-validation";
+import { advanceProcess } from "@/lib/engine";
+import { resolveFileFields } from "@/lib/attachments";
+import { processVisibilityWhere } from "@/lib/visibility";
+import { emitProcessEndEvent, emitWebhookEvent } from "@/lib/webhooks";
 
 const createProcessSchema = z.object({
   workflowTemplateId: z.string().min(1),
@@ -13,7 +19,7 @@ const createProcessSchema = z.object({
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getSession("processes:read");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -32,10 +38,8 @@ export async function GET(request: NextRequest) {
     if (workflowId) where.workflowTemplateId = workflowId;
     if (createdById) where.createdById = createdById;
 
-    // Non-admins can only see their own processes or processes they need to act on
-    if (session.user.role === "USER") {
-      where.createdById = session.user.id;
-    }
+    // Users only see their own requests and those of the people they manage
+    where.AND = [await processVisibilityWhere(session.user)];
 
     const [processes, total] = await Promise.all([
       db.processInstance.findMany({
@@ -86,7 +90,7 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getSession("processes:write");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -101,14 +105,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { workflowTemplateId, formData } = result.data;
+    const { workflowTemplateId } = result.data;
 
-    // Get workflow with steps
+    // Get workflow with the version new processes start on
     const workflow = await db.workflowTemplate.findUnique({
       where: { id: workflowTemplateId },
       include: {
-        steps: { orderBy: { stepOrder: "asc" } },
-        formSchema: true,
+        versions: {
+          where: { status: "PUBLISHED" },
+          include: versionInclude,
+        },
       },
     });
 
@@ -126,51 +132,99 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (workflow.steps.length === 0) {
+    const [version] = workflow.versions;
+    if (!version || version.steps.length === 0) {
       return NextResponse.json(
         { error: "Workflow has no steps defined" },
         { status: 400 }
       );
     }
 
-    // Create process instance with step instances
+    // Validate the submitted data against the version's form schema
+    const fields = (version.formSchema?.fields ?? []) as unknown as FormField[];
+    const formResult = compileFormSchema(fields).safeParse(result.data.formData);
+
+    if (!formResult.success) {
+      return NextResponse.json(
+        { error: "Invalid form data", details: formResult.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Uploaded files must belong to this user and form
+    const files = await resolveFileFields({
+      fields,
+      formData: formResult.data,
+      workflowVersionId: version.id,
+      userId: session.user.id,
+    });
+
+    if (Object.keys(files.fieldErrors).length > 0) {
+      return NextResponse.json(
+        {
+          error: "Invalid form data",
+          details: { formErrors: [], fieldErrors: files.fieldErrors },
+        },
+        { status: 400 }
+      );
+    }
+
+    const { formData } = files;
+
+    // Create process instance with step instances, then let the engine
+    // complete the form step and move to the first step that needs action
     const process = await db.$transaction(async (tx) => {
       const processInstance = await tx.processInstance.create({
         data: {
           workflowTemplateId,
+          workflowVersionId: version.id,
           createdById: session.user.id,
           formData: formData as Prisma.InputJsonValue,
-          status: "IN_PROGRESS",
+          status: "PENDING",
         },
       });
 
+      await tx.attachment.updateMany({
+        where: { id: { in: files.attachmentIds } },
+        data: { processInstanceId: processInstance.id },
+      });
+
       // Create step instances for each workflow step
-      const stepInstances = await Promise.all(
-        workflow.steps.map((step, index) =>
-          tx.processStepInstance.create({
-            data: {
-              processInstanceId: processInstance.id,
-              workflowStepId: step.id,
-              // First step (usually form) is auto-completed
-              status: index === 0 && step.stepType === "FORM" ? "COMPLETED" : "PENDING",
-              actedById: index === 0 && step.stepType === "FORM" ? session.user.id : null,
-              actedAt: index === 0 && step.stepType === "FORM" ? new Date() : null,
-            },
-          })
-        )
+      await tx.processStepInstance.createMany({
+        data: version.steps.map((step) => ({
+          processInstanceId: processInstance.id,
+          workflowStepId: step.id,
+        })),
+      });
+
+      const { status, activeStep } = await advanceProcess(
+        tx,
+        processInstance.id
       );
 
-      return { processInstance, stepInstances };
+      await createAuditLog(tx, {
+        processInstanceId: processInstance.id,
+        action: "PROCESS_CREATED",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        newValue: {
+          workflowName: workflow.name,
+          version: version.version,
+          formData,
+        },
+        notes: `Process started for "${workflow.name}"`,
+      });
+
+      return { processInstance, status, activeStep };
     });
 
-    // Create audit log
-    await createAuditLog({
+    const eventContext = {
       processInstanceId: process.processInstance.id,
-      action: "PROCESS_CREATED",
-      changedById: session.user.id,
-      newValue: { workflowName: workflow.name, formData },
-      notes: `Process started for "${workflow.name}"`,
-    });
+      actorId: session.user.id,
+    };
+    await emitWebhookEvent("process.created", eventContext);
+    // Processes without approval steps complete straight away
+    await emitProcessEndEvent(process.status, eventContext);
 
     // Notify creator
     await createNotification({
@@ -178,17 +232,17 @@ export async function POST(request: NextRequest) {
       processInstanceId: process.processInstance.id,
       message: `Your "${workflow.name}" request has been submitted`,
       type: "INFO",
+      event: "request_submitted",
     });
 
-    // If there's an approval step pending, notify approvers
-    const hasApprovalPending = workflow.steps.some(
-      (step, index) =>
-        step.stepType === "APPROVAL" &&
-        (index === 0 || (index === 1 && workflow.steps[0].stepType === "FORM"))
-    );
-
-    if (hasApprovalPending) {
-      await notifyApprovers(process.processInstance.id, workflow.name);
+    // If the process starts on an approval step, notify its approvers
+    if (process.activeStep?.workflowStep.stepType === "APPROVAL") {
+      await notifyApprovers(
+        process.processInstance.id,
+        workflow.name,
+        process.activeStep.workflowStep.config,
+        session.user.id
+      );
     }
 
     // Fetch complete process data
@@ -196,6 +250,7 @@ export async function POST(request: NextRequest) {
       where: { id: process.processInstance.id },
       include: {
         workflowTemplate: { select: { id: true, name: true } },
+        workflowVersion: { select: { id: true, version: true } },
         createdBy: { select: { id: true, name: true, email: true } },
         steps: {
           include: {
@@ -0,0 +1,85 @@
+import { Readable } from "stream";
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { format } from "date-fns";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import {
+  describeReportFilters,
+  reportFiltersSchema,
+  reportWhere,
+} from "@/lib/reports";
+import {
+  reportExportFiles,
+  reportExportFormats,
+  streamReportExport,
+} from "@/lib/reports/export";
+
+export const dynamic = "force-dynamic";
+
+const querySchema = reportFiltersSchema.extend({
+  format: z.enum(reportExportFormats),
+  // One column per form field, rather than the form data as JSON
+  flatten: z.enum(["true", "false"]).default("false"),
+});
+
+/**
+ * Downloads every process matching the report filters as CSV or XLSX, or a
+ * printable PDF summary. The file is streamed as it is generated.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession("reports:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (
+      !can(session.user, "report.view") ||
+      !can(session.user, "report.export")
+    ) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const result = querySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { format: exportFormat, flatten, ...filters } = result.data;
+    const stream = streamReportExport(exportFormat, {
+      where: await reportWhere(session.user, filters),
+      flatten: flatten === "true",
+      title: "Process Report",
+      filterLines: await describeReportFilters(filters),
+    });
+
+    const { contentType, extension } = reportExportFiles[exportFormat];
+    const fileName = `process-report-${format(
+      new Date(),
+      "yyyy-MM-dd"
+    )}.${extension}`;
+
+    return new NextResponse(
+      Readable.toWeb(stream) as ReadableStream<Uint8Array>,
+      {
+        headers: {
+          "Content-Type": contentType,
+          "Content-Disposition": `attachment; filename="${fileName}"`,
+          "Cache-Control": "no-store",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error exporting report:", error);
+    return NextResponse.json(
+      { error: "Failed to export report" },
+      { status: 500 }
+    );
+  }
+}
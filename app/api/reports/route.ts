@@ -1,83 +1,85 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
+import { can, rolesWith } from "@/lib/permissions";
 import { db } from "@/lib/db";
+import {
+  reportFiltersSchema,
+  reportInclude,
+  reportWhere,
+} from "@/lib/reports";
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getSession("reports:read");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    if (!can(session.user, "report.view")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     const searchParams = request.nextUrl.searchParams;
-    const workflowId = searchParams.get("workflowId");
-    const status = searchParams.get("status");
-    const startDate = searchParams.get("startDate");
-    const endDate = searchParams.get("endDate");
-    const approverId = searchParams.get("approverId");
+    const result = reportFiltersSchema.safeParse({
+      workflowId: searchParams.get("workflowId") || undefined,
+      status: searchParams.get("status") || undefined,
+      approverId: searchParams.get("approverId") || undefined,
+      sla: searchParams.get("sla") || undefined,
+      groupId: searchParams.get("groupId") || undefined,
+      managerId: searchParams.get("managerId") || undefined,
+      startDate: searchParams.get("startDate") || undefined,
+      endDate: searchParams.get("endDate") || undefined,
+    });
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
     const page = parseInt(searchParams.get("page") || "1");
     const limit = parseInt(searchParams.get("limit") || "50");
     const skip = (page - 1) * limit;
+    const where = await reportWhere(session.user, result.data);
 
-    // Build where clause
-    const where: Record<string, unknown> = {};
-    if (workflowId) where.workflowTemplateId = workflowId;
-    if (status) where.status = status;
-    if (startDate || endDate) {
-      where.createdAt = {};
-      if (startDate)
-        (where.createdAt as Record<string, Date>).gte = new Date(startDate);
-      if (endDate)
-        (where.createdAt as Record<string, Date>).lte = new Date(endDate);
-    }
-
-    // Filter by approver if specified
-    if (approverId) {
-      where.steps = {
-        some: {
-          actedById: approverId,
-        },
-      };
-    }
-
-    const [processes, total, workflows, approvers] = await Promise.all([
-      db.processInstance.findMany({
-        where,
-        orderBy: { createdAt: "desc" },
-        skip,
-        take: limit,
-        include: {
-          workflowTemplate: {
-            select: { id: true, name: true },
-          },
-          createdBy: {
-            select: { id: true, name: true, email: true },
-          },
-          steps: {
-            include: {
-              workflowStep: true,
-              actedBy: { select: { id: true, name: true } },
-            },
-            orderBy: { workflowStep: { stepOrder: "asc" } },
+    const [processes, total, workflows, approvers, groups, managers] =
+      await Promise.all([
+        db.processInstance.findMany({
+          where,
+          orderBy: { createdAt: "desc" },
+          skip,
+          take: limit,
+          include: reportInclude,
+        }),
+        db.processInstance.count({ where }),
+        db.workflowTemplate.findMany({
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        }),
+        db.user.findMany({
+          where: { role: { in: rolesWith("process.approve.default") } },
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        }),
+        db.group.findMany({
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        }),
+        db.user.findMany({
+          where: {
+            OR: [{ reports: { some: {} } }, { groupsManaged: { some: {} } }],
           },
-        },
-      }),
-      db.processInstance.count({ where }),
-      db.workflowTemplate.findMany({
-        select: { id: true, name: true },
-        orderBy: { name: "asc" },
-      }),
-      db.user.findMany({
-        where: { role: { in: ["ADMIN", "APPROVER"] } },
-        select: { id: true, name: true },
-        orderBy: { name: "asc" },
-      }),
-    ]);
+          select: { id: true, name: true },
+          orderBy: { name: "asc" },
+        }),
+      ]);
 
     return NextResponse.json({
       processes,
       workflows,
       approvers,
+      groups,
+      managers,
       pagination: {
         page,
         limit,
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { getStorage } from "@/lib/storage";
+import { reportExportFiles } from "@/lib/reports/export";
+import { savedReportVisibilityWhere } from "@/lib/reports/saved";
+
+/** Downloads the file a saved report run generated. */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("reports:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "report.view")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const run = await db.reportRun.findFirst({
+      where: {
+        id: params.id,
+        savedReport: await savedReportVisibilityWhere(session.user),
+      },
+    });
+    if (!run?.storageKey) {
+      return NextResponse.json({ error: "Report not found" }, { status: 404 });
+    }
+
+    const { storageKey } = run;
+    const data = await getStorage().get(storageKey);
+    // By the file's extension, as the report's format may have changed since
+    const file = Object.values(reportExportFiles).find((f) =>
+      storageKey.endsWith(`.${f.extension}`)
+    );
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        "Content-Type": file?.contentType ?? "application/octet-stream",
+        "Content-Length": String(data.length),
+        "Content-Disposition": `attachment; filename="${run.fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading report run:", error);
+    return NextResponse.json(
+      { error: "Failed to download report" },
+      { status: 500 }
+    );
+  }
+}
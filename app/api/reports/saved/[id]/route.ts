@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { getStorage } from "@/lib/storage";
+import { createAuditLog } from "@/lib/audit";
+import {
+  describeSavedReportFilters,
+  findSharingError,
+  findVisibleSavedReport,
+  savedReportAuditValue,
+  savedReportData,
+  savedReportInclude,
+  savedReportSchema,
+} from "@/lib/reports/saved";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("reports:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "report.view")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const savedReport = await findVisibleSavedReport(session.user, params.id);
+    if (!savedReport) {
+      return NextResponse.json(
+        { error: "Saved report not found" },
+        { status: 404 }
+      );
+    }
+
+    const [sharedGroups, recipients, filterLines] = await Promise.all([
+      db.group.findMany({
+        where: { id: { in: savedReport.sharedGroupIds } },
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+      }),
+      db.user.findMany({
+        where: { id: { in: savedReport.recipientIds } },
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+      }),
+      describeSavedReportFilters(savedReport.filters),
+    ]);
+
+    return NextResponse.json({
+      ...savedReport,
+      sharedGroups,
+      recipients,
+      filterLines,
+    });
+  } catch (error) {
+    console.error("Error fetching saved report:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch saved report" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const existing = await findVisibleSavedReport(session.user, params.id);
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Saved report not found" },
+        { status: 404 }
+      );
+    }
+
+    // Only the owner changes a report; it runs with their access
+    if (existing.ownerId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = savedReportSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const sharingError = await findSharingError(existing.ownerId, result.data);
+    if (sharingError) {
+      return NextResponse.json({ error: sharingError }, { status: 400 });
+    }
+
+    const savedReport = await db.$transaction(async (tx) => {
+      const savedReport = await tx.savedReport.update({
+        where: { id: existing.id },
+        data: savedReportData(result.data),
+        include: savedReportInclude,
+      });
+
+      await createAuditLog(tx, {
+        action: "SAVED_REPORT_UPDATED",
+        changedById: session.user.id,
+        previousValue: savedReportAuditValue(existing),
+        newValue: savedReportAuditValue(savedReport),
+        notes: `Updated saved report ${savedReport.name}`,
+      });
+
+      return savedReport;
+    });
+
+    return NextResponse.json(savedReport);
+  } catch (error) {
+    console.error("Error updating saved report:", error);
+    return NextResponse.json(
+      { error: "Failed to update saved report" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const savedReport = await findVisibleSavedReport(session.user, params.id);
+    if (!savedReport) {
+      return NextResponse.json(
+        { error: "Saved report not found" },
+        { status: 404 }
+      );
+    }
+
+    if (savedReport.ownerId !== session.user.id) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const runs = await db.reportRun.findMany({
+      where: { savedReportId: savedReport.id, storageKey: { not: null } },
+      select: { storageKey: true },
+    });
+
+    await db.$transaction(async (tx) => {
+      // Its run history is deleted with it
+      await tx.savedReport.delete({ where: { id: savedReport.id } });
+
+      await createAuditLog(tx, {
+        action: "SAVED_REPORT_DELETED",
+        changedById: session.user.id,
+        previousValue: savedReportAuditValue(savedReport),
+        notes: `Deleted saved report ${savedReport.name}`,
+      });
+    });
+
+    // The files go once the runs are gone, so none is left without its file
+    await Promise.all(
+      runs.map((run) =>
+        getStorage()
+          .delete(run.storageKey!)
+          .catch((error) =>
+            console.error(
+              `Failed to delete report file ${run.storageKey}:`,
+              error
+            )
+          )
+      )
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting saved report:", error);
+    return NextResponse.json(
+      { error: "Failed to delete saved report" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { findVisibleSavedReport, runSavedReport } from "@/lib/reports/saved";
+
+const runInclude = {
+  triggeredBy: { select: { id: true, name: true } },
+} as const;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("reports:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "report.view")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const savedReport = await findVisibleSavedReport(session.user, params.id);
+    if (!savedReport) {
+      return NextResponse.json(
+        { error: "Saved report not found" },
+        { status: 404 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const page = parseInt(searchParams.get("page") || "1");
+    const limit = parseInt(searchParams.get("limit") || "20");
+    const skip = (page - 1) * limit;
+
+    const where = { savedReportId: savedReport.id };
+    const [runs, total] = await Promise.all([
+      db.reportRun.findMany({
+        where,
+        include: runInclude,
+        orderBy: { startedAt: "desc" },
+        skip,
+        take: limit,
+      }),
+      db.reportRun.count({ where }),
+    ]);
+
+    return NextResponse.json({
+      runs,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching report runs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch report runs" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Generates the report now. The run is added to the history like scheduled
+ * runs, but isn't sent to the recipients.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("reports:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (
+      !can(session.user, "report.view") ||
+      !can(session.user, "report.export")
+    ) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const savedReport = await findVisibleSavedReport(session.user, params.id);
+    if (!savedReport) {
+      return NextResponse.json(
+        { error: "Saved report not found" },
+        { status: 404 }
+      );
+    }
+
+    const run = await runSavedReport(savedReport.id, session.user.id);
+    const result = await db.reportRun.findUniqueOrThrow({
+      where: { id: run.id },
+      include: runInclude,
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error running saved report:", error);
+    return NextResponse.json(
+      { error: "Failed to run saved report" },
+      { status: 500 }
+    );
+  }
+}
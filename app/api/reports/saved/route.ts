@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit";
+import {
+  findSharingError,
+  savedReportAuditValue,
+  savedReportData,
+  savedReportInclude,
+  savedReportSchema,
+  savedReportVisibilityWhere,
+} from "@/lib/reports/saved";
+
+export async function GET() {
+  try {
+    const session = await getSession("reports:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "report.view")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const savedReports = await db.savedReport.findMany({
+      where: await savedReportVisibilityWhere(session.user),
+      include: savedReportInclude,
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ savedReports });
+  } catch (error) {
+    console.error("Error fetching saved reports:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch saved reports" },
+      { status: 500 }
+    );
+  }
+}
+
+// Saved reports are managed from a browser session only, like webhooks
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Runs are kept as files, so saving a report needs both
+    if (
+      !can(session.user, "report.view") ||
+      !can(session.user, "report.export")
+    ) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = savedReportSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const sharingError = await findSharingError(session.user.id, result.data);
+    if (sharingError) {
+      return NextResponse.json({ error: sharingError }, { status: 400 });
+    }
+
+    const savedReport = await db.$transaction(async (tx) => {
+      const savedReport = await tx.savedReport.create({
+        data: { ...savedReportData(result.data), ownerId: session.user.id },
+        include: savedReportInclude,
+      });
+
+      await createAuditLog(tx, {
+        action: "SAVED_REPORT_CREATED",
+        changedById: session.user.id,
+        newValue: savedReportAuditValue(savedReport),
+        notes: `Saved report ${savedReport.name}`,
+      });
+
+      return savedReport;
+    });
+
+    return NextResponse.json(savedReport, { status: 201 });
+  } catch (error) {
+    console.error("Error saving report:", error);
+    return NextResponse.json(
+      { error: "Failed to save report" },
+      { status: 500 }
+    );
+  }
+}
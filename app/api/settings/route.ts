@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { createAuditLog } from "@/lib/audit";
+import { getAppSettings, saveAppSettings } from "@/lib/settings";
+import { getSsoProviders } from "@/lib/sso";
+
+const updateSettingsSchema = z.object({
+  passwordLoginEnabled: z.boolean().optional(),
+});
+
+// Settings are only managed from the browser, never with an API token
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "settings.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    return NextResponse.json({
+      settings: await getAppSettings(),
+      ssoConfigured: getSsoProviders().length > 0,
+    });
+  } catch (error) {
+    console.error("Error fetching settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch settings" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "settings.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = updateSettingsSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Without SSO nobody could sign in any more
+    if (
+      result.data.passwordLoginEnabled === false &&
+      getSsoProviders().length === 0
+    ) {
+      return NextResponse.json(
+        { error: "Set up single sign-on before turning off password sign-in" },
+        { status: 400 }
+      );
+    }
+
+    const previous = await getAppSettings();
+    const settings = await db.$transaction(async (tx) => {
+      const settings = await saveAppSettings(tx, result.data);
+
+      await createAuditLog(tx, {
+        action: "SETTINGS_UPDATED",
+        changedById: session.user.id,
+        previousValue: { ...previous },
+        newValue: { ...settings },
+        notes: settings.passwordLoginEnabled
+          ? "Settings updated: password sign-in allowed"
+          : "Settings updated: single sign-on only",
+      });
+
+      return settings;
+    });
+
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("Error updating settings:", error);
+    return NextResponse.json(
+      { error: "Failed to update settings" },
+      { status: 500 }
+    );
+  }
+}
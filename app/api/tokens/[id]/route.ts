@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit";
+
+// Revoked tokens are kept so audit entries made with them still show which
+// token was used
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const apiToken = await db.apiToken.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!apiToken || apiToken.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: "API token not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!apiToken.revokedAt) {
+      await db.$transaction(async (tx) => {
+        await tx.apiToken.update({
+          where: { id: apiToken.id },
+          data: { revokedAt: new Date() },
+        });
+
+        await createAuditLog(tx, {
+          action: "API_TOKEN_REVOKED",
+          changedById: session.user.id,
+          previousValue: { tokenId: apiToken.id, name: apiToken.name },
+          notes: `Revoked API token ${apiToken.name}`,
+        });
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error revoking API token:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke API token" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { createAuditLog } from "@/lib/audit";
+import {
+  apiTokenScopes,
+  apiTokenSelect,
+  generateApiToken,
+  type ApiTokenScope,
+} from "@/lib/api-tokens";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const createTokenSchema = z.object({
+  name: z.string().min(1).max(255),
+  scopes: z
+    .array(z.enum(Object.keys(apiTokenScopes) as [ApiTokenScope]))
+    .min(1, "Select at least one scope"),
+  // Null for a token that doesn't expire
+  expiresInDays: z.number().int().min(1).max(365).nullable(),
+});
+
+// Tokens are managed from a browser session only, so a token can't be used
+// to create more tokens
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const tokens = await db.apiToken.findMany({
+      where: { userId: session.user.id },
+      select: apiTokenSelect,
+      orderBy: { createdAt: "desc" },
+    });
+
+    return NextResponse.json({ tokens, scopes: apiTokenScopes });
+  } catch (error) {
+    console.error("Error fetching API tokens:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch API tokens" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const result = createTokenSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { name, scopes, expiresInDays } = result.data;
+    const { token, tokenHash, prefix } = generateApiToken();
+
+    const apiToken = await db.$transaction(async (tx) => {
+      const apiToken = await tx.apiToken.create({
+        data: {
+          userId: session.user.id,
+          name,
+          tokenHash,
+          prefix,
+          scopes: Array.from(new Set(scopes)),
+          expiresAt: expiresInDays
+            ? new Date(Date.now() + expiresInDays * DAY)
+            : null,
+        },
+        select: apiTokenSelect,
+      });
+
+      await createAuditLog(tx, {
+        action: "API_TOKEN_CREATED",
+        changedById: session.user.id,
+        newValue: {
+          tokenId: apiToken.id,
+          name,
+          scopes: apiToken.scopes,
+          expiresAt: apiToken.expiresAt,
+        },
+        notes: `Created API token ${name}`,
+      });
+
+      return apiToken;
+    });
+
+    // The token itself is only ever shown in this response
+    return NextResponse.json({ ...apiToken, token }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating API token:", error);
+    return NextResponse.json(
+      { error: "Failed to create API token" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { createAuditLog } from "@/lib/audit";
+import { generatePassword, hashPassword, passwordSchema } from "@/lib/users";
+
+const resetPasswordSchema = z.object({
+  // A password is generated when none is given
+  password: passwordSchema.optional(),
+});
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("users:write");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "user.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = resetPasswordSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.user.findUnique({ where: { id: params.id } });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const temporaryPassword = result.data.password ? null : generatePassword();
+
+    const passwordHash = await hashPassword(
+      result.data.password ?? temporaryPassword!
+    );
+
+    await db.$transaction(async (tx) => {
+      await tx.user.update({
+        where: { id: user.id },
+        data: { passwordHash },
+      });
+
+      await createAuditLog(tx, {
+        action: "USER_PASSWORD_RESET",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        newValue: { userId: user.id },
+        notes: `Reset the password of ${user.name}`,
+      });
+    });
+
+    return NextResponse.json({ temporaryPassword });
+  } catch (error) {
+    console.error("Error resetting password:", error);
+    return NextResponse.json(
+      { error: "Failed to reset password" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,201 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { createAuditLog } from "@/lib/audit";
+import { createsManagerCycle, userSelect } from "@/lib/users";
+
+const updateUserSchema = z.object({
+  name: z.string().min(1).max(255).optional(),
+  email: z.string().email().optional(),
+  role: z.enum(["ADMIN", "APPROVER", "USER"]).optional(),
+  managerId: z.string().min(1).optional().nullable(),
+  isActive: z.boolean().optional(),
+});
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("users:write");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "user.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = params;
+    const body = await request.json();
+    const result = updateUserSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.user.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        name: true,
+        email: true,
+        role: true,
+        managerId: true,
+        isActive: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const data = result.data;
+
+    // Admins can't lock themselves out
+    if (
+      id === session.user.id &&
+      (data.isActive === false || (data.role && data.role !== "ADMIN"))
+    ) {
+      return NextResponse.json(
+        { error: "You cannot deactivate or demote your own account" },
+        { status: 400 }
+      );
+    }
+
+    if (data.email && data.email !== user.email) {
+      const existing = await db.user.findUnique({
+        where: { email: data.email },
+      });
+      if (existing) {
+        return NextResponse.json(
+          { error: "A user with this email already exists" },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (data.managerId) {
+      const manager = await db.user.findUnique({
+        where: { id: data.managerId },
+      });
+      if (!manager) {
+        return NextResponse.json(
+          { error: "Manager not found" },
+          { status: 400 }
+        );
+      }
+      if (await createsManagerCycle(id, data.managerId)) {
+        return NextResponse.json(
+          { error: "A user cannot report to themselves" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Keep only the fields that actually change, for the audit entry
+    const previousValue: Record<string, unknown> = {};
+    const newValue: Record<string, unknown> = {};
+    for (const key of Object.keys(data) as Array<keyof typeof data>) {
+      if (data[key] !== undefined && data[key] !== user[key]) {
+        previousValue[key] = user[key];
+        newValue[key] = data[key];
+      }
+    }
+
+    const updatedUser = await db.$transaction(async (tx) => {
+      const updatedUser = await tx.user.update({
+        where: { id },
+        data,
+        select: userSelect,
+      });
+
+      if (Object.keys(newValue).length > 0) {
+        await createAuditLog(tx, {
+          action:
+            newValue.isActive === false
+              ? "USER_DEACTIVATED"
+              : newValue.isActive === true
+              ? "USER_REACTIVATED"
+              : "USER_UPDATED",
+          changedById: session.user.id,
+          apiTokenId: session.apiTokenId,
+          previousValue: { userId: id, ...previousValue },
+          newValue: { userId: id, ...newValue },
+          notes: `Updated user ${updatedUser.name}: ${Object.keys(newValue).join(", ")}`,
+        });
+      }
+
+      return updatedUser;
+    });
+
+    return NextResponse.json(updatedUser);
+  } catch (error) {
+    console.error("Error updating user:", error);
+    return NextResponse.json(
+      { error: "Failed to update user" },
+      { status: 500 }
+    );
+  }
+}
+
+// Users are referenced by their requests, decisions and audit entries, so
+// they are deactivated rather than removed
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("users:write");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "user.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const { id } = params;
+
+    if (id === session.user.id) {
+      return NextResponse.json(
+        { error: "You cannot deactivate or demote your own account" },
+        { status: 400 }
+      );
+    }
+
+    const user = await db.user.findUnique({ where: { id } });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (user.isActive) {
+      await db.$transaction(async (tx) => {
+        await tx.user.update({ where: { id }, data: { isActive: false } });
+
+        await createAuditLog(tx, {
+          action: "USER_DEACTIVATED",
+          changedById: session.user.id,
+          apiTokenId: session.apiTokenId,
+          previousValue: { userId: id, isActive: true },
+          newValue: { userId: id, isActive: false },
+          notes: `Deactivated user ${user.name}`,
+        });
+      });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deactivating user:", error);
+    return NextResponse.json(
+      { error: "Failed to deactivate user" },
+      { status: 500 }
+    );
+  }
+}
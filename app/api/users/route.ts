@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { z } from "zod";
+import { createAuditLog } from "@/lib/audit";
+import {
+  generatePassword,
+  hashPassword,
+  passwordSchema,
+  userSelect,
+} from "@/lib/users";
+
+const createUserSchema = z.object({
+  name: z.string().min(1).max(255),
+  email: z.string().email(),
+  role: z.enum(["ADMIN", "APPROVER", "USER"]),
+  managerId: z.string().min(1).optional().nullable(),
+  // A password is generated when none is given
+  password: passwordSchema.optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession("users:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Deactivated users are only listed on the admin screens
+    const includeInactive =
+      can(session.user, "user.manage") &&
+      request.nextUrl.searchParams.get("includeInactive") === "true";
+
+    const users = await db.user.findMany({
+      where: includeInactive ? {} : { isActive: true },
+      select: userSelect,
+      orderBy: { name: "asc" },
+    });
+
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error("Error fetching users:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch users" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession("users:write");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "user.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = createUserSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { name, email, role, managerId } = result.data;
+
+    const existing = await db.user.findUnique({ where: { email } });
+    if (existing) {
+      return NextResponse.json(
+        { error: "A user with this email already exists" },
+        { status: 400 }
+      );
+    }
+
+    if (managerId) {
+      const manager = await db.user.findUnique({ where: { id: managerId } });
+      if (!manager) {
+        return NextResponse.json(
+          { error: "Manager not found" },
+          { status: 400 }
+        );
+      }
+    }
+
+    const temporaryPassword = result.data.password ? null : generatePassword();
+
+    const passwordHash = await hashPassword(
+      result.data.password ?? temporaryPassword!
+    );
+
+    const user = await db.$transaction(async (tx) => {
+      const user = await tx.user.create({
+        data: { name, email, role, managerId, passwordHash },
+        select: userSelect,
+      });
+
+      await createAuditLog(tx, {
+        action: "USER_CREATED",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        newValue: {
+          userId: user.id,
+          name,
+          email,
+          role,
+          managerId: managerId ?? null,
+        },
+        notes: `Created user ${name} (${email})`,
+      });
+
+      return user;
+    });
+
+    return NextResponse.json({ user, temporaryPassword }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating user:", error);
+    return NextResponse.json(
+      { error: "Failed to create user" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit";
+import { webhookSchema, webhookSelect } from "@/lib/webhooks";
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "webhook.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = webhookSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db.webhookSubscription.findUnique({
+      where: { id: params.id },
+      select: webhookSelect,
+    });
+
+    if (!existing) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    const { name, url, events, workflowTemplateIds, isActive } = result.data;
+
+    const webhook = await db.$transaction(async (tx) => {
+      const webhook = await tx.webhookSubscription.update({
+        where: { id: params.id },
+        data: {
+          name,
+          url,
+          events: Array.from(new Set(events)),
+          workflowTemplateIds: Array.from(new Set(workflowTemplateIds)),
+          isActive,
+        },
+        select: webhookSelect,
+      });
+
+      await createAuditLog(tx, {
+        action: "WEBHOOK_UPDATED",
+        changedById: session.user.id,
+        previousValue: {
+          webhookId: existing.id,
+          name: existing.name,
+          url: existing.url,
+          events: existing.events,
+          workflowTemplateIds: existing.workflowTemplateIds,
+          isActive: existing.isActive,
+        },
+        newValue: {
+          webhookId: webhook.id,
+          name,
+          url,
+          events: webhook.events,
+          workflowTemplateIds: webhook.workflowTemplateIds,
+          isActive,
+        },
+        notes: `Updated webhook ${name}`,
+      });
+
+      return webhook;
+    });
+
+    return NextResponse.json(webhook);
+  } catch (error) {
+    console.error("Error updating webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to update webhook" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "webhook.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const webhook = await db.webhookSubscription.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!webhook) {
+      return NextResponse.json({ error: "Webhook not found" }, { status: 404 });
+    }
+
+    await db.$transaction(async (tx) => {
+      // Its delivery log is deleted with it
+      await tx.webhookSubscription.delete({ where: { id: webhook.id } });
+
+      await createAuditLog(tx, {
+        action: "WEBHOOK_DELETED",
+        changedById: session.user.id,
+        previousValue: {
+          webhookId: webhook.id,
+          name: webhook.name,
+          url: webhook.url,
+        },
+        notes: `Deleted webhook ${webhook.name}`,
+      });
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("Error deleting webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to delete webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { deliverWebhook } from "@/lib/webhooks";
+
+// Sends a delivery again straight away, e.g. once a receiver that was down
+// is back. The delivery gets a fresh set of retries.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "webhook.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const delivery = await db.webhookDelivery.findUnique({
+      where: { id: params.id },
+    });
+
+    if (!delivery) {
+      return NextResponse.json(
+        { error: "Delivery not found" },
+        { status: 404 }
+      );
+    }
+
+    await db.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: { status: "PENDING", attempts: 0, nextAttemptAt: new Date() },
+    });
+    await deliverWebhook(delivery.id);
+
+    const updated = await db.webhookDelivery.findUniqueOrThrow({
+      where: { id: delivery.id },
+    });
+
+    return NextResponse.json(updated);
+  } catch (error) {
+    console.error("Error redelivering webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to redeliver webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit";
+import {
+  generateWebhookSecret,
+  webhookEvents,
+  webhookSchema,
+  webhookSelect,
+} from "@/lib/webhooks";
+
+// Webhooks are managed from a browser session only, like API tokens
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "webhook.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const [webhooks, workflows] = await Promise.all([
+      db.webhookSubscription.findMany({
+        select: webhookSelect,
+        orderBy: { createdAt: "desc" },
+      }),
+      db.workflowTemplate.findMany({
+        select: { id: true, name: true },
+        orderBy: { name: "asc" },
+      }),
+    ]);
+
+    return NextResponse.json({ webhooks, events: webhookEvents, workflows });
+  } catch (error) {
+    console.error("Error fetching webhooks:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch webhooks" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!can(session.user, "webhook.manage")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const result = webhookSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: result.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { name, url, events, workflowTemplateIds, isActive } = result.data;
+    const secret = generateWebhookSecret();
+
+    const webhook = await db.$transaction(async (tx) => {
+      const webhook = await tx.webhookSubscription.create({
+        data: {
+          name,
+          url,
+          secret,
+          events: Array.from(new Set(events)),
+          workflowTemplateIds: Array.from(new Set(workflowTemplateIds)),
+          isActive,
+          createdById: session.user.id,
+        },
+        select: webhookSelect,
+      });
+
+      await createAuditLog(tx, {
+        action: "WEBHOOK_CREATED",
+        changedById: session.user.id,
+        newValue: {
+          webhookId: webhook.id,
+          name,
+          url,
+          events: webhook.events,
+          workflowTemplateIds: webhook.workflowTemplateIds,
+          isActive,
+        },
+        notes: `Created webhook ${name}`,
+      });
+
+      return webhook;
+    });
+
+    // The secret is only ever shown in this response
+    return NextResponse.json({ ...webhook, secret }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating webhook:", error);
+    return NextResponse.json(
+      { error: "Failed to create webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
 import { db } from "@/lib/db";
 import { z } from "zod";
-import { Prisma } from "@prisma/client";
 import { createAuditLog } from "@/lib/audit";
+import { stepConfigSchema } from "@/lib/step-config";
+import {
+  findLatestVersion,
+  saveDraftVersion,
+  serializeWorkflow,
+  versionInclude,
+  workflowInclude,
+} from "@/lib/workflow-versions";
+import { diffWorkflowVersions, versionSnapshot } from "@/lib/workflow-diff";
 
 const updateWorkflowSchema = z.object({
   name: z.string().min(1).max(255).optional(),
@@ -15,7 +24,7 @@ const updateWorkflowSchema = z.object({
         stepOrder: z.number().int().min(1),
         stepType: z.enum(["FORM", "APPROVAL", "NOTIFICATION"]),
         name: z.string().min(1),
-        config: z.record(z.string(), z.any()).optional(),
+        config: stepConfigSchema.optional(),
       })
     )
     .optional(),
@@ -32,7 +41,7 @@ export async function GET(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await auth();
+    const session = await getSession("workflows:read");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -41,15 +50,7 @@ export async function GET(
 
     const workflow = await db.workflowTemplate.findUnique({
       where: { id },
-      include: {
-        steps: {
-          orderBy: { stepOrder: "asc" },
-        },
-        formSchema: true,
-        _count: {
-          select: { processes: true },
-        },
-      },
+      include: workflowInclude,
     });
 
     if (!workflow) {
@@ -59,7 +60,7 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(workflow);
+    return NextResponse.json(serializeWorkflow(workflow));
   } catch (error) {
     console.error("Error fetching workflow:", error);
     return NextResponse.json(
@@ -74,15 +75,11 @@ export async function PUT(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await auth();
+    const session = await getSession("workflows:write");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    if (session.user.role !== "ADMIN") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     const { id } = params;
     const body = await request.json();
     const result = updateWorkflowSchema.safeParse(body);
@@ -96,7 +93,6 @@ export async function PUT(
 
     const existingWorkflow = await db.workflowTemplate.findUnique({
       where: { id },
-      include: { steps: true, formSchema: true },
     });
 
     if (!existingWorkflow) {
@@ -106,11 +102,15 @@ export async function PUT(
       );
     }
 
+    if (!can(session.user, "workflow.edit", existingWorkflow)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     const { name, description, steps, formSchema } = result.data;
 
-    // Update in a transaction
+    // Published versions are immutable, so step and form changes to an
+    // ACTIVE or ARCHIVED workflow are saved as a new draft version
     const workflow = await db.$transaction(async (tx) => {
-      // Update basic info
       await tx.workflowTemplate.update({
         where: { id },
         data: {
@@ -119,65 +119,50 @@ export async function PUT(
         },
       });
 
-      // Update steps if provided
-      if (steps) {
-        // Delete existing steps
-        await tx.workflowStep.deleteMany({
-          where: { workflowTemplateId: id },
-        });
-
-        // Create new steps
-        await tx.workflowStep.createMany({
-          data: steps.map((step) => ({
-            workflowTemplateId: id,
-            stepOrder: step.stepOrder,
-            stepType: step.stepType,
-            name: step.name,
-            config: (step.config || {}) as Prisma.InputJsonValue,
-          })),
-        });
-      }
-
-      // Update form schema if provided
-      if (formSchema !== undefined) {
-        if (formSchema === null) {
-          // Delete form schema
-          await tx.formSchema.deleteMany({
-            where: { workflowTemplateId: id },
-          });
-        } else {
-          // Upsert form schema
-          await tx.formSchema.upsert({
-            where: { workflowTemplateId: id },
-            create: {
-              workflowTemplateId: id,
-              fields: formSchema.fields as Prisma.InputJsonValue,
-            },
-            update: {
-              fields: formSchema.fields as Prisma.InputJsonValue,
-            },
-          });
-        }
-      }
-
-      return tx.workflowTemplate.findUnique({
+      const previousVersion = await findLatestVersion(tx, id);
+      const version =
+        steps || formSchema !== undefined
+          ? await saveDraftVersion(tx, id, session.user.id, {
+              steps,
+              formSchema,
+            })
+          : null;
+
+      const workflow = await tx.workflowTemplate.findUniqueOrThrow({
         where: { id },
-        include: {
-          steps: { orderBy: { stepOrder: "asc" } },
-          formSchema: true,
+        include: workflowInclude,
+      });
+
+      await createAuditLog(tx, {
+        action: "WORKFLOW_UPDATED",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        previousValue: {
+          name: existingWorkflow.name,
+          description: existingWorkflow.description,
+          version: previousVersion?.version ?? null,
         },
+        newValue: {
+          name: workflow.name,
+          description: workflow.description,
+          version: version?.version ?? previousVersion?.version ?? null,
+          // Compared with the version the edit was based on
+          diff: version
+            ? diffWorkflowVersions(
+                versionSnapshot(previousVersion),
+                versionSnapshot(version)
+              )
+            : null,
+        },
+        notes: version
+          ? `Workflow "${workflow.name}" updated (draft version ${version.version})`
+          : `Workflow "${workflow.name}" updated`,
       });
-    });
 
-    await createAuditLog({
-      action: "WORKFLOW_UPDATED",
-      changedById: session.user.id,
-      previousValue: { name: existingWorkflow.name },
-      newValue: { name: workflow?.name },
-      notes: `Workflow "${workflow?.name}" updated`,
+      return workflow;
     });
 
-    return NextResponse.json(workflow);
+    return NextResponse.json(serializeWorkflow(workflow));
   } catch (error) {
     console.error("Error updating workflow:", error);
     return NextResponse.json(
@@ -192,20 +177,19 @@ export async function DELETE(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await auth();
+    const session = await getSession("workflows:write");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    if (session.user.role !== "ADMIN") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     const { id } = params;
 
     const workflow = await db.workflowTemplate.findUnique({
       where: { id },
-      include: { _count: { select: { processes: true } } },
+      include: {
+        versions: { include: versionInclude, orderBy: { version: "desc" } },
+        _count: { select: { processes: true } },
+      },
     });
 
     if (!workflow) {
@@ -215,6 +199,10 @@ export async function DELETE(
       );
     }
 
+    if (!can(session.user, "workflow.delete", workflow)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     if (workflow._count.processes > 0) {
       return NextResponse.json(
         {
@@ -225,15 +213,36 @@ export async function DELETE(
       );
     }
 
-    await db.workflowTemplate.delete({
-      where: { id },
-    });
+    await db.$transaction(async (tx) => {
+      await tx.workflowTemplate.delete({
+        where: { id },
+      });
 
-    await createAuditLog({
-      action: "WORKFLOW_DELETED",
-      changedById: session.user.id,
-      previousValue: { id: workflow.id, name: workflow.name },
-      notes: `Workflow "${workflow.name}" deleted`,
+      await createAuditLog(tx, {
+        action: "WORKFLOW_DELETED",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        // The whole workflow, since nothing else is left to show what was
+        // deleted
+        previousValue: {
+          id: workflow.id,
+          name: workflow.name,
+          description: workflow.description,
+          status: workflow.status,
+          versions: workflow.versions.map((version) => ({
+            version: version.version,
+            status: version.status,
+            ...versionSnapshot(version),
+          })),
+        },
+        newValue: {
+          diff: diffWorkflowVersions(
+            versionSnapshot(workflow.versions[0]),
+            versionSnapshot(null)
+          ),
+        },
+        notes: `Workflow "${workflow.name}" deleted`,
+      });
     });
 
     return NextResponse.json({ success: true });
@@ -1,8 +1,17 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
 import { db } from "@/lib/db";
 import { z } from "zod";
 import { createAuditLog } from "@/lib/audit";
+import {
+  publishVersion,
+  serializeWorkflow,
+  workflowInclude,
+} from "@/lib/workflow-versions";
+import { parseStepConfig } from "@/lib/step-config";
+import { diffWorkflowVersions, versionSnapshot } from "@/lib/workflow-diff";
+import type { FormField } from "@/lib/form-validation";
 
 const updateStatusSchema = z.object({
   status: z.enum(["DRAFT", "ACTIVE", "ARCHIVED"]),
@@ -13,15 +22,11 @@ export async function PATCH(
   { params }: { params: { id: string } }
 ) {
   try {
-    const session = await auth();
+    const session = await getSession("workflows:write");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    if (session.user.role !== "ADMIN") {
-      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
-    }
-
     const { id } = params;
     const body = await request.json();
     const result = updateStatusSchema.safeParse(body);
@@ -35,7 +40,7 @@ export async function PATCH(
 
     const existingWorkflow = await db.workflowTemplate.findUnique({
       where: { id },
-      include: { steps: true, formSchema: true },
+      include: workflowInclude,
     });
 
     if (!existingWorkflow) {
@@ -45,46 +50,105 @@ export async function PATCH(
       );
     }
 
+    if (!can(session.user, "workflow.publish", existingWorkflow)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     const { status } = result.data;
 
+    // Activating publishes the latest draft version if there is one,
+    // otherwise the currently published version is reused
+    const [latestVersion] = existingWorkflow.versions;
+    const publishedVersion = existingWorkflow.versions.find(
+      (v) => v.status === "PUBLISHED"
+    );
+    const versionToPublish =
+      status === "ACTIVE" && latestVersion?.status === "DRAFT"
+        ? latestVersion
+        : null;
+
     // Validate before activating
     if (status === "ACTIVE") {
-      if (existingWorkflow.steps.length === 0) {
+      const version = versionToPublish ?? publishedVersion;
+
+      if (!version || version.steps.length === 0) {
         return NextResponse.json(
           { error: "Workflow must have at least one step to be activated" },
           { status: 400 }
         );
       }
 
-      const hasFormStep = existingWorkflow.steps.some(
-        (s) => s.stepType === "FORM"
-      );
-      if (hasFormStep && !existingWorkflow.formSchema) {
+      const hasFormStep = version.steps.some((s) => s.stepType === "FORM");
+      if (hasFormStep && !version.formSchema) {
         return NextResponse.json(
           { error: "Workflow with form step must have a form schema defined" },
           { status: 400 }
         );
       }
+
+      // Step conditions must refer to fields of this version's form
+      const fields = (version.formSchema?.fields ?? []) as unknown as FormField[];
+      const fieldNames = fields.map((f) => f.name);
+      const invalidStep = version.steps.find((s) => {
+        const { condition } = parseStepConfig(s.config);
+        return condition && !fieldNames.includes(condition.field);
+      });
+      if (invalidStep) {
+        return NextResponse.json(
+          {
+            error: `Step "${invalidStep.name}" has a condition on a field that is not in the form`,
+          },
+          { status: 400 }
+        );
+      }
     }
 
-    const workflow = await db.workflowTemplate.update({
-      where: { id },
-      data: { status },
-      include: {
-        steps: { orderBy: { stepOrder: "asc" } },
-        formSchema: true,
-      },
-    });
+    const workflow = await db.$transaction(async (tx) => {
+      if (versionToPublish) {
+        await publishVersion(tx, id, versionToPublish.id);
+      }
+
+      const workflow = await tx.workflowTemplate.update({
+        where: { id },
+        data: { status },
+        include: workflowInclude,
+      });
+
+      // Re-activating an ACTIVE workflow only publishes its draft version
+      if (existingWorkflow.status !== status) {
+        await createAuditLog(tx, {
+          action: "WORKFLOW_STATUS_CHANGED",
+          changedById: session.user.id,
+          apiTokenId: session.apiTokenId,
+          previousValue: { status: existingWorkflow.status },
+          newValue: { status: workflow.status },
+          notes: `Workflow "${workflow.name}" status changed from ${existingWorkflow.status} to ${status}`,
+        });
+      }
+
+      if (versionToPublish) {
+        await createAuditLog(tx, {
+          action: "WORKFLOW_VERSION_PUBLISHED",
+          changedById: session.user.id,
+          apiTokenId: session.apiTokenId,
+          previousValue: { version: publishedVersion?.version ?? null },
+          newValue: {
+            id: workflow.id,
+            version: versionToPublish.version,
+            // What processes started from now on get that earlier ones didn't
+            diff: diffWorkflowVersions(
+              versionSnapshot(publishedVersion),
+              versionSnapshot(versionToPublish)
+            ),
+          },
+          notes: `Workflow "${workflow.name}" version ${versionToPublish.version} published`,
+        });
+      }
 
-    await createAuditLog({
-      action: "WORKFLOW_STATUS_CHANGED",
-      changedById: session.user.id,
-      previousValue: { status: existingWorkflow.status },
-      newValue: { status: workflow.status },
-      notes: `Workflow "${workflow.name}" status changed from ${existingWorkflow.status} to ${status}`,
+      return workflow;
     });
 
-    return NextResponse.json(workflow);
+    return NextResponse.json(serializeWorkflow(workflow));
   } catch (error) {
     console.error("Error updating workflow status:", error);
     return NextResponse.json(
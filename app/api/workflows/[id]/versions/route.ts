@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
+import { db } from "@/lib/db";
+import { versionInclude } from "@/lib/workflow-versions";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getSession("workflows:read");
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = params;
+
+    const workflow = await db.workflowTemplate.findUnique({
+      where: { id },
+      select: { id: true, ownerId: true },
+    });
+
+    if (!workflow) {
+      return NextResponse.json(
+        { error: "Workflow not found" },
+        { status: 404 }
+      );
+    }
+
+    // The history is part of editing a workflow, drafts included
+    if (!can(session.user, "workflow.edit", workflow)) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const versions = await db.workflowVersion.findMany({
+      where: { workflowTemplateId: id },
+      include: {
+        ...versionInclude,
+        createdBy: {
+          select: { id: true, name: true },
+        },
+        _count: {
+          select: { processes: true },
+        },
+      },
+      orderBy: { version: "desc" },
+    });
+
+    return NextResponse.json({ versions });
+  } catch (error) {
+    console.error("Error fetching workflow versions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch workflow versions" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@/lib/auth";
+import { getSession } from "@/lib/session";
+import { can } from "@/lib/permissions";
 import { db } from "@/lib/db";
 import { z } from "zod";
-import { Prisma } from "@prisma/client";
 import { createAuditLog } from "@/lib/audit";
+import { stepConfigSchema } from "@/lib/step-config";
+import { diffWorkflowVersions, versionSnapshot } from "@/lib/workflow-diff";
+import {
+  buildVersionData,
+  serializeWorkflow,
+  workflowInclude,
+} from "@/lib/workflow-versions";
 
 const createWorkflowSchema = z.object({
   name: z.string().min(1).max(255),
@@ -14,7 +21,7 @@ const createWorkflowSchema = z.object({
         stepOrder: z.number().int().min(1),
         stepType: z.enum(["FORM", "APPROVAL", "NOTIFICATION"]),
         name: z.string().min(1),
-        config: z.record(z.string(), z.any()).optional(),
+        config: stepConfigSchema.optional(),
       })
     )
     .optional(),
@@ -27,7 +34,7 @@ const createWorkflowSchema = z.object({
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getSession("workflows:read");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
@@ -43,15 +50,7 @@ export async function GET(request: NextRequest) {
     const [workflows, total] = await Promise.all([
       db.workflowTemplate.findMany({
         where,
-        include: {
-          steps: {
-            orderBy: { stepOrder: "asc" },
-          },
-          formSchema: true,
-          _count: {
-            select: { processes: true },
-          },
-        },
+        include: workflowInclude,
         orderBy: { updatedAt: "desc" },
         skip,
         take: limit,
@@ -60,7 +59,7 @@ export async function GET(request: NextRequest) {
     ]);
 
     return NextResponse.json({
-      workflows,
+      workflows: workflows.map(serializeWorkflow),
       pagination: {
         page,
         limit,
@@ -79,13 +78,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth();
+    const session = await getSession("workflows:write");
     if (!session?.user) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Only admins can create workflows
-    if (session.user.role !== "ADMIN") {
+    if (!can(session.user, "workflow.create")) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
@@ -101,44 +99,41 @@ export async function POST(request: NextRequest) {
 
     const { name, description, steps, formSchema } = result.data;
 
-    const workflow = await db.workflowTemplate.create({
-      data: {
-        name,
-        description,
-        steps: steps
-          ? {
-              create: steps.map((step) => ({
-                stepOrder: step.stepOrder,
-                stepType: step.stepType,
-                name: step.name,
-                config: (step.config || {}) as Prisma.InputJsonValue,
-              })),
-            }
-          : undefined,
-        formSchema: formSchema
-          ? {
-              create: {
-                fields: formSchema.fields as Prisma.InputJsonValue,
-              },
-            }
-          : undefined,
-      },
-      include: {
-        steps: {
-          orderBy: { stepOrder: "asc" },
+    const workflow = await db.$transaction(async (tx) => {
+      const workflow = await tx.workflowTemplate.create({
+        data: {
+          name,
+          description,
+          ownerId: session.user.id,
+          versions: {
+            create: buildVersionData(1, session.user.id, { steps, formSchema }),
+          },
         },
-        formSchema: true,
-      },
-    });
+        include: workflowInclude,
+      });
+
+      await createAuditLog(tx, {
+        action: "WORKFLOW_CREATED",
+        changedById: session.user.id,
+        apiTokenId: session.apiTokenId,
+        newValue: {
+          id: workflow.id,
+          name: workflow.name,
+          description: workflow.description,
+          version: 1,
+          // Everything in the first version, listed as added
+          diff: diffWorkflowVersions(
+            versionSnapshot(null),
+            versionSnapshot(workflow.versions[0])
+          ),
+        },
+        notes: `Workflow "${workflow.name}" created`,
+      });
 
-    await createAuditLog({
-      action: "WORKFLOW_CREATED",
-      changedById: session.user.id,
-      newValue: { id: workflow.id, name: workflow.name },
-      notes: `Workflow "${workflow.name}" created`,
+      return workflow;
     });
 
-    return NextResponse.json(workflow, { status: 201 });
+    return NextResponse.json(serializeWorkflow(workflow), { status: 201 });
   } catch (error) {
     console.error("Error creating workflow:", error);
     return NextResponse.json(
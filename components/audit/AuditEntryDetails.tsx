@@ -0,0 +1,140 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { WorkflowDiffList } from "@/components/workflow/WorkflowDiffList";
+import { hasChanges, type WorkflowDiff } from "@/lib/workflow-diff";
+import { stableStringify } from "@/lib/utils";
+import { format } from "date-fns";
+
+interface Entry {
+  action: string;
+  changedAt: string;
+  notes: string | null;
+  previousValue: unknown;
+  newValue: unknown;
+}
+
+interface Props {
+  entry: Entry | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+// Top-level values compared side by side; anything that isn't an object is
+// shown as a single value
+function toRecord(value: unknown): Record<string, unknown> {
+  if (value === null || value === undefined) return {};
+  return isRecord(value) ? value : { value };
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null) return "-";
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+/**
+ * What an audit entry changed: the workflow diff, if it has one, and its
+ * values before and after.
+ */
+export function AuditEntryDetails({ entry, onOpenChange }: Props) {
+  const previous = toRecord(entry?.previousValue);
+  const next = toRecord(entry?.newValue);
+  const diff = isRecord(next.diff)
+    ? (next.diff as unknown as WorkflowDiff)
+    : null;
+  const keys = Array.from(
+    new Set([...Object.keys(previous), ...Object.keys(next)])
+  ).filter((key) => !(key === "diff" && diff));
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        {entry && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="font-mono text-base">
+                {entry.action}
+              </DialogTitle>
+              <DialogDescription>
+                {format(new Date(entry.changedAt), "MMM d, yyyy h:mm a")}
+                {entry.notes && ` · ${entry.notes}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            {diff && (
+              <div className="space-y-2">
+                <h3 className="text-sm font-medium">Workflow changes</h3>
+                {!hasChanges(diff) ? (
+                  <p className="text-sm text-muted-foreground">
+                    No changes to steps or form fields
+                  </p>
+                ) : (
+                  <WorkflowDiffList diff={diff} showValues />
+                )}
+              </div>
+            )}
+
+            {keys.length > 0 && (
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Before</TableHead>
+                      <TableHead>After</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {keys.map((key) => {
+                      const changed =
+                        stableStringify(previous[key] ?? null) !==
+                        stableStringify(next[key] ?? null);
+                      return (
+                        <TableRow key={key}>
+                          <TableCell className="font-mono text-xs align-top">
+                            {key}
+                          </TableCell>
+                          <TableCell className="align-top">
+                            <pre className="whitespace-pre-wrap break-all text-xs">
+                              {formatValue(previous[key])}
+                            </pre>
+                          </TableCell>
+                          <TableCell
+                            className={
+                              changed ? "align-top bg-yellow-50" : "align-top"
+                            }
+                          >
+                            <pre className="whitespace-pre-wrap break-all text-xs">
+                              {formatValue(next[key])}
+                            </pre>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
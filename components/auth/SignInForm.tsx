@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { getProviders, signIn } from "next-auth/react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+
+interface Provider {
+  id: string;
+  name: string;
+}
+
+// Errors Auth.js reports when a single sign-on attempt fails
+function ssoErrorMessage(error: string | null) {
+  if (!error) return null;
+  if (error === "AccessDenied") {
+    return "Your account is not allowed to sign in. Contact an administrator.";
+  }
+  return "Sign in failed. Please try again.";
+}
+
+export function SignInForm({
+  passwordLogin,
+}: {
+  // Whether an admin allows signing in with a password
+  passwordLogin: boolean;
+}) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const callbackUrl = searchParams.get("callbackUrl") || "/dashboard";
+  const [providers, setProviders] = useState<Provider[] | null>(null);
+  const [error, setError] = useState<string | null>(
+    ssoErrorMessage(searchParams.get("error"))
+  );
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    getProviders().then((result) =>
+      setProviders(result ? Object.values(result) : [])
+    );
+  }, []);
+
+  async function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+
+    const formData = new FormData(e.currentTarget);
+    const email = formData.get("email") as string;
+    const password = formData.get("password") as string;
+
+    try {
+      const result = await signIn("credentials", {
+        email,
+        password,
+        redirect: false,
+      });
+
+      if (result?.error) {
+        setError("Invalid email or password");
+        setLoading(false);
+        return;
+      }
+
+      router.push(callbackUrl);
+      router.refresh();
+    } catch {
+      setError("An error occurred. Please try again.");
+      setLoading(false);
+    }
+  }
+
+  if (!providers) {
+    return <SignInFormSkeleton />;
+  }
+
+  const ssoProviders = providers.filter((p) => p.id !== "credentials");
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="rounded-md bg-red-50 p-3 text-sm text-red-600">
+          {error}
+        </div>
+      )}
+      {ssoProviders.map((provider) => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          className="w-full"
+          onClick={() => signIn(provider.id, { callbackUrl })}
+        >
+          Sign in with {provider.name}
+        </Button>
+      ))}
+      {passwordLogin && ssoProviders.length > 0 && (
+        <div className="flex items-center gap-2 text-xs uppercase text-muted-foreground">
+          <div className="h-px flex-1 bg-border" />
+          or
+          <div className="h-px flex-1 bg-border" />
+        </div>
+      )}
+      {passwordLogin && (
+        <>
+          <PasswordForm loading={loading} onSubmit={handleSubmit} />
+          <div className="text-center text-sm text-gray-500">
+            <p>Demo credentials:</p>
+            <p>admin@example.com / admin123</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function PasswordForm({
+  loading,
+  onSubmit,
+}: {
+  loading: boolean;
+  onSubmit: (e: React.FormEvent<HTMLFormElement>) => void;
+}) {
+  return (
+    <form onSubmit={onSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="email">Email</Label>
+        <Input
+          id="email"
+          name="email"
+          type="email"
+          placeholder="admin@example.com"
+          required
+          autoComplete="email"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          name="password"
+          type="password"
+          placeholder="••••••••"
+          required
+          autoComplete="current-password"
+        />
+      </div>
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? "Signing in..." : "Sign In"}
+      </Button>
+    </form>
+  );
+}
+
+export function SignInFormSkeleton() {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Skeleton className="h-4 w-12" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+      <div className="space-y-2">
+        <Skeleton className="h-4 w-16" />
+        <Skeleton className="h-10 w-full" />
+      </div>
+      <Skeleton className="h-10 w-full" />
+    </div>
+  );
+}
@@ -18,26 +18,20 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { cn } from "@/lib/utils";
+import { cn, formatFileSize } from "@/lib/utils";
 import { format } from "date-fns";
-import { CalendarIcon } from "lucide-react";
-
-interface FormField {
-  id: string;
-  name: string;
-  label: string;
-  type: string;
-  required: boolean;
-  validation?: Record<string, unknown>;
-  options?: string[];
-  conditionalOn?: {
-    fieldId: string;
-    value: unknown;
-  };
-}
+import { CalendarIcon, Paperclip } from "lucide-react";
+import {
+  checkFile,
+  fileValueSchema,
+  isFieldVisible,
+  type FormField,
+} from "@/lib/form-validation";
 
 interface Props {
   fields: FormField[];
+  // The form version files are uploaded for
+  workflowVersionId: string;
   values: Record<string, unknown>;
   onChange: (values: Record<string, unknown>) => void;
   errors?: Record<string, string>;
@@ -46,25 +40,56 @@ interface Props {
 
 export function DynamicForm({
   fields,
+  workflowVersionId,
   values,
   onChange,
   errors = {},
   disabled = false,
 }: Props) {
   const [datePopoverOpen, setDatePopoverOpen] = useState<Record<string, boolean>>({});
+  const [uploading, setUploading] = useState<Record<string, boolean>>({});
+  const [uploadErrors, setUploadErrors] = useState<Record<string, string>>({});
 
   function handleChange(name: string, value: unknown) {
     onChange({ ...values, [name]: value });
   }
 
-  function isFieldVisible(field: FormField): boolean {
-    if (!field.conditionalOn) return true;
-    const dependentValue = values[field.conditionalOn.fieldId];
-    return dependentValue === field.conditionalOn.value;
+  // Files are uploaded as soon as they are picked; the form keeps a
+  // reference to the stored file
+  async function handleFileChange(field: FormField, file: File) {
+    const fileError = checkFile(field, file);
+    setUploadErrors((current) => ({ ...current, [field.name]: fileError ?? "" }));
+    if (fileError) return;
+
+    setUploading((current) => ({ ...current, [field.name]: true }));
+    try {
+      const body = new FormData();
+      body.append("file", file);
+      body.append("workflowVersionId", workflowVersionId);
+      body.append("fieldName", field.name);
+
+      const res = await fetch("/api/attachments", { method: "POST", body });
+      const data = await res.json();
+      if (res.ok) {
+        handleChange(field.name, data);
+      } else {
+        setUploadErrors((current) => ({
+          ...current,
+          [field.name]: data.error || "Failed to upload file",
+        }));
+      }
+    } catch {
+      setUploadErrors((current) => ({
+        ...current,
+        [field.name]: "Failed to upload file",
+      }));
+    } finally {
+      setUploading((current) => ({ ...current, [field.name]: false }));
+    }
   }
 
   function renderField(field: FormField) {
-    if (!isFieldVisible(field)) return null;
+    if (!isFieldVisible(field, values)) return null;
 
     const error = errors[field.name];
     const value = values[field.name];
@@ -240,7 +265,9 @@ export function DynamicForm({
           </div>
         );
 
-      case "file":
+      case "file": {
+        const uploaded = fileValueSchema.safeParse(value);
+        const fileError = uploadErrors[field.name] || error;
         return (
           <div key={field.id} className="space-y-2">
             <Label htmlFor={field.name}>
@@ -253,20 +280,26 @@ export function DynamicForm({
               onChange={(e) => {
                 const file = e.target.files?.[0];
                 if (file) {
-                  handleChange(field.name, file.name);
+                  handleFileChange(field, file);
                 }
               }}
-              disabled={disabled}
+              disabled={disabled || uploading[field.name]}
               accept={field.validation?.accept as string}
             />
-            {typeof value === "string" && value && (
-              <p className="text-sm text-muted-foreground">
-                Selected: {value}
-              </p>
+            {uploading[field.name] ? (
+              <p className="text-sm text-muted-foreground">Uploading...</p>
+            ) : (
+              uploaded.success && (
+                <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                  <Paperclip className="h-3 w-3" />
+                  {uploaded.data.name} ({formatFileSize(uploaded.data.size)})
+                </p>
+              )
             )}
-            {error && <p className="text-sm text-red-500">{error}</p>}
+            {fileError && <p className="text-sm text-red-500">{fileError}</p>}
           </div>
         );
+      }
 
       default:
         return null;
@@ -284,54 +317,3 @@ export function DynamicForm({
     </div>
   );
 }
-
-export function validateFormData(
-  fields: FormField[],
-  values: Record<string, unknown>
-): Record<string, string> {
-  const errors: Record<string, string> = {};
-
-  for (const field of fields) {
-    const value = values[field.name];
-
-    // Check required
-    if (field.required) {
-      if (value === undefined || value === null || value === "") {
-        errors[field.name] = `${field.label} is required`;
-        continue;
-      }
-    }
-
-    // Skip validation for empty non-required fields
-    if (value === undefined || value === null || value === "") {
-      continue;
-    }
-
-    // Type-specific validation
-    if (field.type === "text" && typeof value === "string") {
-      const minLength = field.validation?.minLength as number | undefined;
-      const maxLength = field.validation?.maxLength as number | undefined;
-
-      if (minLength && value.length < minLength) {
-        errors[field.name] = `${field.label} must be at least ${minLength} characters`;
-      }
-      if (maxLength && value.length > maxLength) {
-        errors[field.name] = `${field.label} must be no more than ${maxLength} characters`;
-      }
-    }
-
-    if ((field.type === "number" || field.type === "currency") && typeof value === "number") {
-      const min = field.validation?.min as number | undefined;
-      const max = field.validation?.max as number | undefined;
-
-      if (min !== undefined && value < min) {
-        errors[field.name] = `${field.label} must be at least ${min}`;
-      }
-      if (max !== undefined && value > max) {
-        errors[field.name] = `${field.label} must be no more than ${max}`;
-      }
-    }
-  }
-
-  return errors;
-}
@@ -36,6 +36,10 @@ import {
   File,
 } from "lucide-react";
 import { v4 as uuid } from "uuid";
+import {
+  DEFAULT_MAX_FILE_SIZE_MB,
+  MAX_FILE_SIZE_MB,
+} from "@/lib/form-validation";
 
 interface FormField {
   id: string;
@@ -440,6 +444,50 @@ export function FormBuilder({ fields, onFieldsChange }: Props) {
                   </Select>
                 </div>
               )}
+
+              {editingField.type === "file" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="file-accept">Allowed Types</Label>
+                    <Input
+                      id="file-accept"
+                      value={(editingField.validation?.accept as string) || ""}
+                      onChange={(e) =>
+                        setEditingField({
+                          ...editingField,
+                          validation: {
+                            ...editingField.validation,
+                            accept: e.target.value || undefined,
+                          },
+                        })
+                      }
+                      placeholder=".pdf,image/*"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="file-max-size">Max Size (MB)</Label>
+                    <Input
+                      id="file-max-size"
+                      type="number"
+                      min={1}
+                      max={MAX_FILE_SIZE_MB}
+                      value={(editingField.validation?.maxSizeMb as number) || ""}
+                      onChange={(e) =>
+                        setEditingField({
+                          ...editingField,
+                          validation: {
+                            ...editingField.validation,
+                            maxSizeMb: e.target.value
+                              ? parseInt(e.target.value)
+                              : undefined,
+                          },
+                        })
+                      }
+                      placeholder={String(DEFAULT_MAX_FILE_SIZE_MB)}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
           )}
           <DialogFooter>
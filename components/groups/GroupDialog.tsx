@@ -0,0 +1,203 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+
+export interface ManagedGroup {
+  id: string;
+  name: string;
+  description: string | null;
+  manager: { id: string; name: string } | null;
+  members: Array<{ user: { id: string; name: string; email: string } }>;
+}
+
+interface UserOption {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface Props {
+  // The group being edited, or null to create a new one
+  group: ManagedGroup | null;
+  users: UserOption[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const NO_MANAGER = "none";
+
+export function GroupDialog({
+  group,
+  users,
+  open,
+  onOpenChange,
+  onSaved,
+}: Props) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [managerId, setManagerId] = useState(NO_MANAGER);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(group?.name ?? "");
+      setDescription(group?.description ?? "");
+      setManagerId(group?.manager?.id ?? NO_MANAGER);
+      setMemberIds(group?.members.map((m) => m.user.id) ?? []);
+    }
+  }, [open, group]);
+
+  function toggleMember(userId: string, checked: boolean) {
+    setMemberIds((ids) =>
+      checked ? [...ids, userId] : ids.filter((id) => id !== userId)
+    );
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(
+        group ? `/api/groups/${group.id}` : "/api/groups",
+        {
+          method: group ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name,
+            description: description || null,
+            managerId: managerId === NO_MANAGER ? null : managerId,
+            memberIds,
+          }),
+        }
+      );
+
+      if (res.ok) {
+        toast.success(group ? "Group updated" : "Group created");
+        onOpenChange(false);
+        onSaved();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || "Failed to save group");
+      }
+    } catch {
+      toast.error("Failed to save group");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{group ? "Edit Group" : "New Group"}</DialogTitle>
+            <DialogDescription>
+              Groups can be assigned to approval steps and used to filter
+              reports. A group&apos;s manager can see its members&apos;
+              requests.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="group-name">Name *</Label>
+              <Input
+                id="group-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="group-description">Description</Label>
+              <Textarea
+                id="group-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Manager</Label>
+              <Select value={managerId} onValueChange={setManagerId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_MANAGER}>No manager</SelectItem>
+                  {users.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Members</Label>
+              <div className="max-h-48 overflow-y-auto rounded-md border p-2 space-y-2">
+                {users.map((user) => (
+                  <div key={user.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`member-${user.id}`}
+                      checked={memberIds.includes(user.id)}
+                      onCheckedChange={(checked) =>
+                        toggleMember(user.id, checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor={`member-${user.id}`}
+                      className="font-normal"
+                    >
+                      {user.name}
+                      <span className="ml-1 text-muted-foreground">
+                        ({user.email})
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={submitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting ? "Saving..." : group ? "Save" : "Create Group"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,184 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+interface Step {
+  id: string;
+  name: string;
+  process: {
+    workflowTemplate: { name: string };
+    createdBy: { name: string };
+  };
+}
+
+interface Result {
+  stepId: string;
+  success: boolean;
+  outcome?: string | null;
+  error?: string;
+}
+
+interface Props {
+  action: "approve" | "reject";
+  steps: Step[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called once the decisions have been submitted, whether or not they all
+  // went through
+  onCompleted: () => void;
+}
+
+export function BulkActionDialog({
+  action,
+  steps,
+  open,
+  onOpenChange,
+  onCompleted,
+}: Props) {
+  const [comments, setComments] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [results, setResults] = useState<Result[] | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setComments("");
+      setResults(null);
+    }
+  }, [open]);
+
+  const verb = action === "approve" ? "Approve" : "Reject";
+
+  async function handleSubmit() {
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/inbox/actions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          stepIds: steps.map((s) => s.id),
+          comments: comments || undefined,
+        }),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        setResults(data.results);
+        if (data.failed === 0) {
+          toast.success("Decisions submitted");
+        } else {
+          toast.error(
+            `${data.failed} of ${data.results.length} could not be decided`
+          );
+        }
+        onCompleted();
+      } else {
+        toast.error(data.error || "Failed to submit decisions");
+      }
+    } catch {
+      toast.error("Failed to submit decisions");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  function describeResult(result: Result) {
+    if (!result.success) return result.error;
+    if (!result.outcome) return "Vote recorded, waiting for other approvers";
+    return action === "approve" ? "Approved" : "Rejected";
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {verb} {steps.length} {steps.length === 1 ? "request" : "requests"}
+          </DialogTitle>
+          <DialogDescription>
+            {results
+              ? "Each request was decided separately."
+              : "The comment is recorded with every decision."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="max-h-60 overflow-y-auto rounded-md border divide-y">
+            {steps.map((step) => {
+              const result = results?.find((r) => r.stepId === step.id);
+              return (
+                <div
+                  key={step.id}
+                  className="flex items-start gap-2 p-2 text-sm"
+                >
+                  {result &&
+                    (result.success ? (
+                      <CheckCircle className="mt-0.5 h-4 w-4 shrink-0 text-green-500" />
+                    ) : (
+                      <XCircle className="mt-0.5 h-4 w-4 shrink-0 text-red-500" />
+                    ))}
+                  <div>
+                    <p className="font-medium">
+                      {step.process.workflowTemplate.name}
+                    </p>
+                    <p className="text-muted-foreground">
+                      {result
+                        ? describeResult(result)
+                        : `${step.name} · ${step.process.createdBy.name}`}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          {!results && (
+            <div className="space-y-2">
+              <Label htmlFor="bulk-comments">Comment</Label>
+              <Textarea
+                id="bulk-comments"
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+                placeholder="Optional"
+                rows={3}
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          {results ? (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={submitting}
+              >
+                Cancel
+              </Button>
+              <Button
+                variant={action === "reject" ? "destructive" : "default"}
+                onClick={handleSubmit}
+                disabled={submitting}
+              >
+                {submitting ? "Submitting..." : verb}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
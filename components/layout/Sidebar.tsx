@@ -2,27 +2,67 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import { useSession } from "next-auth/react";
 import { cn } from "@/lib/utils";
+import { can, type Permission } from "@/lib/permissions";
 import {
   LayoutDashboard,
   GitBranch,
   FileText,
+  Inbox,
   ClipboardList,
   Bell,
   BarChart3,
+  Users,
+  Building2,
+  Webhook,
 } from "lucide-react";
 
-const navigation = [
+const navigation: Array<{
+  name: string;
+  href: string;
+  icon: typeof LayoutDashboard;
+  // Hidden from users without this permission
+  permission?: Permission;
+}> = [
   { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
   { name: "Workflows", href: "/workflows", icon: GitBranch },
   { name: "Processes", href: "/processes", icon: FileText },
+  { name: "My Approvals", href: "/inbox", icon: Inbox },
   { name: "Notifications", href: "/notifications", icon: Bell },
-  { name: "Audit Log", href: "/audit", icon: ClipboardList },
-  { name: "Reports", href: "/reports", icon: BarChart3 },
+  {
+    name: "Audit Log",
+    href: "/audit",
+    icon: ClipboardList,
+    permission: "audit.read",
+  },
+  {
+    name: "Reports",
+    href: "/reports",
+    icon: BarChart3,
+    permission: "report.view",
+  },
+  { name: "Users", href: "/users", icon: Users, permission: "user.manage" },
+  {
+    name: "Groups",
+    href: "/groups",
+    icon: Building2,
+    permission: "group.manage",
+  },
+  {
+    name: "Webhooks",
+    href: "/webhooks",
+    icon: Webhook,
+    permission: "webhook.manage",
+  },
 ];
 
 export function Sidebar() {
   const pathname = usePathname();
+  const { data: session } = useSession();
+  const items = navigation.filter(
+    (item) => !item.permission || can(session?.user, item.permission)
+  );
 
   return (
     <aside className="fixed left-0 top-0 z-40 h-screen w-64 border-r bg-white">
@@ -35,7 +75,7 @@ export function Sidebar() {
         </Link>
       </div>
       <nav className="flex flex-col gap-1 p-4">
-        {navigation.map((item) => {
+        {items.map((item) => {
           const isActive = pathname.startsWith(item.href);
           return (
             <Link
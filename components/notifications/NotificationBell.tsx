@@ -12,6 +12,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
 import Link from "next/link";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 
 interface Notification {
   id: string;
@@ -20,6 +21,7 @@ interface Notification {
   isRead: boolean;
   createdAt: string;
   processInstanceId?: string;
+  actions?: Array<{ action: string; label: string; url: string }>;
 }
 
 export function NotificationBell() {
@@ -31,6 +33,17 @@ export function NotificationBell() {
     fetchNotifications();
   }, []);
 
+  useLiveUpdates({
+    onNotifications: ({ unreadCount }) => {
+      setUnreadCount(unreadCount);
+      // New approval requests are fetched rather than taken from the event so
+      // they come with their action links; without a notification one was
+      // read in another tab
+      fetchNotifications();
+    },
+    onRefresh: fetchNotifications,
+  });
+
   async function fetchNotifications() {
     try {
       const res = await fetch("/api/notifications?limit=10");
@@ -117,6 +130,28 @@ export function NotificationBell() {
                   }}
                 >
                   <p className="text-sm">{notification.message}</p>
+                  {notification.actions && notification.actions.length > 0 && (
+                    <div className="mt-2 flex gap-2">
+                      {notification.actions.map((action) => (
+                        <Button
+                          key={action.action}
+                          asChild
+                          variant={
+                            action.action === "approve" ? "default" : "outline"
+                          }
+                          size="sm"
+                          className="h-7 text-xs"
+                        >
+                          <a
+                            href={action.url}
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            {action.label}
+                          </a>
+                        </Button>
+                      ))}
+                    </div>
+                  )}
                   <p className="mt-1 text-xs text-muted-foreground">
                     {formatDistanceToNow(new Date(notification.createdAt), {
                       addSuffix: true,
@@ -3,22 +3,42 @@
 import { CheckCircle, Clock, XCircle, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
+import { parseStepConfig } from "@/lib/step-config";
+import { describeQuorum } from "@/lib/quorum";
 
 interface Step {
   id: string;
   status: string;
   comments: string | null;
   actedAt: string | null;
+  dueAt: string | null;
+  breachedAt: string | null;
   workflowStep: {
     id: string;
     name: string;
     stepType: string;
     stepOrder: number;
+    config: Record<string, unknown>;
   };
   actedBy: {
     id: string;
     name: string;
   } | null;
+  decisions: Array<{
+    id: string;
+    decision: "APPROVED" | "REJECTED" | "CHANGES_REQUESTED";
+    comments: string | null;
+    createdAt: string;
+    supersededAt: string | null;
+    approver: {
+      id: string;
+      name: string;
+    };
+    onBehalfOf: {
+      id: string;
+      name: string;
+    } | null;
+  }>;
 }
 
 interface Props {
@@ -61,6 +81,16 @@ const statusConfig: Record<
   },
 };
 
+const decisionConfig = {
+  APPROVED: { icon: CheckCircle, color: "text-green-600", label: "approved" },
+  REJECTED: { icon: XCircle, color: "text-red-600", label: "rejected" },
+  CHANGES_REQUESTED: {
+    icon: AlertTriangle,
+    color: "text-yellow-600",
+    label: "requested changes",
+  },
+};
+
 export function ProcessTimeline({ steps }: Props) {
   const sortedSteps = [...steps].sort(
     (a, b) => a.workflowStep.stepOrder - b.workflowStep.stepOrder
@@ -73,6 +103,15 @@ export function ProcessTimeline({ steps }: Props) {
         const Icon = config.icon;
         const isLast = index === sortedSteps.length - 1;
         const isCompleted = step.status === "COMPLETED";
+        const { quorum } = parseStepConfig(step.workflowStep.config);
+        const actedOnBehalfOf = step.decisions.find(
+          (d) => !d.supersededAt && d.approver.id === step.actedBy?.id
+        )?.onBehalfOf;
+        // Votes set aside by a reassignment or resubmission are listed on
+        // any step so the history stays complete
+        const showVotes =
+          step.decisions.length > 0 &&
+          (!!quorum || step.decisions.some((d) => d.supersededAt));
 
         return (
           <div key={step.id} className="relative pb-8">
@@ -111,12 +150,34 @@ export function ProcessTimeline({ steps }: Props) {
                     {step.status.replace(/_/g, " ")}
                   </span>
                 </div>
-                <p className="text-xs text-muted-foreground capitalize">
-                  {step.workflowStep.stepType.toLowerCase()} step
+                <p className="text-xs text-muted-foreground">
+                  <span className="capitalize">
+                    {step.workflowStep.stepType.toLowerCase()} step
+                  </span>
+                  {quorum && ` · ${describeQuorum(quorum)}`}
                 </p>
+                {step.status === "PENDING" && step.dueAt && !step.breachedAt && (
+                  <p
+                    className={cn(
+                      "text-xs mt-1",
+                      new Date(step.dueAt) < new Date()
+                        ? "text-red-600"
+                        : "text-muted-foreground"
+                    )}
+                  >
+                    Due {format(new Date(step.dueAt), "MMM d, h:mm a")}
+                  </p>
+                )}
+                {step.breachedAt && (
+                  <p className="text-xs text-red-600 mt-1">
+                    SLA breached · deadline was{" "}
+                    {format(new Date(step.breachedAt), "MMM d, h:mm a")}
+                  </p>
+                )}
                 {step.actedBy && step.actedAt && (
                   <p className="text-xs text-muted-foreground mt-1">
-                    {step.actedBy.name} ·{" "}
+                    {step.actedBy.name}
+                    {actedOnBehalfOf && ` on behalf of ${actedOnBehalfOf.name}`} ·{" "}
                     {format(new Date(step.actedAt), "MMM d, h:mm a")}
                   </p>
                 )}
@@ -125,6 +186,57 @@ export function ProcessTimeline({ steps }: Props) {
                     &quot;{step.comments}&quot;
                   </p>
                 )}
+                {/* Individual votes on quorum steps */}
+                {showVotes && (
+                  <ul className="mt-2 space-y-1">
+                    {step.decisions.map((decision) => {
+                      const vote = decisionConfig[decision.decision];
+                      const VoteIcon = vote.icon;
+                      return (
+                        <li
+                          key={decision.id}
+                          className={cn(
+                            "text-xs",
+                            decision.supersededAt && "opacity-60"
+                          )}
+                        >
+                          <div className="flex items-center gap-1">
+                            <VoteIcon className={cn("h-3 w-3", vote.color)} />
+                            <span className="font-medium">
+                              {decision.approver.name}
+                            </span>
+                            {decision.onBehalfOf && (
+                              <span className="text-muted-foreground">
+                                on behalf of {decision.onBehalfOf.name}
+                              </span>
+                            )}
+                            <span className="text-muted-foreground">
+                              {vote.label} ·{" "}
+                              {format(
+                                new Date(decision.createdAt),
+                                "MMM d, h:mm a"
+                              )}
+                            </span>
+                            {decision.supersededAt && (
+                              <span className="text-muted-foreground">
+                                · superseded{" "}
+                                {format(
+                                  new Date(decision.supersededAt),
+                                  "MMM d, h:mm a"
+                                )}
+                              </span>
+                            )}
+                          </div>
+                          {decision.comments && (
+                            <p className="ml-4 text-muted-foreground italic">
+                              &quot;{decision.comments}&quot;
+                            </p>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,165 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface Props {
+  processId: string;
+  step: { id: string; name: string };
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReassigned: () => void;
+}
+
+export function ReassignStepDialog({
+  processId,
+  step,
+  open,
+  onOpenChange,
+  onReassigned,
+}: Props) {
+  const [users, setUsers] = useState<User[]>([]);
+  const [userIds, setUserIds] = useState<string[]>([]);
+  const [comments, setComments] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setUserIds([]);
+      setComments("");
+      fetchUsers();
+    }
+  }, [open]);
+
+  async function fetchUsers() {
+    try {
+      const res = await fetch("/api/users");
+      if (res.ok) {
+        const data = await res.json();
+        setUsers(data.users);
+      }
+    } catch {
+      toast.error("Failed to fetch users");
+    }
+  }
+
+  function toggleUser(userId: string, checked: boolean) {
+    setUserIds((current) =>
+      checked ? [...current, userId] : current.filter((id) => id !== userId)
+    );
+  }
+
+  async function handleSubmit() {
+    setSubmitting(true);
+    try {
+      const res = await fetch(
+        `/api/processes/${processId}/steps/${step.id}/reassign`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            assignee: { type: "users", userIds },
+            comments: comments || undefined,
+          }),
+        }
+      );
+
+      if (res.ok) {
+        toast.success("Step reassigned");
+        onOpenChange(false);
+        onReassigned();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || "Failed to reassign step");
+      }
+    } catch {
+      toast.error("Failed to reassign step");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reassign Step</DialogTitle>
+          <DialogDescription>
+            Choose who should decide &quot;{step.name}&quot;. Votes already
+            cast on this step are discarded.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Assign To *</Label>
+            <div className="max-h-60 overflow-y-auto rounded-md border p-2 space-y-2">
+              {users.map((user) => (
+                <div key={user.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`reassign-${user.id}`}
+                    checked={userIds.includes(user.id)}
+                    onCheckedChange={(checked) =>
+                      toggleUser(user.id, checked === true)
+                    }
+                  />
+                  <Label
+                    htmlFor={`reassign-${user.id}`}
+                    className="font-normal"
+                  >
+                    {user.name}
+                    <span className="ml-1 text-muted-foreground">
+                      ({user.email})
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reassign-comments">Reason</Label>
+            <Textarea
+              id="reassign-comments"
+              value={comments}
+              onChange={(e) => setComments(e.target.value)}
+              placeholder="Why is this step being reassigned?"
+              rows={3}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={submitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || userIds.length === 0}
+          >
+            {submitting ? "Reassigning..." : "Reassign"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,310 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { toast } from "sonner";
+import { KeySquare, Trash2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+const expiryOptions = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "No expiry" },
+];
+
+function tokenStatus(token: ApiToken) {
+  if (token.revokedAt) return "Revoked";
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) {
+    return "Expired";
+  }
+  return null;
+}
+
+export function ApiTokensCard() {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [scopes, setScopes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState("");
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [expiry, setExpiry] = useState("90");
+  const [submitting, setSubmitting] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTokens();
+  }, []);
+
+  async function fetchTokens() {
+    try {
+      const res = await fetch("/api/tokens");
+      if (res.ok) {
+        const data = await res.json();
+        setTokens(data.tokens);
+        setScopes(data.scopes);
+      } else {
+        toast.error("Failed to fetch API tokens");
+      }
+    } catch {
+      toast.error("Failed to fetch API tokens");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleScope(scope: string, checked: boolean) {
+    setSelectedScopes((current) =>
+      checked ? [...current, scope] : current.filter((s) => s !== scope)
+    );
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (selectedScopes.length === 0) {
+      toast.error("Select at least one scope");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch("/api/tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          scopes: selectedScopes,
+          expiresInDays: expiry === "never" ? null : parseInt(expiry),
+        }),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        setNewToken(data.token);
+        setName("");
+        setSelectedScopes([]);
+        fetchTokens();
+      } else {
+        toast.error(data.error || "Failed to create API token");
+      }
+    } catch {
+      toast.error("Failed to create API token");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  async function handleRevoke(token: ApiToken) {
+    if (!confirm(`Revoke the API token ${token.name}?`)) {
+      return;
+    }
+
+    try {
+      const res = await fetch(`/api/tokens/${token.id}`, {
+        method: "DELETE",
+      });
+
+      if (res.ok) {
+        toast.success("API token revoked");
+        fetchTokens();
+      } else {
+        const data = await res.json();
+        toast.error(data.error || "Failed to revoke API token");
+      }
+    } catch {
+      toast.error("Failed to revoke API token");
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeySquare className="h-5 w-5" />
+          API Tokens
+        </CardTitle>
+        <CardDescription>
+          Let scripts and other systems call the API as you, by sending a token
+          in an <code>Authorization: Bearer</code> header
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-6 md:grid-cols-2">
+        <form onSubmit={handleCreate} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="token-name">Name</Label>
+            <Input
+              id="token-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Nightly import"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Scopes</Label>
+            <div className="rounded-md border p-2 space-y-2">
+              {Object.entries(scopes).map(([scope, description]) => (
+                <div key={scope} className="flex items-start space-x-2">
+                  <Checkbox
+                    id={`scope-${scope}`}
+                    checked={selectedScopes.includes(scope)}
+                    onCheckedChange={(checked) =>
+                      toggleScope(scope, checked === true)
+                    }
+                  />
+                  <Label
+                    htmlFor={`scope-${scope}`}
+                    className="font-normal leading-tight"
+                  >
+                    <span className="font-mono text-xs">{scope}</span>
+                    <span className="block text-xs text-muted-foreground">
+                      {description}
+                    </span>
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Expires after</Label>
+            <Select value={expiry} onValueChange={setExpiry}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {expiryOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" disabled={submitting}>
+            {submitting ? "Creating..." : "Create Token"}
+          </Button>
+        </form>
+
+        <div className="space-y-2">
+          {loading ? (
+            <Skeleton className="h-16 w-full" />
+          ) : tokens.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You have no API tokens
+            </p>
+          ) : (
+            tokens.map((token) => {
+              const status = tokenStatus(token);
+              return (
+                <div
+                  key={token.id}
+                  className="flex items-start justify-between rounded-md border p-3"
+                >
+                  <div className={status ? "opacity-60" : ""}>
+                    <p className="text-sm font-medium">
+                      {token.name}
+                      <span className="ml-2 font-mono text-xs text-muted-foreground">
+                        {token.prefix}…
+                      </span>
+                      {status && (
+                        <Badge variant="secondary" className="ml-2">
+                          {status}
+                        </Badge>
+                      )}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {token.scopes.join(", ")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {token.expiresAt
+                        ? `Expires ${format(new Date(token.expiresAt), "PPP")}`
+                        : "Never expires"}
+                      {" · "}
+                      {token.lastUsedAt
+                        ? `Last used ${formatDistanceToNow(
+                            new Date(token.lastUsedAt),
+                            { addSuffix: true }
+                          )}`
+                        : "Never used"}
+                    </p>
+                  </div>
+                  {!token.revokedAt && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRevoke(token)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })
+          )}
+        </div>
+      </CardContent>
+
+      {/* Tokens are only shown once */}
+      <AlertDialog
+        open={newToken !== null}
+        onOpenChange={(open) => !open && setNewToken(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>API Token Created</AlertDialogTitle>
+            <AlertDialogDescription>
+              Copy the token now and keep it somewhere safe. It won&apos;t be
+              shown again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <p className="rounded-md border bg-muted p-3 font-mono text-sm break-all select-all">
+            {newToken}
+          </p>
+          <AlertDialogFooter>
+            <AlertDialogAction>Done</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
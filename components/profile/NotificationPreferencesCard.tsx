@@ -0,0 +1,155 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Mail } from "lucide-react";
+
+type DeliveryMode = "OFF" | "IMMEDIATE" | "DAILY_DIGEST";
+
+interface Channel {
+  id: string;
+  name: string;
+  modes: Record<string, DeliveryMode>;
+}
+
+const modeLabels: Record<DeliveryMode, string> = {
+  IMMEDIATE: "Immediately",
+  DAILY_DIGEST: "Daily digest",
+  OFF: "Off",
+};
+
+const typeNames: Record<string, string> = {
+  ACTION_REQUIRED: "Action required",
+  UPDATE: "Updates",
+  INFO: "Information",
+  REPORT: "Reports",
+};
+
+export function NotificationPreferencesCard() {
+  const [channels, setChannels] = useState<Channel[]>([]);
+  const [types, setTypes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPreferences();
+  }, []);
+
+  async function fetchPreferences() {
+    try {
+      const res = await fetch("/api/notifications/preferences");
+      if (res.ok) {
+        const data = await res.json();
+        setChannels(data.channels);
+        setTypes(data.types);
+      } else {
+        toast.error("Failed to fetch notification preferences");
+      }
+    } catch {
+      toast.error("Failed to fetch notification preferences");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function updateMode(channel: string, type: string, mode: string) {
+    try {
+      const res = await fetch("/api/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channel, type, mode }),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        setChannels(data.channels);
+        toast.success("Notification preferences saved");
+      } else {
+        toast.error(data.error || "Failed to save notification preferences");
+      }
+    } catch {
+      toast.error("Failed to save notification preferences");
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Mail className="h-5 w-5" />
+          Notification Preferences
+        </CardTitle>
+        <CardDescription>
+          Choose which notifications are also sent to you outside the app, and
+          whether they arrive straight away or in one summary a day
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : channels.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No notification channels such as email are set up on this server.
+            You&apos;ll see your notifications in the app.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {Object.entries(types).map(([type, description]) => (
+              <div
+                key={type}
+                className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between"
+              >
+                <div>
+                  <p className="text-sm font-medium">{typeNames[type] ?? type}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {description}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  {channels.map((channel) => (
+                    <div key={channel.id} className="w-44">
+                      <Select
+                        value={channel.modes[type]}
+                        onValueChange={(mode) =>
+                          updateMode(channel.id, type, mode)
+                        }
+                      >
+                        <SelectTrigger aria-label={`${channel.name}: ${type}`}>
+                          <span className="text-muted-foreground mr-1">
+                            {channel.name}:
+                          </span>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(modeLabels).map(([mode, label]) => (
+                            <SelectItem key={mode} value={mode}>
+                              {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,158 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { toast } from "sonner";
+import { Download } from "lucide-react";
+import { format } from "date-fns";
+import { formatFileSize } from "@/lib/utils";
+import type { ReportRun, SavedReport } from "./SavedReportDialog";
+
+const statusVariants = {
+  RUNNING: "secondary",
+  SUCCEEDED: "default",
+  FAILED: "destructive",
+} as const;
+
+interface Props {
+  // The report whose runs are shown, or null when closed
+  savedReport: SavedReport | null;
+  onClose: () => void;
+}
+
+export function ReportRunsSheet({ savedReport, onClose }: Props) {
+  const [runs, setRuns] = useState<ReportRun[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setPage(1);
+  }, [savedReport]);
+
+  useEffect(() => {
+    if (savedReport) {
+      fetchRuns(savedReport.id, page);
+    }
+  }, [savedReport, page]);
+
+  async function fetchRuns(savedReportId: string, page: number) {
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `/api/reports/saved/${savedReportId}/runs?page=${page}`
+      );
+      if (res.ok) {
+        const data = await res.json();
+        setRuns(data.runs);
+        setTotalPages(Math.max(data.pagination.totalPages, 1));
+      } else {
+        toast.error("Failed to fetch report runs");
+      }
+    } catch {
+      toast.error("Failed to fetch report runs");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <Sheet
+      open={savedReport !== null}
+      onOpenChange={(open) => !open && onClose()}
+    >
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Run History</SheetTitle>
+          <SheetDescription>
+            Files generated for {savedReport?.name}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-2">
+          {loading ? (
+            Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))
+          ) : runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No runs yet</p>
+          ) : (
+            runs.map((run) => (
+              <div
+                key={run.id}
+                className="flex items-start justify-between rounded-md border p-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    {format(new Date(run.startedAt), "PPp")}
+                    <Badge
+                      variant={statusVariants[run.status]}
+                      className="ml-2"
+                    >
+                      {run.status.toLowerCase()}
+                    </Badge>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {run.triggeredBy
+                      ? `Run by ${run.triggeredBy.name}`
+                      : "Scheduled"}
+                    {run.processCount !== null &&
+                      ` · ${run.processCount} ${
+                        run.processCount === 1 ? "process" : "processes"
+                      }`}
+                    {run.size !== null && ` · ${formatFileSize(run.size)}`}
+                  </p>
+                  {run.status === "FAILED" && run.error && (
+                    <p className="text-xs text-red-600 break-words">
+                      {run.error}
+                    </p>
+                  )}
+                </div>
+                {run.status === "SUCCEEDED" && (
+                  <Button variant="ghost" size="icon" title="Download" asChild>
+                    <a href={`/api/reports/runs/${run.id}`}>
+                      <Download className="h-4 w-4" />
+                    </a>
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+
+        {totalPages > 1 && (
+          <div className="mt-4 flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => p - 1)}
+              disabled={page <= 1 || loading}
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page >= totalPages || loading}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
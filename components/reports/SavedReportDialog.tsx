@@ -0,0 +1,496 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useSession } from "next-auth/react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { can } from "@/lib/permissions";
+
+// The reports page's filters, as query parameters
+export interface SavedReportFilters {
+  workflowId?: string;
+  status?: string;
+  approverId?: string;
+  sla?: string;
+  groupId?: string;
+  managerId?: string;
+  startDate?: string;
+  endDate?: string;
+  period?: string;
+}
+
+type Schedule = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export interface ReportRun {
+  id: string;
+  status: "RUNNING" | "SUCCEEDED" | "FAILED";
+  fileName: string | null;
+  size: number | null;
+  processCount: number | null;
+  error: string | null;
+  startedAt: string;
+  completedAt: string | null;
+  triggeredBy?: { id: string; name: string } | null;
+}
+
+export interface SavedReport {
+  id: string;
+  name: string;
+  filters: SavedReportFilters;
+  format: "csv" | "xlsx" | "pdf";
+  flatten: boolean;
+  ownerId: string;
+  sharedGroupIds: string[];
+  recipientIds: string[];
+  schedule: Schedule | null;
+  scheduleDay: number | null;
+  scheduleHour: number;
+  nextRunAt: string | null;
+  createdAt: string;
+  owner: { id: string; name: string };
+  // The latest run only
+  runs: ReportRun[];
+}
+
+export const reportFormats = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  pdf: "PDF summary",
+};
+
+const periods = {
+  last_7_days: "Last 7 days",
+  last_30_days: "Last 30 days",
+  previous_week: "Previous week",
+  previous_month: "Previous month",
+};
+
+const weekdays = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+function formatHour(hour: number) {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+/** A schedule in words, e.g. "Weekly on Monday at 08:00". */
+export function describeSchedule(
+  report: Pick<SavedReport, "schedule" | "scheduleDay" | "scheduleHour">
+) {
+  const at = `at ${formatHour(report.scheduleHour)}`;
+  switch (report.schedule) {
+    case "DAILY":
+      return `Daily ${at}`;
+    case "WEEKLY":
+      return `Weekly on ${weekdays[report.scheduleDay ?? 1]} ${at}`;
+    case "MONTHLY":
+      return `Monthly on day ${report.scheduleDay ?? 1} ${at}`;
+    default:
+      return "Not scheduled";
+  }
+}
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface UserOption extends Option {
+  role: string;
+}
+
+interface Props {
+  // The report being edited, or null to save `filters` as a new one
+  savedReport: SavedReport | null;
+  filters: SavedReportFilters;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: (savedReport: SavedReport) => void;
+}
+
+export function SavedReportDialog({
+  savedReport,
+  filters,
+  open,
+  onOpenChange,
+  onSaved,
+}: Props) {
+  const { data: session } = useSession();
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [groups, setGroups] = useState<Option[]>([]);
+  const [name, setName] = useState("");
+  const [format, setFormat] = useState<SavedReport["format"]>("xlsx");
+  const [flatten, setFlatten] = useState(false);
+  // "fixed" keeps the dates as filtered, if any
+  const [period, setPeriod] = useState("fixed");
+  const [sharedGroupIds, setSharedGroupIds] = useState<string[]>([]);
+  const [recipientIds, setRecipientIds] = useState<string[]>([]);
+  const [schedule, setSchedule] = useState<Schedule | "none">("none");
+  const [scheduleDay, setScheduleDay] = useState(1);
+  const [scheduleHour, setScheduleHour] = useState(8);
+  const [submitting, setSubmitting] = useState(false);
+
+  const reportFilters = savedReport?.filters ?? filters;
+
+  useEffect(() => {
+    if (open) {
+      fetchOptions();
+      setName(savedReport?.name ?? "");
+      setFormat(savedReport?.format ?? "xlsx");
+      setFlatten(savedReport?.flatten ?? false);
+      setPeriod(savedReport?.filters.period ?? "fixed");
+      setSharedGroupIds(savedReport?.sharedGroupIds ?? []);
+      setRecipientIds(savedReport?.recipientIds ?? []);
+      setSchedule(savedReport?.schedule ?? "none");
+      setScheduleDay(savedReport?.scheduleDay ?? 1);
+      setScheduleHour(savedReport?.scheduleHour ?? 8);
+    }
+  }, [open, savedReport]);
+
+  async function fetchOptions() {
+    try {
+      const [usersRes, groupsRes] = await Promise.all([
+        fetch("/api/users"),
+        fetch("/api/groups"),
+      ]);
+      if (usersRes.ok) {
+        const data = await usersRes.json();
+        setUsers(data.users);
+      }
+      if (groupsRes.ok) {
+        const data = await groupsRes.json();
+        setGroups(data.groups);
+      }
+    } catch {
+      toast.error("Failed to load users and groups");
+    }
+  }
+
+  function toggle(
+    setter: React.Dispatch<React.SetStateAction<string[]>>,
+    value: string,
+    checked: boolean
+  ) {
+    setter((current) =>
+      checked ? [...current, value] : current.filter((v) => v !== value)
+    );
+  }
+
+  function changeSchedule(value: Schedule | "none") {
+    setSchedule(value);
+    // Keep the day valid for the new schedule
+    if (value === "WEEKLY" && scheduleDay > 6) setScheduleDay(1);
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    setSubmitting(true);
+    try {
+      // A period replaces any filtered dates
+      const { startDate, endDate, ...rest } = reportFilters;
+      const body = {
+        name,
+        filters:
+          period === "fixed"
+            ? { ...rest, period: undefined, startDate, endDate }
+            : { ...rest, period },
+        format,
+        flatten,
+        sharedGroupIds,
+        recipientIds,
+        schedule: schedule === "none" ? null : schedule,
+        scheduleDay: schedule === "none" ? null : scheduleDay,
+        scheduleHour,
+      };
+
+      const res = await fetch(
+        savedReport
+          ? `/api/reports/saved/${savedReport.id}`
+          : "/api/reports/saved",
+        {
+          method: savedReport ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        }
+      );
+
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(savedReport ? "Report updated" : "Report saved");
+        onOpenChange(false);
+        onSaved?.(data);
+      } else {
+        toast.error(data.error || "Failed to save report");
+      }
+    } catch {
+      toast.error("Failed to save report");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const hasDates = !!(reportFilters.startDate || reportFilters.endDate);
+  // Reports run with the owner's access, so only the owner and users who can
+  // see every process can receive them. Recipients picked before a role
+  // change stay listed so they can be removed.
+  const ownerId = savedReport?.owner.id ?? session?.user?.id;
+  const recipientOptions = users.filter(
+    (user) =>
+      user.id === ownerId ||
+      can(user, "process.view.all") ||
+      recipientIds.includes(user.id)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>
+              {savedReport ? "Edit Saved Report" : "Save Report"}
+            </DialogTitle>
+            <DialogDescription>
+              {savedReport
+                ? "Its filters stay as they were saved."
+                : "Saves the current filters so the report can be run again or on a schedule."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="report-name">Name *</Label>
+              <Input
+                id="report-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Weekly approvals"
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Format</Label>
+                <Select
+                  value={format}
+                  onValueChange={(value) =>
+                    setFormat(value as SavedReport["format"])
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(reportFormats).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Date range</Label>
+                <Select value={period} onValueChange={setPeriod}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fixed">
+                      {hasDates ? "Dates as filtered" : "All dates"}
+                    </SelectItem>
+                    {Object.entries(periods).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {format !== "pdf" && (
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="report-flatten"
+                  checked={flatten}
+                  onCheckedChange={(checked) => setFlatten(checked === true)}
+                />
+                <Label htmlFor="report-flatten" className="font-normal">
+                  Form fields as columns
+                </Label>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Schedule</Label>
+              <div className="flex gap-2">
+                <Select
+                  value={schedule}
+                  onValueChange={(value) =>
+                    changeSchedule(value as Schedule | "none")
+                  }
+                >
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Not scheduled</SelectItem>
+                    <SelectItem value="DAILY">Daily</SelectItem>
+                    <SelectItem value="WEEKLY">Weekly</SelectItem>
+                    <SelectItem value="MONTHLY">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+                {schedule === "WEEKLY" && (
+                  <Select
+                    value={String(scheduleDay)}
+                    onValueChange={(value) => setScheduleDay(Number(value))}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {weekdays.map((day, i) => (
+                        <SelectItem key={day} value={String(i)}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {schedule === "MONTHLY" && (
+                  <Select
+                    value={String(scheduleDay)}
+                    onValueChange={(value) => setScheduleDay(Number(value))}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 28 }, (_, i) => (
+                        <SelectItem key={i} value={String(i + 1)}>
+                          Day {i + 1}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                {schedule !== "none" && (
+                  <Select
+                    value={String(scheduleHour)}
+                    onValueChange={(value) => setScheduleHour(Number(value))}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <SelectItem key={hour} value={String(hour)}>
+                          {formatHour(hour)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            </div>
+            {schedule !== "none" && (
+              <div className="space-y-2">
+                <Label>Recipients</Label>
+                <p className="text-xs text-muted-foreground">
+                  Told about each scheduled run through their notification
+                  settings. Besides you, only users who can see all
+                  processes can receive reports.
+                </p>
+                <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-2">
+                  {recipientOptions.map((user) => (
+                    <div key={user.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`recipient-${user.id}`}
+                        checked={recipientIds.includes(user.id)}
+                        onCheckedChange={(checked) =>
+                          toggle(setRecipientIds, user.id, checked === true)
+                        }
+                      />
+                      <Label
+                        htmlFor={`recipient-${user.id}`}
+                        className="font-normal"
+                      >
+                        {user.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Share with groups</Label>
+              <p className="text-xs text-muted-foreground">
+                Members can run the report and download its runs. Reports
+                include what you can see, so they can only be shared with
+                groups whose members can all see all processes.
+              </p>
+              <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-2">
+                {groups.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No groups</p>
+                ) : (
+                  groups.map((group) => (
+                    <div key={group.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`group-${group.id}`}
+                        checked={sharedGroupIds.includes(group.id)}
+                        onCheckedChange={(checked) =>
+                          toggle(setSharedGroupIds, group.id, checked === true)
+                        }
+                      />
+                      <Label
+                        htmlFor={`group-${group.id}`}
+                        className="font-normal"
+                      >
+                        {group.name}
+                      </Label>
+                    </div>
+                  ))
+                )}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={submitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting ? "Saving..." : savedReport ? "Save" : "Save Report"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toast } from "sonner";
+
+interface SettingsResponse {
+  settings: { passwordLoginEnabled: boolean };
+  ssoConfigured: boolean;
+}
+
+export function SignInSettings() {
+  const [data, setData] = useState<SettingsResponse | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/settings")
+      .then(async (res) => {
+        if (!res.ok) throw new Error();
+        setData(await res.json());
+      })
+      .catch(() => toast.error("Failed to fetch sign-in settings"));
+  }, []);
+
+  async function setPasswordLogin(passwordLoginEnabled: boolean) {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passwordLoginEnabled }),
+      });
+
+      const result = await res.json();
+      if (res.ok) {
+        setData((current) => current && { ...current, ...result });
+        toast.success(
+          passwordLoginEnabled
+            ? "Password sign-in allowed"
+            : "Password sign-in turned off"
+        );
+      } else {
+        toast.error(result.error || "Failed to update sign-in settings");
+      }
+    } catch {
+      toast.error("Failed to update sign-in settings");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle>Sign-in</CardTitle>
+        <CardDescription>
+          With password sign-in turned off, users can only sign in through
+          single sign-on. Make sure your own account can before turning it off.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {!data ? (
+          <Skeleton className="h-5 w-48" />
+        ) : (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="password-login"
+              checked={data.settings.passwordLoginEnabled}
+              // Without SSO turning it off would lock everyone out
+              disabled={
+                saving ||
+                (!data.ssoConfigured && data.settings.passwordLoginEnabled)
+              }
+              onCheckedChange={(checked) => setPasswordLogin(checked === true)}
+            />
+            <Label htmlFor="password-login" className="font-normal">
+              Allow signing in with email and password
+              {!data.ssoConfigured && " (single sign-on isn't set up)"}
+            </Label>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
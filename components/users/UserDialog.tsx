@@ -0,0 +1,200 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+
+export interface ManagedUser {
+  id: string;
+  name: string;
+  email: string;
+  role: "ADMIN" | "APPROVER" | "USER";
+  isActive: boolean;
+  createdAt: string;
+  manager: { id: string; name: string } | null;
+}
+
+interface Props {
+  // The user being edited, or null to create a new one
+  user: ManagedUser | null;
+  users: ManagedUser[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (temporaryPassword: string | null) => void;
+}
+
+const NO_MANAGER = "none";
+
+export function UserDialog({ user, users, open, onOpenChange, onSaved }: Props) {
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<ManagedUser["role"]>("USER");
+  const [managerId, setManagerId] = useState(NO_MANAGER);
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(user?.name ?? "");
+      setEmail(user?.email ?? "");
+      setRole(user?.role ?? "USER");
+      setManagerId(user?.manager?.id ?? NO_MANAGER);
+      setPassword("");
+    }
+  }, [open, user]);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(user ? `/api/users/${user.id}` : "/api/users", {
+        method: user ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          email,
+          role,
+          managerId: managerId === NO_MANAGER ? null : managerId,
+          ...(!user && password ? { password } : {}),
+        }),
+      });
+
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(user ? "User updated" : "User created");
+        onOpenChange(false);
+        onSaved(data.temporaryPassword ?? null);
+      } else {
+        toast.error(
+          data.details?.fieldErrors?.password?.[0] ||
+            data.error ||
+            "Failed to save user"
+        );
+      }
+    } catch {
+      toast.error("Failed to save user");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const managers = users.filter((u) => u.isActive && u.id !== user?.id);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{user ? "Edit User" : "New User"}</DialogTitle>
+            <DialogDescription>
+              {user
+                ? "Update the account details and role."
+                : "Create an account. Leave the password empty to generate one."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="user-name">Name *</Label>
+              <Input
+                id="user-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="user-email">Email *</Label>
+              <Input
+                id="user-email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Role *</Label>
+                <Select
+                  value={role}
+                  onValueChange={(value) =>
+                    setRole(value as ManagedUser["role"])
+                  }
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ADMIN">Admin</SelectItem>
+                    <SelectItem value="APPROVER">Approver</SelectItem>
+                    <SelectItem value="USER">User</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Manager</Label>
+                <Select value={managerId} onValueChange={setManagerId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_MANAGER}>No manager</SelectItem>
+                    {managers.map((manager) => (
+                      <SelectItem key={manager.id} value={manager.id}>
+                        {manager.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {!user && (
+              <div className="space-y-2">
+                <Label htmlFor="user-password">Password</Label>
+                <Input
+                  id="user-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Generate a temporary password"
+                  autoComplete="new-password"
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={submitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting ? "Saving..." : user ? "Save" : "Create User"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
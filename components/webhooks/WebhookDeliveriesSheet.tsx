@@ -0,0 +1,208 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { toast } from "sonner";
+import { RotateCw } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+import type { Webhook } from "./WebhookDialog";
+
+interface Delivery {
+  id: string;
+  event: string;
+  status: "PENDING" | "SUCCEEDED" | "FAILED";
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: string;
+}
+
+const statusVariants = {
+  PENDING: "secondary",
+  SUCCEEDED: "default",
+  FAILED: "destructive",
+} as const;
+
+interface Props {
+  // The webhook whose deliveries are shown, or null when closed
+  webhook: Webhook | null;
+  onClose: () => void;
+}
+
+export function WebhookDeliveriesSheet({ webhook, onClose }: Props) {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [redelivering, setRedelivering] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPage(1);
+  }, [webhook]);
+
+  useEffect(() => {
+    if (webhook) {
+      fetchDeliveries(webhook.id, page);
+    }
+  }, [webhook, page]);
+
+  async function fetchDeliveries(webhookId: string, page: number) {
+    setLoading(true);
+    try {
+      const res = await fetch(
+        `/api/webhooks/${webhookId}/deliveries?page=${page}`
+      );
+      if (res.ok) {
+        const data = await res.json();
+        setDeliveries(data.deliveries);
+        setTotalPages(Math.max(data.pagination.totalPages, 1));
+      } else {
+        toast.error("Failed to fetch deliveries");
+      }
+    } catch {
+      toast.error("Failed to fetch deliveries");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function redeliver(delivery: Delivery) {
+    setRedelivering(delivery.id);
+    try {
+      const res = await fetch(
+        `/api/webhooks/deliveries/${delivery.id}/redeliver`,
+        { method: "POST" }
+      );
+
+      const data = await res.json();
+      if (res.ok) {
+        setDeliveries((current) =>
+          current.map((d) => (d.id === data.id ? data : d))
+        );
+        if (data.status === "SUCCEEDED") {
+          toast.success("Delivered");
+        } else {
+          toast.error(data.error || "Delivery failed");
+        }
+      } else {
+        toast.error(data.error || "Failed to redeliver webhook");
+      }
+    } catch {
+      toast.error("Failed to redeliver webhook");
+    } finally {
+      setRedelivering(null);
+    }
+  }
+
+  return (
+    <Sheet open={webhook !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Deliveries</SheetTitle>
+          <SheetDescription>
+            Recent events sent to {webhook?.url}
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-2">
+          {loading ? (
+            Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))
+          ) : deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No deliveries yet</p>
+          ) : (
+            deliveries.map((delivery) => (
+              <div
+                key={delivery.id}
+                className="flex items-start justify-between rounded-md border p-3"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    <span className="font-mono">{delivery.event}</span>
+                    <Badge
+                      variant={statusVariants[delivery.status]}
+                      className="ml-2"
+                    >
+                      {delivery.status.toLowerCase()}
+                    </Badge>
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(delivery.createdAt), "PPp")}
+                    {" · "}
+                    {delivery.attempts === 1
+                      ? "1 attempt"
+                      : `${delivery.attempts} attempts`}
+                    {delivery.responseStatus !== null &&
+                      ` · HTTP ${delivery.responseStatus}`}
+                  </p>
+                  {delivery.status !== "SUCCEEDED" && delivery.error && (
+                    <p className="text-xs text-red-600 break-words">
+                      {delivery.error}
+                    </p>
+                  )}
+                  {delivery.status === "PENDING" && delivery.nextAttemptAt && (
+                    <p className="text-xs text-muted-foreground">
+                      Next attempt{" "}
+                      {formatDistanceToNow(new Date(delivery.nextAttemptAt), {
+                        addSuffix: true,
+                      })}
+                    </p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title="Redeliver"
+                  onClick={() => redeliver(delivery)}
+                  disabled={redelivering !== null}
+                >
+                  <RotateCw
+                    className={`h-4 w-4 ${
+                      redelivering === delivery.id ? "animate-spin" : ""
+                    }`}
+                  />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {totalPages > 1 && (
+          <div className="mt-4 flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => p - 1)}
+              disabled={page <= 1 || loading}
+            >
+              Previous
+            </Button>
+            <span className="text-sm text-muted-foreground">
+              Page {page} of {totalPages}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage((p) => p + 1)}
+              disabled={page >= totalPages || loading}
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,235 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { toast } from "sonner";
+
+export interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  events: string[];
+  workflowTemplateIds: string[];
+  isActive: boolean;
+  createdAt: string;
+  createdBy: { id: string; name: string } | null;
+}
+
+interface WorkflowOption {
+  id: string;
+  name: string;
+}
+
+interface Props {
+  // The webhook being edited, or null to create a new one
+  webhook: Webhook | null;
+  events: Record<string, string>;
+  workflows: WorkflowOption[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called with the signing secret when a new webhook is created
+  onSaved: (secret?: string) => void;
+}
+
+export function WebhookDialog({
+  webhook,
+  events,
+  workflows,
+  open,
+  onOpenChange,
+  onSaved,
+}: Props) {
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
+  const [workflowTemplateIds, setWorkflowTemplateIds] = useState<string[]>(
+    []
+  );
+  const [isActive, setIsActive] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName(webhook?.name ?? "");
+      setUrl(webhook?.url ?? "");
+      setSelectedEvents(webhook?.events ?? []);
+      setWorkflowTemplateIds(webhook?.workflowTemplateIds ?? []);
+      setIsActive(webhook?.isActive ?? true);
+    }
+  }, [open, webhook]);
+
+  function toggle(
+    setter: React.Dispatch<React.SetStateAction<string[]>>,
+    value: string,
+    checked: boolean
+  ) {
+    setter((current) =>
+      checked ? [...current, value] : current.filter((v) => v !== value)
+    );
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+
+    if (selectedEvents.length === 0) {
+      toast.error("Select at least one event");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch(
+        webhook ? `/api/webhooks/${webhook.id}` : "/api/webhooks",
+        {
+          method: webhook ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            name,
+            url,
+            events: selectedEvents,
+            workflowTemplateIds,
+            isActive,
+          }),
+        }
+      );
+
+      const data = await res.json();
+      if (res.ok) {
+        toast.success(webhook ? "Webhook updated" : "Webhook created");
+        onOpenChange(false);
+        onSaved(data.secret);
+      } else {
+        toast.error(data.error || "Failed to save webhook");
+      }
+    } catch {
+      toast.error("Failed to save webhook");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{webhook ? "Edit Webhook" : "New Webhook"}</DialogTitle>
+            <DialogDescription>
+              Events are sent as signed JSON POST requests to the URL.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-name">Name *</Label>
+              <Input
+                id="webhook-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">URL *</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/webhooks/process-ninja"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events *</Label>
+              <div className="rounded-md border p-2 space-y-2">
+                {Object.entries(events).map(([event, description]) => (
+                  <div key={event} className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`event-${event}`}
+                      checked={selectedEvents.includes(event)}
+                      onCheckedChange={(checked) =>
+                        toggle(setSelectedEvents, event, checked === true)
+                      }
+                    />
+                    <Label
+                      htmlFor={`event-${event}`}
+                      className="font-normal leading-tight"
+                    >
+                      <span className="font-mono text-xs">{event}</span>
+                      <span className="block text-xs text-muted-foreground">
+                        {description}
+                      </span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Workflows</Label>
+              <p className="text-xs text-muted-foreground">
+                Leave all unchecked to receive events for every workflow
+              </p>
+              <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-2">
+                {workflows.map((workflow) => (
+                  <div key={workflow.id} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`workflow-${workflow.id}`}
+                      checked={workflowTemplateIds.includes(workflow.id)}
+                      onCheckedChange={(checked) =>
+                        toggle(
+                          setWorkflowTemplateIds,
+                          workflow.id,
+                          checked === true
+                        )
+                      }
+                    />
+                    <Label
+                      htmlFor={`workflow-${workflow.id}`}
+                      className="font-normal"
+                    >
+                      {workflow.name}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="webhook-active"
+                checked={isActive}
+                onCheckedChange={(checked) => setIsActive(checked === true)}
+              />
+              <Label htmlFor="webhook-active" className="font-normal">
+                Active
+              </Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={submitting}
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting ? "Saving..." : webhook ? "Save" : "Create Webhook"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
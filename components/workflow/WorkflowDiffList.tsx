@@ -0,0 +1,88 @@
+"use client";
+
+import {
+  changedValue,
+  type ChangedItem,
+  type WorkflowDiff,
+} from "@/lib/workflow-diff";
+
+interface Props {
+  diff: WorkflowDiff;
+  // Show the old and new value of every changed property
+  showValues?: boolean;
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined || value === null) return "(none)";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function ChangedValues<T extends object>({ item }: { item: ChangedItem<T> }) {
+  return (
+    <ul className="ml-4 mt-1 space-y-1 text-xs text-foreground">
+      {item.changes.map((change) => (
+        <li key={change} className="grid grid-cols-[8rem_1fr] gap-2">
+          <span className="font-mono text-muted-foreground">{change}</span>
+          <span className="break-all">
+            <span className="bg-red-50 text-red-700 line-through">
+              {formatValue(changedValue(item.before, change))}
+            </span>{" "}
+            →{" "}
+            <span className="bg-green-50 text-green-700">
+              {formatValue(changedValue(item.after, change))}
+            </span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** The changes between two versions of a workflow, one per line. */
+export function WorkflowDiffList({ diff, showValues }: Props) {
+  return (
+    <ul className="space-y-1 text-sm">
+      {diff.steps.added.map((step, index) => (
+        <li key={`step-added-${index}`} className="text-green-700">
+          + Step &quot;{step.name}&quot; ({step.stepType.toLowerCase()}) added
+          at position {step.stepOrder}
+        </li>
+      ))}
+      {diff.steps.removed.map((step, index) => (
+        <li key={`step-removed-${index}`} className="text-red-700">
+          − Step &quot;{step.name}&quot; removed
+        </li>
+      ))}
+      {diff.steps.reordered.map((step, index) => (
+        <li key={`step-moved-${index}`} className="text-blue-700">
+          ↕ Step &quot;{step.name}&quot; moved from position {step.from} to{" "}
+          {step.to}
+        </li>
+      ))}
+      {diff.steps.changed.map((item, index) => (
+        <li key={`step-changed-${index}`} className="text-yellow-700">
+          ~ Step &quot;{item.after.name}&quot; changed:{" "}
+          {item.changes.join(", ")}
+          {showValues && <ChangedValues item={item} />}
+        </li>
+      ))}
+      {diff.fields.added.map((field) => (
+        <li key={`field-added-${field.id}`} className="text-green-700">
+          + Field &quot;{field.label}&quot; ({field.type}) added
+        </li>
+      ))}
+      {diff.fields.removed.map((field) => (
+        <li key={`field-removed-${field.id}`} className="text-red-700">
+          − Field &quot;{field.label}&quot; removed
+        </li>
+      ))}
+      {diff.fields.changed.map((item) => (
+        <li key={`field-changed-${item.after.id}`} className="text-yellow-700">
+          ~ Field &quot;{item.after.label}&quot; changed:{" "}
+          {item.changes.join(", ")}
+          {showValues && <ChangedValues item={item} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
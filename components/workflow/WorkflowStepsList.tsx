@@ -1,9 +1,10 @@
 "use client";
 
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -28,7 +29,21 @@ import {
   CheckCircle,
   Bell,
   Settings,
+  GitBranch,
 } from "lucide-react";
+import {
+  stepConfigSchema,
+  type StepAssignee,
+  type StepQuorum,
+  type StepSla,
+} from "@/lib/step-config";
+import { describeQuorum } from "@/lib/quorum";
+import {
+  conditionOperators,
+  operatorLabels,
+  type Condition,
+  type ConditionOperator,
+} from "@/lib/conditions";
 
 interface WorkflowStep {
   id?: string;
@@ -38,11 +53,51 @@ interface WorkflowStep {
   config: Record<string, unknown>;
 }
 
+interface FormFieldOption {
+  name: string;
+  label: string;
+  type: string;
+  options?: string[];
+}
+
 interface Props {
   steps: WorkflowStep[];
+  fields: FormFieldOption[];
   onStepsChange: (steps: WorkflowStep[]) => void;
 }
 
+interface UserOption {
+  id: string;
+  name: string;
+  email: string;
+}
+
+interface GroupOption {
+  id: string;
+  name: string;
+}
+
+const assigneeTypes = [
+  { value: "default", label: "Any approver" },
+  { value: "users", label: "Specific users" },
+  { value: "role", label: "Role" },
+  { value: "group", label: "Group" },
+  { value: "manager", label: "Requester's manager" },
+];
+
+const quorumTypes = [
+  { value: "single", label: "Single decision" },
+  { value: "any", label: "Any one approval" },
+  { value: "all", label: "All approvers" },
+  { value: "count", label: "Minimum number of approvals" },
+];
+
+const roleLabels = {
+  ADMIN: "Admin",
+  APPROVER: "Approver",
+  USER: "User",
+};
+
 const stepTypeIcons = {
   FORM: FileText,
   APPROVAL: CheckCircle,
@@ -55,10 +110,152 @@ const stepTypeColors = {
   NOTIFICATION: "bg-yellow-100 text-yellow-600",
 };
 
-export function WorkflowStepsList({ steps, onStepsChange }: Props) {
+export function WorkflowStepsList({ steps, fields, onStepsChange }: Props) {
   const [editingStep, setEditingStep] = useState<WorkflowStep | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [isNew, setIsNew] = useState(false);
+  const [users, setUsers] = useState<UserOption[]>([]);
+  const [groups, setGroups] = useState<GroupOption[]>([]);
+
+  useEffect(() => {
+    fetchAssigneeOptions();
+  }, []);
+
+  async function fetchAssigneeOptions() {
+    try {
+      const [usersRes, groupsRes] = await Promise.all([
+        fetch("/api/users"),
+        fetch("/api/groups"),
+      ]);
+      if (usersRes.ok) {
+        const data = await usersRes.json();
+        setUsers(data.users);
+      }
+      if (groupsRes.ok) {
+        const data = await groupsRes.json();
+        setGroups(data.groups);
+      }
+    } catch (error) {
+      console.error("Failed to fetch assignee options:", error);
+    }
+  }
+
+  function getAssignee(step: WorkflowStep) {
+    return step.config.assignee as StepAssignee | undefined;
+  }
+
+  function getQuorum(step: WorkflowStep) {
+    return step.config.quorum as StepQuorum | undefined;
+  }
+
+  function getSla(step: WorkflowStep) {
+    return step.config.sla as StepSla | undefined;
+  }
+
+  function getCondition(step: WorkflowStep) {
+    return step.config.condition as Condition | undefined;
+  }
+
+  function describeCondition(condition: Condition) {
+    const field = fields.find((f) => f.name === condition.field);
+    return `Only when ${field?.label || condition.field} ${
+      operatorLabels[condition.operator]
+    } ${condition.value}`;
+  }
+
+  function describeAssignee(step: WorkflowStep) {
+    const assignee = getAssignee(step);
+    switch (assignee?.type) {
+      case "users":
+        return `${assignee.userIds.length} user${assignee.userIds.length === 1 ? "" : "s"}`;
+      case "role":
+        return `${roleLabels[assignee.role]} role`;
+      case "group":
+        return groups.find((g) => g.id === assignee.groupId)?.name || "Group";
+      case "manager":
+        return "Requester's manager";
+      default:
+        return "Any approver";
+    }
+  }
+
+  function setConfigValue(
+    key: "assignee" | "quorum" | "condition" | "sla",
+    value: unknown
+  ) {
+    if (!editingStep) return;
+    const config = { ...editingStep.config };
+    delete config[key];
+    if (value) {
+      config[key] = value;
+    }
+    setEditingStep({ ...editingStep, config });
+  }
+
+  function setAssignee(assignee: StepAssignee | undefined) {
+    setConfigValue("assignee", assignee);
+  }
+
+  function setQuorum(quorum: StepQuorum | undefined) {
+    setConfigValue("quorum", quorum);
+  }
+
+  function setSla(sla: StepSla | undefined) {
+    setConfigValue("sla", sla);
+  }
+
+  function setCondition(condition: Condition | undefined) {
+    setConfigValue("condition", condition);
+  }
+
+  function handleQuorumTypeChange(type: string) {
+    switch (type) {
+      case "any":
+      case "all":
+        setQuorum({ type });
+        break;
+      case "count":
+        setQuorum({ type: "count", count: 2 });
+        break;
+      default:
+        setQuorum(undefined);
+    }
+  }
+
+  function handleAssigneeTypeChange(type: string) {
+    switch (type) {
+      case "users":
+        setAssignee({ type: "users", userIds: [] });
+        break;
+      case "role":
+        setAssignee({ type: "role", role: "APPROVER" });
+        break;
+      case "group":
+        setAssignee({ type: "group", groupId: "" });
+        break;
+      case "manager":
+        setAssignee({ type: "manager" });
+        break;
+      default:
+        setAssignee(undefined);
+    }
+  }
+
+  function toggleAssignedUser(userId: string, checked: boolean) {
+    const assignee = editingStep && getAssignee(editingStep);
+    if (assignee?.type !== "users") return;
+    setAssignee({
+      type: "users",
+      userIds: checked
+        ? [...assignee.userIds, userId]
+        : assignee.userIds.filter((id) => id !== userId),
+    });
+  }
+
+  function isStepValid(step: WorkflowStep | null) {
+    if (!step || !step.name.trim()) return false;
+    return stepConfigSchema.safeParse(step.config).success;
+  }
 
   function handleAddStep() {
     const newStep: WorkflowStep = {
@@ -79,7 +276,7 @@ export function WorkflowStepsList({ steps, onStepsChange }: Props) {
   }
 
   function handleSaveStep() {
-    if (!editingStep || !editingStep.name.trim()) return;
+    if (!editingStep || !isStepValid(editingStep)) return;
 
     if (isNew) {
       onStepsChange([...steps, editingStep]);
@@ -139,6 +336,8 @@ export function WorkflowStepsList({ steps, onStepsChange }: Props) {
           <div className="space-y-2">
             {steps.map((step, index) => {
               const Icon = stepTypeIcons[step.stepType];
+              const condition = getCondition(step);
+              const sla = getSla(step);
               return (
                 <Card key={step.stepOrder} className="relative">
                   <CardContent className="p-4">
@@ -173,9 +372,22 @@ export function WorkflowStepsList({ steps, onStepsChange }: Props) {
                       </div>
                       <div className="flex-1">
                         <p className="font-medium">{step.name}</p>
-                        <p className="text-sm text-muted-foreground capitalize">
-                          {step.stepType.toLowerCase()} step
+                        <p className="text-sm text-muted-foreground">
+                          <span className="capitalize">
+                            {step.stepType.toLowerCase()} step
+                          </span>
+                          {step.stepType === "APPROVAL" &&
+                            ` · ${describeAssignee(step)}`}
+                          {getQuorum(step) &&
+                            ` · ${describeQuorum(getQuorum(step))}`}
+                          {sla && ` · Due in ${sla.dueInHours}h`}
                         </p>
+                        {condition && (
+                          <p className="text-sm text-muted-foreground flex items-center gap-1">
+                            <GitBranch className="h-3 w-3" />
+                            {describeCondition(condition)}
+                          </p>
+                        )}
                       </div>
                       <div className="flex items-center gap-2">
                         <Button
@@ -232,12 +444,20 @@ export function WorkflowStepsList({ steps, onStepsChange }: Props) {
                 <Label htmlFor="step-type">Step Type *</Label>
                 <Select
                   value={editingStep.stepType}
-                  onValueChange={(value) =>
+                  onValueChange={(value) => {
+                    const config = { ...editingStep.config };
+                    // Assignees, quorums and SLAs only apply to approval steps
+                    if (value !== "APPROVAL") {
+                      delete config.assignee;
+                      delete config.quorum;
+                      delete config.sla;
+                    }
                     setEditingStep({
                       ...editingStep,
                       stepType: value as "FORM" | "APPROVAL" | "NOTIFICATION",
-                    })
-                  }
+                      config,
+                    });
+                  }}
                 >
                   <SelectTrigger>
                     <SelectValue />
@@ -264,13 +484,42 @@ export function WorkflowStepsList({ steps, onStepsChange }: Props) {
                   </SelectContent>
                 </Select>
               </div>
+              {editingStep.stepType === "APPROVAL" && (
+                <AssigneeFields
+                  assignee={getAssignee(editingStep)}
+                  users={users}
+                  groups={groups}
+                  onTypeChange={handleAssigneeTypeChange}
+                  onChange={setAssignee}
+                  onToggleUser={toggleAssignedUser}
+                />
+              )}
+              <ConditionFields
+                condition={getCondition(editingStep)}
+                fields={fields}
+                onChange={setCondition}
+              />
+              {editingStep.stepType === "APPROVAL" && (
+                <QuorumFields
+                  quorum={getQuorum(editingStep)}
+                  onTypeChange={handleQuorumTypeChange}
+                  onChange={setQuorum}
+                />
+              )}
+              {editingStep.stepType === "APPROVAL" && (
+                <SlaFields
+                  sla={getSla(editingStep)}
+                  users={users}
+                  onChange={setSla}
+                />
+              )}
             </div>
           )}
           <DialogFooter>
             <Button variant="outline" onClick={() => setDialogOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleSaveStep} disabled={!editingStep?.name.trim()}>
+            <Button onClick={handleSaveStep} disabled={!isStepValid(editingStep)}>
               {isNew ? "Add Step" : "Save Changes"}
             </Button>
           </DialogFooter>
@@ -279,3 +528,425 @@ export function WorkflowStepsList({ steps, onStepsChange }: Props) {
     </div>
   );
 }
+
+function AssigneeFields({
+  assignee,
+  users,
+  groups,
+  onTypeChange,
+  onChange,
+  onToggleUser,
+}: {
+  assignee: StepAssignee | undefined;
+  users: UserOption[];
+  groups: GroupOption[];
+  onTypeChange: (type: string) => void;
+  onChange: (assignee: StepAssignee) => void;
+  onToggleUser: (userId: string, checked: boolean) => void;
+}) {
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="step-assignee">Assign To</Label>
+        <Select value={assignee?.type || "default"} onValueChange={onTypeChange}>
+          <SelectTrigger id="step-assignee">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {assigneeTypes.map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {assignee?.type === "users" && (
+        <div className="space-y-2">
+          <Label>Users *</Label>
+          <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-2">
+            {users.map((user) => (
+              <div key={user.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`assignee-${user.id}`}
+                  checked={assignee.userIds.includes(user.id)}
+                  onCheckedChange={(checked) =>
+                    onToggleUser(user.id, checked === true)
+                  }
+                />
+                <Label htmlFor={`assignee-${user.id}`} className="font-normal">
+                  {user.name}
+                  <span className="ml-1 text-muted-foreground">
+                    ({user.email})
+                  </span>
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {assignee?.type === "role" && (
+        <div className="space-y-2">
+          <Label>Role *</Label>
+          <Select
+            value={assignee.role}
+            onValueChange={(role) =>
+              onChange({ type: "role", role: role as keyof typeof roleLabels })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(roleLabels).map(([role, label]) => (
+                <SelectItem key={role} value={role}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {assignee?.type === "group" && (
+        <div className="space-y-2">
+          <Label>Group *</Label>
+          <Select
+            value={assignee.groupId}
+            onValueChange={(groupId) => onChange({ type: "group", groupId })}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Select a group" />
+            </SelectTrigger>
+            <SelectContent>
+              {groups.map((group) => (
+                <SelectItem key={group.id} value={group.id}>
+                  {group.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {assignee?.type === "manager" && (
+        <p className="text-sm text-muted-foreground">
+          The manager of the user who started the process. Falls back to any
+          approver if the requester has no manager.
+        </p>
+      )}
+    </>
+  );
+}
+
+function QuorumFields({
+  quorum,
+  onTypeChange,
+  onChange,
+}: {
+  quorum: StepQuorum | undefined;
+  onTypeChange: (type: string) => void;
+  onChange: (quorum: StepQuorum) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="step-quorum">Approval Rule</Label>
+      <Select value={quorum?.type || "single"} onValueChange={onTypeChange}>
+        <SelectTrigger id="step-quorum">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {quorumTypes.map((type) => (
+            <SelectItem key={type.value} value={type.value}>
+              {type.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {quorum?.type === "count" && (
+        <Input
+          type="number"
+          min={1}
+          value={quorum.count}
+          onChange={(e) =>
+            onChange({ type: "count", count: parseInt(e.target.value, 10) || 0 })
+          }
+        />
+      )}
+      <p className="text-sm text-muted-foreground">
+        {quorum
+          ? "Each assignee votes separately. The step is rejected as soon as the rule can no longer be met."
+          : "The first assignee to act decides the step."}
+      </p>
+    </div>
+  );
+}
+
+function ConditionFields({
+  condition,
+  fields,
+  onChange,
+}: {
+  condition: Condition | undefined;
+  fields: FormFieldOption[];
+  onChange: (condition: Condition | undefined) => void;
+}) {
+  const field = fields.find((f) => f.name === condition?.field);
+  const isNumeric = field?.type === "number" || field?.type === "currency";
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="step-condition">Run This Step</Label>
+      <Select
+        value={condition ? "conditional" : "always"}
+        onValueChange={(value) =>
+          onChange(
+            value === "conditional"
+              ? { field: "", operator: "equals", value: "" }
+              : undefined
+          )
+        }
+      >
+        <SelectTrigger id="step-condition">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="always">Always</SelectItem>
+          <SelectItem value="conditional" disabled={fields.length === 0}>
+            Only when a form field matches
+          </SelectItem>
+        </SelectContent>
+      </Select>
+      {fields.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Add fields in the Form Builder to run this step conditionally.
+        </p>
+      )}
+
+      {condition && (
+        <div className="grid grid-cols-3 gap-2">
+          <Select
+            value={condition.field}
+            onValueChange={(name) =>
+              onChange({ ...condition, field: name, value: "" })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Field" />
+            </SelectTrigger>
+            <SelectContent>
+              {fields.map((f) => (
+                <SelectItem key={f.name} value={f.name}>
+                  {f.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={condition.operator}
+            onValueChange={(operator) =>
+              onChange({
+                ...condition,
+                operator: operator as ConditionOperator,
+              })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {conditionOperators.map((operator) => (
+                <SelectItem key={operator} value={operator}>
+                  {operatorLabels[operator]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {field?.type === "dropdown" && field.options?.length ? (
+            <Select
+              value={String(condition.value)}
+              onValueChange={(value) => onChange({ ...condition, value })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Value" />
+              </SelectTrigger>
+              <SelectContent>
+                {field.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            <Input
+              type={isNumeric ? "number" : "text"}
+              value={String(condition.value)}
+              onChange={(e) =>
+                onChange({
+                  ...condition,
+                  value:
+                    isNumeric && e.target.value !== ""
+                      ? Number(e.target.value)
+                      : e.target.value,
+                })
+              }
+              placeholder="Value"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const escalationTypes = [
+  { value: "none", label: "Notify the assignees" },
+  { value: "user", label: "Escalate to a user" },
+  { value: "role", label: "Escalate to a role" },
+  { value: "auto_approve", label: "Approve automatically" },
+  { value: "auto_reject", label: "Reject automatically" },
+];
+
+function parseHours(value: string) {
+  const hours = parseFloat(value);
+  return hours > 0 ? hours : undefined;
+}
+
+function SlaFields({
+  sla,
+  users,
+  onChange,
+}: {
+  sla: StepSla | undefined;
+  users: UserOption[];
+  onChange: (sla: StepSla | undefined) => void;
+}) {
+  const escalation = sla?.escalation;
+
+  function handleEscalationTypeChange(type: string) {
+    if (!sla) return;
+    switch (type) {
+      case "user":
+        onChange({ ...sla, escalation: { type: "user", userId: "" } });
+        break;
+      case "role":
+        onChange({ ...sla, escalation: { type: "role", role: "ADMIN" } });
+        break;
+      case "auto_approve":
+      case "auto_reject":
+        onChange({ ...sla, escalation: { type } });
+        break;
+      default:
+        onChange({ ...sla, escalation: undefined });
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label htmlFor="step-due">Due Within (hours)</Label>
+          <Input
+            id="step-due"
+            type="number"
+            min={0}
+            value={sla?.dueInHours ?? ""}
+            onChange={(e) => {
+              const dueInHours = parseHours(e.target.value);
+              onChange(dueInHours ? { ...sla, dueInHours } : undefined);
+            }}
+            placeholder="No deadline"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="step-reminder">Remind Every (hours)</Label>
+          <Input
+            id="step-reminder"
+            type="number"
+            min={0}
+            value={sla?.reminderIntervalHours ?? ""}
+            onChange={(e) =>
+              sla &&
+              onChange({
+                ...sla,
+                reminderIntervalHours: parseHours(e.target.value),
+              })
+            }
+            disabled={!sla}
+            placeholder="No reminders"
+          />
+        </div>
+      </div>
+
+      {sla && (
+        <div className="space-y-2">
+          <Label htmlFor="step-escalation">When Overdue</Label>
+          <Select
+            value={escalation?.type || "none"}
+            onValueChange={handleEscalationTypeChange}
+          >
+            <SelectTrigger id="step-escalation">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {escalationTypes.map((type) => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {escalation?.type === "user" && (
+            <Select
+              value={escalation.userId}
+              onValueChange={(userId) =>
+                onChange({ ...sla, escalation: { type: "user", userId } })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a user" />
+              </SelectTrigger>
+              <SelectContent>
+                {users.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
+          {escalation?.type === "role" && (
+            <Select
+              value={escalation.role}
+              onValueChange={(role) =>
+                onChange({
+                  ...sla,
+                  escalation: {
+                    type: "role",
+                    role: role as keyof typeof roleLabels,
+                  },
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(roleLabels).map(([role, label]) => (
+                  <SelectItem key={role} value={role}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
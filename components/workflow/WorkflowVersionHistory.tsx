@@ -0,0 +1,184 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import {
+  diffWorkflowVersions,
+  hasChanges,
+  type FieldSnapshot,
+  type StepSnapshot,
+} from "@/lib/workflow-diff";
+import { WorkflowDiffList } from "@/components/workflow/WorkflowDiffList";
+
+interface WorkflowVersion {
+  id: string;
+  version: number;
+  status: "DRAFT" | "PUBLISHED" | "SUPERSEDED";
+  createdAt: string;
+  publishedAt: string | null;
+  createdBy: {
+    id: string;
+    name: string;
+  } | null;
+  steps: StepSnapshot[];
+  formSchema: {
+    fields: FieldSnapshot[];
+  } | null;
+  _count: {
+    processes: number;
+  };
+}
+
+interface Props {
+  workflowId: string;
+}
+
+const versionStatusColors = {
+  DRAFT: "bg-gray-100 text-gray-800",
+  PUBLISHED: "bg-green-100 text-green-800",
+  SUPERSEDED: "bg-yellow-100 text-yellow-800",
+};
+
+export function WorkflowVersionHistory({ workflowId }: Props) {
+  const [versions, setVersions] = useState<WorkflowVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [baseVersion, setBaseVersion] = useState<string>("");
+  const [compareVersion, setCompareVersion] = useState<string>("");
+
+  useEffect(() => {
+    fetchVersions();
+  }, [workflowId]);
+
+  async function fetchVersions() {
+    try {
+      const res = await fetch(`/api/workflows/${workflowId}/versions`);
+      if (res.ok) {
+        const data = await res.json();
+        setVersions(data.versions);
+        if (data.versions.length > 0) {
+          setCompareVersion(String(data.versions[0].version));
+          setBaseVersion(
+            String(data.versions[Math.min(1, data.versions.length - 1)].version)
+          );
+        }
+      } else {
+        toast.error("Failed to fetch version history");
+      }
+    } catch {
+      toast.error("Failed to fetch version history");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (loading) {
+    return <Skeleton className="h-48 w-full" />;
+  }
+
+  const base = versions.find((v) => String(v.version) === baseVersion);
+  const compare = versions.find((v) => String(v.version) === compareVersion);
+  const diff = base && compare ? diffWorkflowVersions(base, compare) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Version</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead>Published</TableHead>
+              <TableHead>Processes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {versions.map((version) => (
+              <TableRow key={version.id}>
+                <TableCell className="font-medium">v{version.version}</TableCell>
+                <TableCell>
+                  <Badge
+                    className={versionStatusColors[version.status]}
+                    variant="secondary"
+                  >
+                    {version.status}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {format(new Date(version.createdAt), "MMM d, yyyy h:mm a")}
+                  {version.createdBy && ` · ${version.createdBy.name}`}
+                </TableCell>
+                <TableCell className="text-muted-foreground">
+                  {version.publishedAt
+                    ? format(new Date(version.publishedAt), "MMM d, yyyy h:mm a")
+                    : "-"}
+                </TableCell>
+                <TableCell>{version._count.processes}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {versions.length > 1 && (
+        <div className="space-y-4">
+          <div className="flex items-center gap-4">
+            <Label>Compare</Label>
+            <Select value={baseVersion} onValueChange={setBaseVersion}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={String(version.version)}>
+                    v{version.version}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">with</span>
+            <Select value={compareVersion} onValueChange={setCompareVersion}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={String(version.version)}>
+                    v{version.version}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {diff && !hasChanges(diff) ? (
+            <p className="text-sm text-muted-foreground">
+              No differences between these versions
+            </p>
+          ) : (
+            diff && <WorkflowDiffList diff={diff} />
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
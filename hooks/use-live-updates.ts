@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+
+// How often to refresh when the browser can't keep a stream open
+const POLL_INTERVAL = 30 * 1000;
+
+export interface LiveNotifications<T> {
+  unreadCount: number;
+  // Set when the update is a new notification
+  notification: T | null;
+}
+
+export interface LiveProcess {
+  processInstanceId: string;
+  status: string;
+  updatedAt: string;
+}
+
+interface Handlers<T> {
+  onNotifications?: (data: LiveNotifications<T>) => void;
+  onProcess?: (data: LiveProcess) => void;
+  // Refetches everything the component shows. Called when streaming isn't
+  // available, and after a dropped connection to catch up on missed events.
+  onRefresh: () => void;
+}
+
+/**
+ * Subscribes to the server-sent events at /api/events, optionally for a set
+ * of processes, and falls back to polling with `onRefresh` when the stream
+ * can't be opened.
+ */
+export function useLiveUpdates<T>(
+  handlers: Handlers<T>,
+  processIds: string[] = []
+) {
+  // Handlers change on every render; the connection shouldn't
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const processKey = processIds.join(",");
+
+  useEffect(() => {
+    let pollTimer: ReturnType<typeof setInterval> | undefined;
+    const startPolling = () => {
+      pollTimer ??= setInterval(
+        () => handlersRef.current.onRefresh(),
+        POLL_INTERVAL
+      );
+    };
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+      return () => clearInterval(pollTimer);
+    }
+
+    const params = new URLSearchParams();
+    processKey
+      .split(",")
+      .filter(Boolean)
+      .forEach((id) => params.append("processId", id));
+    const source = new EventSource(`/api/events?${params}`);
+
+    let connected = false;
+    source.addEventListener("ready", () => {
+      if (connected) handlersRef.current.onRefresh();
+      connected = true;
+    });
+    source.addEventListener("notifications", (e) => {
+      handlersRef.current.onNotifications?.(JSON.parse(e.data));
+    });
+    source.addEventListener("process", (e) => {
+      handlersRef.current.onProcess?.(JSON.parse(e.data));
+    });
+    // The browser reconnects by itself after network errors; it only gives
+    // up when the server refuses the stream
+    source.onerror = () => {
+      if (source.readyState === EventSource.CLOSED) {
+        startPolling();
+      }
+    };
+
+    return () => {
+      source.close();
+      clearInterval(pollTimer);
+    };
+  }, [processKey]);
+}
@@ -0,0 +1,168 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import {
+  Prisma,
+  type NotificationType,
+  type StepStatus,
+} from "@prisma/client";
+import { db } from "@/lib/db";
+import { appUrl } from "@/lib/utils";
+import type { StepAction } from "@/lib/step-actions";
+
+const HOUR = 60 * 60 * 1000;
+
+const actionLabels: Record<StepAction, string> = {
+  approve: "Approve",
+  reject: "Reject",
+  request_changes: "Request changes",
+};
+
+// Compact field names keep the links short
+interface ActionLinkPayload {
+  s: string; // step instance
+  u: string; // user
+  a: StepAction;
+  t: number; // when the step became active
+  e: number; // expiry
+  n: string; // nonce
+}
+
+export interface ActionLink {
+  stepInstanceId: string;
+  userId: string;
+  action: StepAction;
+  // Links stop working when the step is reactivated, e.g. after a resubmit
+  activatedAt: number;
+  expiresAt: Date;
+  nonce: string;
+}
+
+function sign(data: string) {
+  const secret = process.env.AUTH_SECRET || process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET must be set to sign action links");
+  }
+  return createHmac("sha256", secret)
+    .update(`action-link.${data}`)
+    .digest("base64url");
+}
+
+function linkTtl() {
+  return (Number(process.env.ACTION_LINK_TTL_HOURS) || 72) * HOUR;
+}
+
+/**
+ * Links that let a user decide an approval step without opening the app,
+ * one per action. Each link is signed, expires after ACTION_LINK_TTL_HOURS
+ * (72 by default) and can be used once.
+ */
+export function createActionLinks(
+  step: { id: string; activatedAt: Date },
+  userId: string,
+  now = new Date()
+) {
+  return (Object.keys(actionLabels) as StepAction[]).map((action) => {
+    const payload: ActionLinkPayload = {
+      s: step.id,
+      u: userId,
+      a: action,
+      t: step.activatedAt.getTime(),
+      e: now.getTime() + linkTtl(),
+      n: randomBytes(12).toString("base64url"),
+    };
+    const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+    return {
+      action,
+      label: actionLabels[action],
+      url: appUrl(`/actions/${data}.${sign(data)}`),
+    };
+  });
+}
+
+/**
+ * The action links for an action-required notification, while the step it
+ * is about still waits for a decision.
+ */
+export function getNotificationActionLinks(notification: {
+  userId: string;
+  type: NotificationType;
+  stepInstance: {
+    id: string;
+    status: StepStatus;
+    activatedAt: Date | null;
+  } | null;
+}) {
+  const step = notification.stepInstance;
+  if (
+    notification.type !== "ACTION_REQUIRED" ||
+    step?.status !== "PENDING" ||
+    !step.activatedAt
+  ) {
+    return [];
+  }
+  return createActionLinks(
+    { id: step.id, activatedAt: step.activatedAt },
+    notification.userId
+  );
+}
+
+/**
+ * Checks an action link's signature and expiry. Returns null for links that
+ * were tampered with or have expired; whether it was used already is only
+ * known once `claimActionLink` is called.
+ */
+export function verifyActionLink(token: string, now = new Date()) {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let payload: ActionLinkPayload;
+  try {
+    payload = JSON.parse(Buffer.from(data, "base64url").toString());
+  } catch {
+    return null;
+  }
+  if (!(payload.a in actionLabels) || payload.e <= now.getTime()) return null;
+
+  return {
+    stepInstanceId: payload.s,
+    userId: payload.u,
+    action: payload.a,
+    activatedAt: payload.t,
+    expiresAt: new Date(payload.e),
+    nonce: payload.n,
+  } satisfies ActionLink;
+}
+
+/**
+ * Marks a link as used, inside the transaction of the action taken with it.
+ * Returns false if it was used before.
+ */
+export async function claimActionLink(
+  tx: Prisma.TransactionClient,
+  link: ActionLink
+) {
+  try {
+    await tx.usedActionLink.create({
+      data: { nonce: link.nonce, expiresAt: link.expiresAt },
+    });
+    return true;
+  } catch (error) {
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/** Forgets used links once they have expired and can't be used anyway. */
+export async function deleteExpiredActionLinks(now = new Date()) {
+  await db.usedActionLink.deleteMany({ where: { expiresAt: { lt: now } } });
+}
@@ -0,0 +1,89 @@
+import { createHash, randomBytes } from "crypto";
+import { db } from "@/lib/db";
+
+// What a token can be used for. The token's user must also be allowed to
+// perform the action.
+export const apiTokenScopes = {
+  "processes:read": "View processes, their files and the dashboard",
+  "processes:write": "Start and resubmit processes and upload files",
+  "approvals:write": "Approve, reject or request changes, and reassign steps",
+  "workflows:read": "View workflows and their versions",
+  "workflows:write": "Create, edit, publish and delete workflows",
+  "reports:read": "Run reports",
+  "audit:read": "Read the audit log",
+  "users:read": "List users and groups",
+  "users:write": "Manage users and groups",
+} as const;
+
+export type ApiTokenScope = keyof typeof apiTokenScopes;
+
+const TOKEN_PREFIX = "pn_";
+
+export function hashApiToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * A new random token. Only its hash and prefix are stored; the token itself
+ * is returned to the user once.
+ */
+export function generateApiToken() {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return {
+    token,
+    tokenHash: hashApiToken(token),
+    prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+  };
+}
+
+/** Fields of a token that are safe to return from the API. */
+export const apiTokenSelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} as const;
+
+// Refresh lastUsedAt at most this often, rather than on every request
+const LAST_USED_RESOLUTION = 60 * 1000;
+
+/**
+ * Looks up the token sent in a request. Returns null for unknown, revoked
+ * and expired tokens, and for tokens of deactivated users.
+ */
+export async function verifyApiToken(token: string) {
+  const apiToken = await db.apiToken.findUnique({
+    where: { tokenHash: hashApiToken(token) },
+    include: {
+      user: {
+        select: { id: true, name: true, email: true, role: true, isActive: true },
+      },
+    },
+  });
+
+  const now = new Date();
+  if (
+    !apiToken ||
+    apiToken.revokedAt ||
+    (apiToken.expiresAt && apiToken.expiresAt <= now) ||
+    !apiToken.user.isActive
+  ) {
+    return null;
+  }
+
+  if (
+    !apiToken.lastUsedAt ||
+    now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION
+  ) {
+    await db.apiToken.update({
+      where: { id: apiToken.id },
+      data: { lastUsedAt: now },
+    });
+  }
+
+  return apiToken;
+}
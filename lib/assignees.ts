@@ -0,0 +1,150 @@
+import { UserRole } from "@prisma/client";
+import { db } from "@/lib/db";
+import { parseStepConfig, stepAssigneeSchema } from "@/lib/step-config";
+import { getActiveStep, type EngineStep } from "@/lib/engine";
+import { getActiveDelegates } from "@/lib/delegations";
+import { rolesWith } from "@/lib/permissions";
+import {
+  buildAssignments,
+  findOpenAssignment,
+  type Assignment,
+} from "@/lib/quorum";
+
+// Steps without an assignee, or whose assignee resolves to nobody (e.g. the
+// requester has no manager), go to everyone with one of these roles.
+export const DEFAULT_APPROVER_ROLES: UserRole[] = rolesWith(
+  "process.approve.default"
+);
+
+async function resolveAssignedUserIds(
+  stepConfig: unknown,
+  requesterId: string,
+  assigneeOverride?: unknown
+): Promise<string[]> {
+  const override = stepAssigneeSchema.safeParse(assigneeOverride);
+  const assignee = override.success
+    ? override.data
+    : parseStepConfig(stepConfig).assignee;
+  let userIds: string[] = [];
+
+  switch (assignee?.type) {
+    case "users": {
+      const users = await db.user.findMany({
+        where: { id: { in: assignee.userIds }, isActive: true },
+        select: { id: true },
+      });
+      userIds = users.map((u) => u.id);
+      break;
+    }
+    case "role": {
+      const users = await db.user.findMany({
+        where: { role: assignee.role, isActive: true },
+        select: { id: true },
+      });
+      userIds = users.map((u) => u.id);
+      break;
+    }
+    case "group": {
+      const members = await db.groupMember.findMany({
+        where: { groupId: assignee.groupId, user: { isActive: true } },
+        select: { userId: true },
+      });
+      userIds = members.map((m) => m.userId);
+      break;
+    }
+    case "manager": {
+      const requester = await db.user.findUnique({
+        where: { id: requesterId },
+        select: { manager: { select: { id: true, isActive: true } } },
+      });
+      userIds = requester?.manager?.isActive ? [requester.manager.id] : [];
+      break;
+    }
+  }
+
+  if (userIds.length > 0) {
+    return userIds;
+  }
+
+  const approvers = await db.user.findMany({
+    where: { role: { in: DEFAULT_APPROVER_ROLES }, isActive: true },
+    select: { id: true },
+  });
+  return approvers.map((u) => u.id);
+}
+
+/**
+ * Resolves who may act on a step, given the step's config and the user who
+ * started the process: one assignment per assignee, see `buildAssignments`.
+ * An assignee set on the step instance itself (`ProcessStepInstance.assignee`)
+ * takes precedence over the config, and assignees who are away are replaced
+ * by their delegates.
+ */
+export async function resolveAssignments(
+  stepConfig: unknown,
+  requesterId: string,
+  assigneeOverride?: unknown
+): Promise<Assignment[]> {
+  const userIds = await resolveAssignedUserIds(
+    stepConfig,
+    requesterId,
+    assigneeOverride
+  );
+  const delegates = await getActiveDelegates(userIds);
+  return buildAssignments(userIds, delegates, requesterId);
+}
+
+export async function resolveAssignees(
+  stepConfig: unknown,
+  requesterId: string,
+  assigneeOverride?: unknown
+) {
+  const assignments = await resolveAssignments(
+    stepConfig,
+    requesterId,
+    assigneeOverride
+  );
+  return Array.from(new Set(assignments.map((a) => a.userId)));
+}
+
+interface ProcessWithSteps {
+  status: string;
+  createdById: string;
+  steps: Array<
+    EngineStep & {
+      assignee: unknown;
+      decisions: Array<{
+        approverId: string;
+        onBehalfOfId: string | null;
+        supersededAt: Date | null;
+      }>;
+    }
+  >;
+}
+
+/**
+ * Returns the ids of the steps of a process that the given user can act on
+ * now: the approval step the process is waiting on, if the user is assigned
+ * to it (directly or as a delegate) and one of their votes is still open.
+ */
+export async function getActionableStepIds(
+  userId: string,
+  process: ProcessWithSteps
+) {
+  if (process.status !== "IN_PROGRESS") return [];
+
+  const activeStep = getActiveStep(process.steps);
+  if (!activeStep || activeStep.workflowStep.stepType !== "APPROVAL") {
+    return [];
+  }
+
+  const assignments = await resolveAssignments(
+    activeStep.workflowStep.config,
+    process.createdById,
+    activeStep.assignee
+  );
+  const decisions = activeStep.decisions.filter((d) => !d.supersededAt);
+  return findOpenAssignment(assignments, userId, decisions)
+    ? [activeStep.id]
+    : [];
+}
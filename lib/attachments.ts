@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { db } from "@/lib/db";
+import { getStorage } from "@/lib/storage";
+import {
+  getMimeType,
+  type FileValue,
+  type FormField,
+  type FormValues,
+} from "@/lib/form-validation";
+
+// Uploads that never made it into a submitted request are removed after this
+const ORPHAN_TTL_HOURS = 24;
+
+/** Stores an uploaded file and records it as a not yet submitted attachment. */
+export async function saveAttachment({
+  file,
+  workflowVersionId,
+  fieldName,
+  uploadedById,
+}: {
+  file: File;
+  workflowVersionId: string;
+  fieldName: string;
+  uploadedById: string;
+}) {
+  const mimeType = getMimeType(file.name);
+  // Only the extension of the original name is kept in the key
+  const extension = path.extname(file.name).replace(/[^.\w]/g, "");
+  const storageKey = `${workflowVersionId}/${randomUUID()}${extension}`;
+
+  await getStorage().put(
+    storageKey,
+    Buffer.from(await file.arrayBuffer()),
+    mimeType
+  );
+
+  return db.attachment.create({
+    data: {
+      workflowVersionId,
+      fieldName,
+      fileName: file.name,
+      mimeType,
+      size: file.size,
+      storageKey,
+      uploadedById,
+    },
+  });
+}
+
+interface ResolveFileFieldsParams {
+  fields: FormField[];
+  formData: FormValues;
+  workflowVersionId: string;
+  userId: string;
+  // Set on resubmission, when the request may keep its existing files
+  processInstanceId?: string;
+}
+
+/**
+ * Checks that every file field in submitted form data refers to a file the
+ * user uploaded for that field, and that isn't attached to another request.
+ * File details in the form data are replaced with those stored on upload.
+ */
+export async function resolveFileFields({
+  fields,
+  formData,
+  workflowVersionId,
+  userId,
+  processInstanceId,
+}: ResolveFileFieldsParams) {
+  const data: FormValues = { ...formData };
+  const attachmentIds: string[] = [];
+  const fieldErrors: Record<string, string[]> = {};
+
+  for (const field of fields) {
+    const value = formData[field.name] as FileValue | undefined;
+    if (field.type !== "file" || !value) continue;
+
+    const attachment = await db.attachment.findUnique({
+      where: { id: value.id },
+    });
+    if (
+      !attachment ||
+      attachment.uploadedById !== userId ||
+      attachment.workflowVersionId !== workflowVersionId ||
+      attachment.fieldName !== field.name ||
+      (attachment.processInstanceId !== null &&
+        attachment.processInstanceId !== processInstanceId)
+    ) {
+      fieldErrors[field.name] = [`${field.label} must be uploaded again`];
+      continue;
+    }
+
+    attachmentIds.push(attachment.id);
+    data[field.name] = {
+      id: attachment.id,
+      name: attachment.fileName,
+      size: attachment.size,
+      mimeType: attachment.mimeType,
+    } satisfies FileValue;
+  }
+
+  return { formData: data, attachmentIds, fieldErrors };
+}
+
+/** Removes uploads that were never submitted with a request. */
+export async function deleteOrphanedAttachments(now = new Date()) {
+  const cutoff = new Date(now.getTime() - ORPHAN_TTL_HOURS * 60 * 60 * 1000);
+  const orphans = await db.attachment.findMany({
+    where: { processInstanceId: null, createdAt: { lt: cutoff } },
+  });
+
+  for (const attachment of orphans) {
+    try {
+      await getStorage().delete(attachment.storageKey);
+      await db.attachment.delete({ where: { id: attachment.id } });
+    } catch (error) {
+      console.error(`Failed to delete attachment ${attachment.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { createHash, createPublicKey, verify, type KeyObject } from "crypto";
+import { stableStringify } from "@/lib/utils";
+
+// Nothing in this file touches the database, so bundles can be checked
+// offline with scripts/verify-audit-bundle.ts.
+
+// The fields an entry's hash covers, as stored
+export interface ChainedEntry {
+  sequence: number | null;
+  previousHash: string | null;
+  processInstanceId: string | null;
+  action: string;
+  changedById: string | null;
+  apiTokenId: string | null;
+  changedAt: Date;
+  previousValue: unknown;
+  newValue: unknown;
+  notes: string | null;
+}
+
+export function hashAuditEntry(entry: ChainedEntry) {
+  return createHash("sha256")
+    .update(
+      stableStringify({
+        sequence: entry.sequence,
+        previousHash: entry.previousHash,
+        processInstanceId: entry.processInstanceId,
+        action: entry.action,
+        changedById: entry.changedById,
+        apiTokenId: entry.apiTokenId,
+        changedAt: entry.changedAt.toISOString(),
+        previousValue: entry.previousValue ?? null,
+        newValue: entry.newValue ?? null,
+        notes: entry.notes,
+      })
+    )
+    .digest("hex");
+}
+
+export const AUDIT_BUNDLE_FORMAT = "process-ninja.audit-bundle";
+export const AUDIT_BUNDLE_VERSION = 1;
+
+// An entry as written to a bundle: the stored fields with dates as strings,
+// plus the hash and whatever details the export adds
+export type BundleEntry = Omit<ChainedEntry, "changedAt"> & {
+  id: string;
+  hash: string | null;
+  changedAt: string;
+};
+
+export interface AuditBundleHeader {
+  format: typeof AUDIT_BUNDLE_FORMAT;
+  version: typeof AUDIT_BUNDLE_VERSION;
+  createdAt: string;
+  createdBy: { id: string; name: string; email: string } | null;
+  // "export" for downloads, "retention" for archives of pruned entries
+  reason: "export" | "retention";
+  filters: Record<string, unknown>;
+}
+
+export interface AuditBundleSummary {
+  entryCount: number;
+  // SHA-256 over every entry's canonical JSON followed by a newline
+  entriesDigest: string;
+  firstSequence: number | null;
+  lastSequence: number | null;
+}
+
+export interface AuditBundleSignature {
+  algorithm: "ed25519";
+  keyId: string;
+  publicKey: string;
+  value: string;
+}
+
+export interface AuditBundle extends AuditBundleHeader {
+  entries: BundleEntry[];
+  summary: AuditBundleSummary;
+  signature: AuditBundleSignature | null;
+}
+
+/** Keeps the running digest and summary of the entries written to a bundle. */
+export function createBundleDigest() {
+  const hash = createHash("sha256");
+  let entryCount = 0;
+  let firstSequence: number | null = null;
+  let lastSequence: number | null = null;
+
+  return {
+    add(entry: BundleEntry) {
+      hash.update(`${stableStringify(entry)}\n`);
+      entryCount++;
+      if (entry.sequence !== null) {
+        firstSequence ??= entry.sequence;
+        lastSequence = entry.sequence;
+      }
+    },
+    summary(): AuditBundleSummary {
+      return {
+        entryCount,
+        entriesDigest: hash.digest("hex"),
+        firstSequence,
+        lastSequence,
+      };
+    },
+  };
+}
+
+/**
+ * What a bundle's signature covers: everything but the entries themselves,
+ * which are covered through the digest in the summary.
+ */
+export function signedBundleContent(
+  header: AuditBundleHeader,
+  summary: AuditBundleSummary
+) {
+  return stableStringify({
+    format: header.format,
+    version: header.version,
+    createdAt: header.createdAt,
+    createdBy: header.createdBy,
+    reason: header.reason,
+    filters: header.filters,
+    summary,
+  });
+}
+
+/** A short fingerprint of a public key, to tell signing keys apart. */
+export function signingKeyId(publicKey: KeyObject) {
+  return createHash("sha256")
+    .update(publicKey.export({ type: "spki", format: "der" }))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Checks a bundle without the database: that its entries match the signed
+ * digest, that the signature is valid, and that every chained entry still
+ * matches its hash and links to the entry before it where both are present.
+ * Pass the public key published by the server (`GET /api/audit/signing-key`)
+ * to also check who signed it; the key embedded in the bundle only proves
+ * the bundle wasn't changed after signing.
+ */
+export function verifyAuditBundle(
+  bundle: AuditBundle,
+  trustedPublicKey?: string
+) {
+  const issues: string[] = [];
+
+  if (
+    bundle.format !== AUDIT_BUNDLE_FORMAT ||
+    bundle.version !== AUDIT_BUNDLE_VERSION
+  ) {
+    return {
+      valid: false,
+      entryCount: 0,
+      signed: false,
+      keyId: null,
+      issues: ["Not a version 1 audit bundle"],
+    };
+  }
+
+  const digest = createBundleDigest();
+  bundle.entries.forEach((entry) => digest.add(entry));
+  const summary = digest.summary();
+  if (
+    summary.entriesDigest !== bundle.summary.entriesDigest ||
+    summary.entryCount !== bundle.summary.entryCount
+  ) {
+    issues.push("The entries don't match the bundle's summary");
+  }
+
+  const { signature } = bundle;
+  if (!signature) {
+    issues.push("The bundle isn't signed");
+  } else {
+    const publicKey = createPublicKey(signature.publicKey);
+    const content = signedBundleContent(bundle, bundle.summary);
+    if (
+      !verify(
+        null,
+        Buffer.from(content),
+        publicKey,
+        Buffer.from(signature.value, "base64")
+      )
+    ) {
+      issues.push("The signature doesn't match the bundle");
+    }
+    const trustedKey = trustedPublicKey && createPublicKey(trustedPublicKey);
+    if (trustedKey && signingKeyId(trustedKey) !== signingKeyId(publicKey)) {
+      issues.push("The bundle was signed with a different key");
+    }
+  }
+
+  let previous: BundleEntry | null = null;
+  for (const entry of bundle.entries) {
+    if (entry.sequence === null) continue;
+
+    const hash = hashAuditEntry({
+      ...entry,
+      changedAt: new Date(entry.changedAt),
+    });
+    if (hash !== entry.hash) {
+      issues.push(`Entry ${entry.sequence} doesn't match its hash`);
+    }
+    if (
+      previous?.sequence === entry.sequence - 1 &&
+      entry.previousHash !== previous.hash
+    ) {
+      issues.push(
+        `Entry ${entry.sequence} doesn't link to the entry before it`
+      );
+    }
+    previous = entry;
+  }
+
+  return {
+    valid: issues.length === 0,
+    entryCount: bundle.entries.length,
+    signed: !!signature,
+    keyId: signature?.keyId ?? null,
+    issues,
+  };
+}
@@ -0,0 +1,293 @@
+import {
+  createPrivateKey,
+  createPublicKey,
+  sign,
+  type KeyObject,
+} from "crypto";
+import { Prisma } from "@prisma/client";
+import Papa from "papaparse";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import {
+  AUDIT_BUNDLE_FORMAT,
+  AUDIT_BUNDLE_VERSION,
+  createBundleDigest,
+  signedBundleContent,
+  signingKeyId,
+  type AuditBundleHeader,
+  type AuditBundleSignature,
+  type AuditBundleSummary,
+  type BundleEntry,
+} from "@/lib/audit-chain";
+import { SPREADSHEET_FORMULA_PATTERN } from "@/lib/utils";
+
+export const auditExportFormats = ["csv", "ndjson", "bundle"] as const;
+
+export type AuditExportFormat = (typeof auditExportFormats)[number];
+
+export const auditFiltersSchema = z.object({
+  processId: z.string().min(1).optional(),
+  userId: z.string().min(1).optional(),
+  action: z.string().min(1).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
+export type AuditFilters = z.infer<typeof auditFiltersSchema>;
+
+export function auditLogWhere({
+  processId,
+  userId,
+  action,
+  startDate,
+  endDate,
+}: AuditFilters): Prisma.AuditLogWhereInput {
+  return {
+    processInstanceId: processId,
+    changedById: userId,
+    action,
+    changedAt:
+      startDate || endDate ? { gte: startDate, lte: endDate } : undefined,
+  };
+}
+
+export const auditExportSelect = {
+  id: true,
+  sequence: true,
+  previousHash: true,
+  hash: true,
+  processInstanceId: true,
+  action: true,
+  changedById: true,
+  apiTokenId: true,
+  changedAt: true,
+  previousValue: true,
+  newValue: true,
+  notes: true,
+  changedBy: { select: { name: true, email: true } },
+  processInstance: {
+    select: { workflowTemplate: { select: { name: true } } },
+  },
+} satisfies Prisma.AuditLogSelect;
+
+export type ExportedAuditLog = Prisma.AuditLogGetPayload<{
+  select: typeof auditExportSelect;
+}>;
+
+const EXPORT_BATCH_SIZE = 1000;
+
+let signingKey: KeyObject | null | undefined;
+
+/**
+ * The Ed25519 private key bundles are signed with, from `AUDIT_SIGNING_KEY`
+ * (PEM; `\n` escapes are allowed so it fits on one line). Null when unset.
+ */
+export function getAuditSigningKey() {
+  if (signingKey === undefined) {
+    const pem = process.env.AUDIT_SIGNING_KEY;
+    signingKey = pem ? createPrivateKey(pem.replace(/\\n/g, "\n")) : null;
+    if (signingKey && signingKey.asymmetricKeyType !== "ed25519") {
+      throw new Error("AUDIT_SIGNING_KEY must be an Ed25519 private key");
+    }
+  }
+  return signingKey;
+}
+
+/** The public half of the signing key, for checking bundles offline. */
+export function getAuditSigningPublicKey() {
+  const privateKey = getAuditSigningKey();
+  if (!privateKey) return null;
+
+  const publicKey = createPublicKey(privateKey);
+  return {
+    algorithm: "ed25519" as const,
+    keyId: signingKeyId(publicKey),
+    publicKey: publicKey.export({ type: "spki", format: "pem" }).toString(),
+  };
+}
+
+function signBundle(
+  header: AuditBundleHeader,
+  summary: AuditBundleSummary
+): AuditBundleSignature | null {
+  const privateKey = getAuditSigningKey();
+  const publicKey = getAuditSigningPublicKey();
+  if (!privateKey || !publicKey) return null;
+
+  const content = signedBundleContent(header, summary);
+  return {
+    ...publicKey,
+    value: sign(null, Buffer.from(content), privateKey).toString("base64"),
+  };
+}
+
+// Dates become strings, as they will be when the export is read back
+function toBundleEntry(entry: ExportedAuditLog): BundleEntry {
+  return JSON.parse(JSON.stringify(entry));
+}
+
+function jsonCell(value: unknown) {
+  return value === null || value === undefined ? "" : JSON.stringify(value);
+}
+
+const csvColumns = [
+  "Sequence",
+  "Timestamp",
+  "Action",
+  "User",
+  "User Email",
+  "API Token",
+  "Process ID",
+  "Workflow",
+  "Notes",
+  "Previous Value",
+  "New Value",
+  "Entry ID",
+  "Hash",
+];
+
+function toCsvRow(entry: ExportedAuditLog) {
+  return [
+    entry.sequence ?? "",
+    entry.changedAt.toISOString(),
+    entry.action,
+    entry.changedBy?.name ?? "System",
+    entry.changedBy?.email ?? "",
+    entry.apiTokenId ?? "",
+    entry.processInstanceId ?? "",
+    entry.processInstance?.workflowTemplate.name ?? "",
+    entry.notes ?? "",
+    jsonCell(entry.previousValue),
+    jsonCell(entry.newValue),
+    entry.id,
+    entry.hash ?? "",
+  ];
+}
+
+// Turns batches of entries into the text of an export. Bundles are JSON
+// documents whose summary and signature follow the entries, so they can be
+// written as the entries are read.
+interface ExportWriter {
+  start(): string;
+  batch(entries: ExportedAuditLog[]): string;
+  end(): string;
+}
+
+function createCsvWriter(): ExportWriter {
+  return {
+    start: () => `${Papa.unparse([csvColumns])}\r\n`,
+    // Notes and values include user input, so formulas in them are escaped
+    batch: (entries) =>
+      `${Papa.unparse(entries.map(toCsvRow), {
+        escapeFormulae: SPREADSHEET_FORMULA_PATTERN,
+      })}\r\n`,
+    end: () => "",
+  };
+}
+
+function createNdjsonWriter(): ExportWriter {
+  return {
+    start: () => "",
+    batch: (entries) =>
+      entries
+        .map((entry) => `${JSON.stringify(toBundleEntry(entry))}\n`)
+        .join(""),
+    end: () => "",
+  };
+}
+
+export function createBundleWriter(
+  header: Omit<AuditBundleHeader, "format" | "version" | "createdAt">
+): ExportWriter {
+  // Normalized like the entries, so the signed header reads back the same
+  const fullHeader: AuditBundleHeader = JSON.parse(
+    JSON.stringify({
+      format: AUDIT_BUNDLE_FORMAT,
+      version: AUDIT_BUNDLE_VERSION,
+      createdAt: new Date().toISOString(),
+      ...header,
+    })
+  );
+  const digest = createBundleDigest();
+  let first = true;
+
+  return {
+    start: () => `${JSON.stringify(fullHeader).slice(0, -1)},"entries":[`,
+    batch(entries) {
+      return entries
+        .map((entry) => {
+          const bundleEntry = toBundleEntry(entry);
+          digest.add(bundleEntry);
+          const separator = first ? "\n" : ",\n";
+          first = false;
+          return `${separator}${JSON.stringify(bundleEntry)}`;
+        })
+        .join("");
+    },
+    end() {
+      const summary = digest.summary();
+      const signature = signBundle(fullHeader, summary);
+      return `\n],"summary":${JSON.stringify(summary)},"signature":${
+        JSON.stringify(signature)
+      }}\n`;
+    },
+  };
+}
+
+export function createExportWriter(
+  format: AuditExportFormat,
+  bundleHeader: Omit<AuditBundleHeader, "format" | "version" | "createdAt">
+) {
+  switch (format) {
+    case "csv":
+      return createCsvWriter();
+    case "ndjson":
+      return createNdjsonWriter();
+    case "bundle":
+      return createBundleWriter(bundleHeader);
+  }
+}
+
+/**
+ * Streams the entries matching `where`, oldest first, a batch at a time, so
+ * exports of any size run in constant memory.
+ */
+export function streamAuditExport(
+  where: Prisma.AuditLogWhereInput,
+  writer: ExportWriter
+) {
+  const encoder = new TextEncoder();
+  let cursor: string | null = null;
+  let started = false;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        if (!started) {
+          started = true;
+          controller.enqueue(encoder.encode(writer.start()));
+          return;
+        }
+
+        const entries: ExportedAuditLog[] = await db.auditLog.findMany({
+          where,
+          select: auditExportSelect,
+          orderBy: [{ changedAt: "asc" }, { id: "asc" }],
+          take: EXPORT_BATCH_SIZE,
+          ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+        });
+        if (entries.length === 0) {
+          controller.enqueue(encoder.encode(writer.end()));
+          controller.close();
+          return;
+        }
+
+        cursor = entries[entries.length - 1].id;
+        controller.enqueue(encoder.encode(writer.batch(entries)));
+      } catch (error) {
+        console.error("Failed to export audit log:", error);
+        controller.error(error);
+      }
+    },
+  });
+}
@@ -0,0 +1,121 @@
+import { randomUUID } from "crypto";
+import { startOfMonth, subMonths } from "date-fns";
+import { db } from "@/lib/db";
+import { getStorage } from "@/lib/storage";
+import { createAuditLog } from "@/lib/audit";
+import {
+  auditExportSelect,
+  createBundleWriter,
+  type ExportedAuditLog,
+} from "@/lib/audit-export";
+
+// Entries per archive file
+const ARCHIVE_BATCH_SIZE = 10_000;
+
+/**
+ * Entries from before this are archived, or null to keep every entry. With
+ * `AUDIT_RETENTION_MONTHS` set, whole calendar months are kept, so entries
+ * are archived once a month rather than on every scheduler run.
+ */
+export function auditRetentionCutoff(now = new Date()) {
+  const months = Number(process.env.AUDIT_RETENTION_MONTHS);
+  if (!months || months < 1) return null;
+  return startOfMonth(subMonths(now, months));
+}
+
+/**
+ * Moves audit entries older than the retention period to signed bundles in
+ * file storage and deletes them from the database. Each archive is recorded
+ * in the audit log in the same transaction as the deletion.
+ */
+export async function archiveExpiredAuditLogs(now = new Date()) {
+  const cutoff = auditRetentionCutoff(now);
+  if (!cutoff) return;
+
+  while (await archiveBatch(cutoff)) {
+    // Keep going until everything before the cutoff is archived
+  }
+}
+
+async function archiveBatch(cutoff: Date) {
+  // Chained entries are archived by sequence number, so what's left in the
+  // database is always an unbroken chain; clock differences between servers
+  // can put an entry just past the cutoff before an earlier one
+  const newest = await db.auditLog.findFirst({
+    where: { sequence: { not: null }, changedAt: { lt: cutoff } },
+    orderBy: { sequence: "desc" },
+    select: { sequence: true },
+  });
+
+  const entries: ExportedAuditLog[] = await db.auditLog.findMany({
+    where: {
+      OR: [
+        { sequence: null, changedAt: { lt: cutoff } },
+        ...(newest ? [{ sequence: { lte: newest.sequence! } }] : []),
+      ],
+    },
+    select: auditExportSelect,
+    orderBy: [
+      { sequence: { sort: "asc", nulls: "first" } },
+      { changedAt: "asc" },
+      { id: "asc" },
+    ],
+    take: ARCHIVE_BATCH_SIZE,
+  });
+  if (entries.length === 0) return false;
+
+  const writer = createBundleWriter({
+    createdBy: null,
+    reason: "retention",
+    filters: { before: cutoff },
+  });
+  const content = writer.start() + writer.batch(entries) + writer.end();
+  const { summary, signature } = JSON.parse(content);
+
+  const storageKey = `audit-archives/${randomUUID()}.json`;
+  await getStorage().put(
+    storageKey,
+    Buffer.from(content),
+    "application/json"
+  );
+
+  const chained = entries.filter((entry) => entry.sequence !== null);
+  const last = chained[chained.length - 1];
+  const changedAt = entries.map((entry) => entry.changedAt.getTime());
+  const data = {
+    storageKey,
+    entryCount: entries.length,
+    firstChangedAt: new Date(Math.min(...changedAt)),
+    lastChangedAt: new Date(Math.max(...changedAt)),
+    fromSequence: chained[0]?.sequence ?? null,
+    toSequence: last?.sequence ?? null,
+    lastHash: last?.hash ?? null,
+    entriesDigest: summary.entriesDigest as string,
+    signed: !!signature,
+  };
+
+  try {
+    await db.$transaction(async (tx) => {
+      // Recorded before the deletion, so the entry chains on to the newest
+      // entry even when that one is being archived
+      const archive = await tx.auditArchive.create({ data });
+      await createAuditLog(tx, {
+        action: "AUDIT_LOG_ARCHIVED",
+        newValue: { archiveId: archive.id, ...data },
+        notes: `Archived ${entries.length} audit entries from before ${cutoff.toISOString()}`,
+      });
+
+      const deleted = await tx.auditLog.deleteMany({
+        where: { id: { in: entries.map((entry) => entry.id) } },
+      });
+      if (deleted.count !== entries.length) {
+        throw new Error("Audit entries were archived by another server");
+      }
+    });
+  } catch (error) {
+    await getStorage().delete(storageKey);
+    throw error;
+  }
+
+  return true;
+}
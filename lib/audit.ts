@@ -1,35 +1,197 @@
+import { Prisma } from "@prisma/client";
 import { db } from "@/lib/db";
+import { hashAuditEntry, type ChainedEntry } from "@/lib/audit-chain";
+
+type Tx = Prisma.TransactionClient;
 
 interface CreateAuditLogParams {
   processInstanceId?: string;
   action: string;
-  changedById: string;
+  // Omitted for actions taken by the system
+  changedById?: string;
+  // The personal API token the action was taken with
+  apiTokenId?: string;
   previousValue?: unknown;
   newValue?: unknown;
   notes?: string;
 }
 
-export async function createAuditLog({
-  processInstanceId,
-  action,
-  changedById,
-  previousValue,
-  newValue,
-  notes,
-}: CreateAuditLogParams) {
-  try {
-    return await db.auditLog.create({
-      data: {
-        processInstanceId,
-        action,
-        changedById,
-        previousValue: previousValue as object,
-        newValue: newValue as object,
-        notes,
+// Serializes appends to the chain across transactions and servers
+const CHAIN_LOCK_KEY = 4_207_391;
+
+// Values as they read back from a JSON column: dates become strings and
+// undefined properties disappear
+function toJsonValue(value: unknown) {
+  return value === undefined ? null : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Appends an entry to the audit log. Pass the transaction that makes the
+ * change being recorded, so the change and its entry are committed together;
+ * errors are thrown and roll both back. Entries are appended to the hash
+ * chain one at a time, so concurrent writers wait for each other here.
+ */
+export async function createAuditLog(
+  tx: Tx,
+  {
+    processInstanceId,
+    action,
+    changedById,
+    apiTokenId,
+    previousValue,
+    newValue,
+    notes,
+  }: CreateAuditLogParams
+) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${CHAIN_LOCK_KEY})`;
+
+  const last = await tx.auditLog.findFirst({
+    where: { sequence: { not: null } },
+    orderBy: { sequence: "desc" },
+    select: { sequence: true, hash: true },
+  });
+
+  const entry: ChainedEntry = {
+    sequence: (last?.sequence ?? 0) + 1,
+    previousHash: last?.hash ?? null,
+    processInstanceId: processInstanceId ?? null,
+    action,
+    changedById: changedById ?? null,
+    apiTokenId: apiTokenId ?? null,
+    changedAt: new Date(),
+    previousValue: toJsonValue(previousValue),
+    newValue: toJsonValue(newValue),
+    notes: notes ?? null,
+  };
+
+  return tx.auditLog.create({
+    data: {
+      ...entry,
+      previousValue: entry.previousValue ?? Prisma.DbNull,
+      newValue: entry.newValue ?? Prisma.DbNull,
+      hash: hashAuditEntry(entry),
+    },
+  });
+}
+
+export interface AuditChainIssue {
+  type: "gap" | "broken_link" | "tampered" | "unchained";
+  sequence: number | null;
+  id: string | null;
+  message: string;
+}
+
+const VERIFY_BATCH_SIZE = 1000;
+const MAX_ISSUES = 100;
+
+/**
+ * Walks the audit log's hash chain and reports every place it doesn't hold:
+ * entries whose contents no longer match their hash, links to a previous
+ * entry that doesn't match, and gaps in the numbering left by deleted
+ * entries. Entries written after the chain started without being part of it
+ * are reported too. Deleting the newest entries leaves no gap, so compare
+ * the returned head with one recorded earlier to catch that. Entries moved
+ * to an archive by the retention policy are checked when the archive is;
+ * the chain here picks up where the latest archive ends.
+ */
+export async function verifyAuditChain() {
+  const issues: AuditChainIssue[] = [];
+  const report = (issue: AuditChainIssue) => {
+    if (issues.length < MAX_ISSUES) issues.push(issue);
+  };
+
+  const archive = await db.auditArchive.findFirst({
+    where: { toSequence: { not: null } },
+    orderBy: { toSequence: "desc" },
+  });
+
+  let checked = 0;
+  let previous: { sequence: number; hash: string | null } | null = archive
+    ? { sequence: archive.toSequence!, hash: archive.lastHash }
+    : null;
+  let firstChainedAt: Date | null = null;
+
+  for (;;) {
+    const entries: Array<
+      ChainedEntry & { id: string; hash: string | null }
+    > = await db.auditLog.findMany({
+      where: {
+        sequence: previous ? { gt: previous.sequence } : { not: null },
       },
+      orderBy: { sequence: "asc" },
+      take: VERIFY_BATCH_SIZE,
+    });
+    if (entries.length === 0) break;
+
+    for (const entry of entries) {
+      const sequence = entry.sequence!;
+      firstChainedAt ??= entry.changedAt;
+      checked++;
+
+      const expected: number = previous ? previous.sequence + 1 : 1;
+      if (sequence !== expected) {
+        report({
+          type: "gap",
+          sequence,
+          id: entry.id,
+          message:
+            sequence - expected === 1
+              ? `Entry ${expected} is missing`
+              : `Entries ${expected} to ${sequence - 1} are missing`,
+        });
+      } else if (entry.previousHash !== (previous?.hash ?? null)) {
+        report({
+          type: "broken_link",
+          sequence,
+          id: entry.id,
+          message: `Entry ${sequence} doesn't link to the entry before it`,
+        });
+      }
+
+      if (hashAuditEntry(entry) !== entry.hash) {
+        report({
+          type: "tampered",
+          sequence,
+          id: entry.id,
+          message: `Entry ${sequence} was changed after it was written`,
+        });
+      }
+
+      previous = { sequence, hash: entry.hash };
+    }
+  }
+
+  // Entries from before the chain was introduced are expected; later ones
+  // were added around it
+  if (firstChainedAt) {
+    const unchained = await db.auditLog.findMany({
+      where: { sequence: null, changedAt: { gte: firstChainedAt } },
+      select: { id: true },
+      take: MAX_ISSUES,
     });
-  } catch (error) {
-    console.error("Failed to create audit log:", error);
-    // Don't throw - audit logging should not break main functionality
+    for (const entry of unchained) {
+      report({
+        type: "unchained",
+        sequence: null,
+        id: entry.id,
+        message: "Entry was written outside the hash chain",
+      });
+    }
   }
+
+  const legacyEntries = await db.auditLog.count({
+    where: {
+      sequence: null,
+      ...(firstChainedAt ? { changedAt: { lt: firstChainedAt } } : {}),
+    },
+  });
+
+  return {
+    valid: issues.length === 0,
+    checked,
+    legacyEntries,
+    archivedThrough: archive?.toSequence ?? null,
+    head: previous,
+    issues,
+  };
 }
@@ -1,8 +1,9 @@
 import NextAuth from "next-auth";
 import Credentials from "next-auth/providers/credentials";
-import { PrismaAdapter } from "@auth/prisma-adapter";
 import bcrypt from "bcryptjs";
 import { db } from "@/lib/db";
+import { getSsoProviders, provisionSsoUser } from "@/lib/sso";
+import { getAppSettings } from "@/lib/settings";
 import { z } from "zod";
 
 const loginSchema = z.object({
@@ -10,55 +11,105 @@ const loginSchema = z.object({
   password: z.string().min(1),
 });
 
-export const { handlers, signIn, signOut, auth } = NextAuth({
-  adapter: PrismaAdapter(db) as never,
-  session: { strategy: "jwt" },
-  pages: {
-    signIn: "/auth/signin",
+const credentials = Credentials({
+  name: "credentials",
+  credentials: {
+    email: { label: "Email", type: "email" },
+    password: { label: "Password", type: "password" },
   },
-  providers: [
-    Credentials({
-      name: "credentials",
-      credentials: {
-        email: { label: "Email", type: "email" },
-        password: { label: "Password", type: "password" },
-      },
-      async authorize(credentials) {
-        const result = loginSchema.safeParse(credentials);
-        if (!result.success) {
-          return null;
-        }
+  async authorize(credentials) {
+    const result = loginSchema.safeParse(credentials);
+    if (!result.success) {
+      return null;
+    }
 
-        const { email, password } = result.data;
+    // Admins can turn password sign-in off and leave only single sign-on
+    const { passwordLoginEnabled } = await getAppSettings();
+    if (!passwordLoginEnabled) {
+      return null;
+    }
 
-        const user = await db.user.findUnique({
-          where: { email },
-        });
+    const { email, password } = result.data;
 
-        if (!user) {
-          return null;
-        }
+    const user = await db.user.findUnique({
+      where: { email },
+    });
 
-        const passwordMatch = await bcrypt.compare(password, user.passwordHash);
-        if (!passwordMatch) {
-          return null;
-        }
+    // Deactivated accounts are refused without revealing whether the
+    // password was right
+    if (!user || !user.isActive) {
+      return null;
+    }
+
+    const passwordMatch = await bcrypt.compare(password, user.passwordHash);
+    if (!passwordMatch) {
+      return null;
+    }
 
-        return {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-        };
-      },
-    }),
-  ],
+    return {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+    };
+  },
+});
+
+export const { handlers, signIn, signOut, auth } = NextAuth({
+  session: { strategy: "jwt" },
+  pages: {
+    signIn: "/auth/signin",
+  },
+  providers: [credentials, ...getSsoProviders()],
   callbacks: {
-    async jwt({ token, user }) {
+    async signIn({ user, account, profile }) {
+      if (!account || account.provider === "credentials") {
+        return true;
+      }
+
+      const dbUser = await provisionSsoUser(
+        account.provider,
+        user,
+        (profile ?? {}) as Record<string, unknown>
+      );
+      if (!dbUser) {
+        return false;
+      }
+
+      // Swap the identity provider's user for ours. Without a database
+      // adapter this same object is handed on to the jwt callback.
+      Object.assign(user, {
+        id: dbUser.id,
+        name: dbUser.name,
+        email: dbUser.email,
+        role: dbUser.role,
+      });
+      return true;
+    },
+    async jwt({ token, user, trigger, session }) {
       if (user) {
         token.id = user.id;
         token.role = (user as { role: string }).role;
       }
+      // Users can change their own name from their profile
+      if (trigger === "update" && typeof session?.name === "string") {
+        token.name = session.name;
+      }
+
+      // Role and active status are read again on every request, like they
+      // are for API tokens, so deactivating or demoting a user takes effect
+      // straight away. Middleware runs on the edge without a database and
+      // only checks that someone is signed in.
+      if (process.env.NEXT_RUNTIME !== "edge") {
+        const dbUser = await db.user.findUnique({
+          where: { id: token.id as string },
+          select: { role: true, isActive: true },
+        });
+        if (!dbUser?.isActive) {
+          return null;
+        }
+        token.role = dbUser.role;
+      }
       return token;
     },
     async session({ session, token }) {
@@ -0,0 +1,190 @@
+import { format } from "date-fns";
+import { appUrl } from "@/lib/utils";
+import type {
+  ChannelNotification,
+  NotificationEvent,
+  Recipient,
+} from "./index";
+
+interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const templates: Record<
+  NotificationEvent,
+  { subject: (title: string) => string; action: string }
+> = {
+  request_submitted: {
+    subject: (name) => `Request submitted: ${name}`,
+    action: "View request",
+  },
+  approval_requested: {
+    subject: (name) => `Approval needed: ${name}`,
+    action: "Review request",
+  },
+  approval_reminder: {
+    subject: (name) => `Reminder: ${name} is waiting for your approval`,
+    action: "Review request",
+  },
+  request_approved: {
+    subject: (name) => `Approved: ${name}`,
+    action: "View request",
+  },
+  request_rejected: {
+    subject: (name) => `Rejected: ${name}`,
+    action: "View request",
+  },
+  changes_requested: {
+    subject: (name) => `Changes requested: ${name}`,
+    action: "Update request",
+  },
+  request_completed: {
+    subject: (name) => `Completed: ${name}`,
+    action: "View request",
+  },
+  report_ready: {
+    subject: (name) => `Report ready: ${name}`,
+    action: "Download report",
+  },
+};
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function layout(recipient: Recipient, body: string) {
+  const preferencesUrl = appUrl("/profile");
+  return `<!DOCTYPE html>
+<html>
+  <body style="margin:0;padding:24px;background:#f4f4f5;font-family:-apple-system,'Segoe UI',Roboto,sans-serif;color:#18181b">
+    <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+      <p style="margin:0 0 16px">Hi ${escapeHtml(recipient.name)},</p>
+      ${body}
+    </div>
+    <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#71717a">
+      You can change which emails you get in your
+      <a href="${preferencesUrl}" style="color:#71717a">profile</a>.
+    </p>
+  </body>
+</html>`;
+}
+
+function button(url: string, label: string, primary = true) {
+  const colors = primary
+    ? "background:#18181b;color:#ffffff"
+    : "background:#ffffff;color:#18181b;border:1px solid #d4d4d8";
+  return `<a href="${escapeHtml(url)}" style="display:inline-block;margin:0 8px 8px 0;padding:8px 16px;${colors};border-radius:6px;text-decoration:none">${escapeHtml(label)}</a>`;
+}
+
+function actionLinks(notification: ChannelNotification) {
+  return notification.actions
+    .map(
+      (action) =>
+        `<a href="${escapeHtml(action.url)}" style="color:#18181b">${escapeHtml(action.label)}</a>`
+    )
+    .join(" · ");
+}
+
+const textFooter = () =>
+  `You can change which emails you get in your profile: ${appUrl("/profile")}`;
+
+/** The email for a single notification, picked by its event. */
+export function renderNotificationEmail(
+  recipient: Recipient,
+  notification: ChannelNotification
+): EmailContent {
+  const template = templates[notification.event];
+  const subject = template.subject(notification.title ?? "Process Ninja");
+
+  const text = [
+    `Hi ${recipient.name},`,
+    "",
+    notification.message,
+    ...(notification.actions.length > 0
+      ? [
+          "",
+          ...notification.actions.map((a) => `${a.label}: ${a.url}`),
+          "",
+          "Each link can be used once and lets you add a comment first.",
+        ]
+      : []),
+    ...(notification.url ? ["", `${template.action}: ${notification.url}`] : []),
+    "",
+    textFooter(),
+  ].join("\n");
+
+  // Approvers can decide straight from the email; the request itself is a
+  // secondary link then
+  const buttons = [
+    ...notification.actions.map((a) => button(a.url, a.label)),
+    notification.url
+      ? button(
+          notification.url,
+          template.action,
+          notification.actions.length === 0
+        )
+      : "",
+  ].join("");
+  const html = layout(
+    recipient,
+    `<p style="margin:0 0 24px">${escapeHtml(notification.message)}</p>
+      <div>${buttons}</div>`
+  );
+
+  return { subject, text, html };
+}
+
+/** One email listing the notifications collected for a daily digest. */
+export function renderDigestEmail(
+  recipient: Recipient,
+  notifications: ChannelNotification[]
+): EmailContent {
+  const count = notifications.length;
+  const subject = `Your daily summary: ${count} ${
+    count === 1 ? "notification" : "notifications"
+  }`;
+
+  const text = [
+    `Hi ${recipient.name},`,
+    "",
+    "Here is what happened since your last summary:",
+    "",
+    ...notifications.map(
+      (n) =>
+        `- ${format(n.createdAt, "PPp")}: ${n.message}${
+          n.url ? `\n  ${n.url}` : ""
+        }${n.actions.map((a) => `\n  ${a.label}: ${a.url}`).join("")}`
+    ),
+    "",
+    textFooter(),
+  ].join("\n");
+
+  const items = notifications
+    .map(
+      (n) => `<li style="margin:0 0 12px">
+          <span style="font-size:12px;color:#71717a">${escapeHtml(
+            format(n.createdAt, "PPp")
+          )}</span><br />
+          ${
+            n.url
+              ? `<a href="${escapeHtml(n.url)}" style="color:#18181b">${escapeHtml(n.message)}</a>`
+              : escapeHtml(n.message)
+          }
+          ${n.actions.length > 0 ? `<br /><span style="font-size:13px">${actionLinks(n)}</span>` : ""}
+        </li>`
+    )
+    .join("\n");
+  const html = layout(
+    recipient,
+    `<p style="margin:0 0 16px">Here is what happened since your last summary:</p>
+      <ul style="margin:0;padding-left:20px">${items}</ul>`
+  );
+
+  return { subject, text, html };
+}
@@ -0,0 +1,50 @@
+import nodemailer from "nodemailer";
+import type { NotificationChannel } from "./index";
+import { renderDigestEmail, renderNotificationEmail } from "./email-templates";
+
+interface EmailChannelOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/** Sends notifications by email through an SMTP server. */
+export function createEmailChannel(
+  options: EmailChannelOptions
+): NotificationChannel {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user
+      ? { user: options.user, pass: options.password }
+      : undefined,
+  });
+
+  return {
+    name: "Email",
+    defaults: {
+      ACTION_REQUIRED: "IMMEDIATE",
+      UPDATE: "IMMEDIATE",
+      INFO: "OFF",
+      REPORT: "IMMEDIATE",
+    },
+    async send(recipient, notification) {
+      await transport.sendMail({
+        from: options.from,
+        to: { name: recipient.name, address: recipient.email },
+        ...renderNotificationEmail(recipient, notification),
+      });
+    },
+    async sendDigest(recipient, notifications) {
+      await transport.sendMail({
+        from: options.from,
+        to: { name: recipient.name, address: recipient.email },
+        ...renderDigestEmail(recipient, notifications),
+      });
+    },
+  };
+}
@@ -0,0 +1,248 @@
+import type { DeliveryMode, NotificationType } from "@prisma/client";
+import { db } from "@/lib/db";
+import { appUrl } from "@/lib/utils";
+import { getNotificationActionLinks } from "@/lib/action-links";
+import { createEmailChannel } from "./email";
+
+// What a notification is about, so channels can pick a matching template
+export type NotificationEvent =
+  | "request_submitted"
+  | "approval_requested"
+  | "approval_reminder"
+  | "request_approved"
+  | "request_rejected"
+  | "changes_requested"
+  | "request_completed"
+  | "report_ready";
+
+export const notificationTypes: Record<NotificationType, string> = {
+  ACTION_REQUIRED: "Approvals waiting for you and requests sent back to you",
+  UPDATE: "Your requests being approved or completed",
+  INFO: "Confirmations, such as a request being submitted",
+  REPORT: "Scheduled reports you receive",
+};
+
+export interface Recipient {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface ChannelNotification {
+  event: NotificationEvent;
+  message: string;
+  // The workflow or report the notification is about, for subjects
+  title: string | null;
+  // Link to the process the notification is about, or the report's file
+  url: string | null;
+  // Signed links for deciding the approval step without signing in
+  actions: Array<{ label: string; url: string }>;
+  createdAt: Date;
+}
+
+/**
+ * A way of sending notifications to users besides the in-app list, such as
+ * email. Users choose per notification type whether a channel sends them
+ * straight away, in a daily digest, or not at all.
+ */
+export interface NotificationChannel {
+  name: string;
+  // The delivery mode for users who haven't set a preference
+  defaults: Record<NotificationType, DeliveryMode>;
+  send(recipient: Recipient, notification: ChannelNotification): Promise<void>;
+  sendDigest(
+    recipient: Recipient,
+    notifications: ChannelNotification[]
+  ): Promise<void>;
+}
+
+let channels: Record<string, NotificationChannel> | undefined;
+
+function createChannels() {
+  const channels: Record<string, NotificationChannel> = {};
+  if (process.env.SMTP_HOST) {
+    channels.email = createEmailChannel({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === "true",
+      user: process.env.SMTP_USER || undefined,
+      password: process.env.SMTP_PASSWORD || undefined,
+      from: process.env.EMAIL_FROM || "Process Ninja <noreply@localhost>",
+    });
+  }
+  return channels;
+}
+
+/** The channels configured through the environment, by id. */
+export function getChannels() {
+  channels ??= createChannels();
+  return channels;
+}
+
+/**
+ * Each configured channel's delivery mode for every notification type, with
+ * the user's preferences applied over the channel defaults.
+ */
+export async function getDeliveryModes(userId: string) {
+  const preferences = await db.notificationPreference.findMany({
+    where: { userId },
+  });
+
+  return Object.entries(getChannels()).map(([id, channel]) => ({
+    id,
+    name: channel.name,
+    modes: Object.fromEntries(
+      (Object.keys(notificationTypes) as NotificationType[]).map((type) => [
+        type,
+        preferences.find((p) => p.channel === id && p.type === type)?.mode ??
+          channel.defaults[type],
+      ])
+    ) as Record<NotificationType, DeliveryMode>,
+  }));
+}
+
+const notificationInclude = {
+  user: { select: { id: true, name: true, email: true, isActive: true } },
+  processInstance: {
+    select: { id: true, workflowTemplate: { select: { name: true } } },
+  },
+  stepInstance: { select: { id: true, status: true, activatedAt: true } },
+  reportRun: {
+    select: { id: true, savedReport: { select: { name: true } } },
+  },
+} as const;
+
+function toChannelNotification(
+  notification: Parameters<typeof getNotificationActionLinks>[0] & {
+    message: string;
+    createdAt: Date;
+    processInstance: { id: string; workflowTemplate: { name: string } } | null;
+    reportRun: { id: string; savedReport: { name: string } } | null;
+  },
+  event: NotificationEvent
+): ChannelNotification {
+  const { processInstance, reportRun } = notification;
+  return {
+    event,
+    message: notification.message,
+    title:
+      processInstance?.workflowTemplate.name ??
+      reportRun?.savedReport.name ??
+      null,
+    url: processInstance
+      ? appUrl(`/processes/${processInstance.id}`)
+      : reportRun
+        ? appUrl(`/api/reports/runs/${reportRun.id}`)
+        : null,
+    actions: getNotificationActionLinks(notification),
+    createdAt: notification.createdAt,
+  };
+}
+
+/**
+ * Sends a new notification over every channel the user wants it on, or
+ * queues it for their next digest. Never throws.
+ */
+export async function dispatchNotification(
+  notificationId: string,
+  event: NotificationEvent
+) {
+  const configured = Object.entries(getChannels());
+  if (configured.length === 0) return;
+
+  try {
+    const notification = await db.notification.findUniqueOrThrow({
+      where: { id: notificationId },
+      include: notificationInclude,
+    });
+    const { user } = notification;
+    if (!user.isActive) return;
+
+    const channelModes = await getDeliveryModes(user.id);
+    for (const [id, channel] of configured) {
+      const mode = channelModes.find((c) => c.id === id)!.modes[
+        notification.type
+      ];
+      try {
+        if (mode === "IMMEDIATE") {
+          await channel.send(user, toChannelNotification(notification, event));
+        } else if (mode === "DAILY_DIGEST") {
+          await db.notificationDigestEntry.create({
+            data: { notificationId, userId: user.id, channel: id, event },
+          });
+        }
+      } catch (error) {
+        console.error(
+          `Failed to send notification ${notificationId} by ${id}:`,
+          error
+        );
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to dispatch notification ${notificationId}:`, error);
+  }
+}
+
+// The most recent time digests were due, at NOTIFICATION_DIGEST_HOUR
+// (server time) each day
+function lastDigestTime(now: Date) {
+  const hour = Number(process.env.NOTIFICATION_DIGEST_HOUR ?? 8);
+  const time = new Date(now);
+  time.setHours(hour, 0, 0, 0);
+  if (time > now) time.setDate(time.getDate() - 1);
+  return time;
+}
+
+/**
+ * Sends each user one digest per channel with the notifications queued
+ * before the latest digest time. Safe to run from several servers at once:
+ * a user's entries are claimed with a conditional update before they are
+ * sent, and released again if sending fails.
+ */
+export async function sendNotificationDigests(now = new Date()) {
+  const due = {
+    sentAt: null,
+    createdAt: { lt: lastDigestTime(now) },
+  };
+  const pending = await db.notificationDigestEntry.groupBy({
+    by: ["userId", "channel"],
+    where: due,
+  });
+
+  for (const { userId, channel: channelId } of pending) {
+    const claimed = await db.notificationDigestEntry.updateMany({
+      where: { ...due, userId, channel: channelId },
+      data: { sentAt: now },
+    });
+    if (claimed.count === 0) continue;
+
+    const entries = await db.notificationDigestEntry.findMany({
+      where: { userId, channel: channelId, sentAt: now },
+      include: { notification: { include: notificationInclude } },
+      orderBy: { createdAt: "asc" },
+    });
+    // Dropped when the channel is no longer configured or the user was
+    // deactivated since
+    const channel = getChannels()[channelId];
+    const user = entries[0]?.notification.user;
+    if (!channel || !user?.isActive) continue;
+
+    try {
+      await channel.sendDigest(
+        user,
+        entries.map((entry) =>
+          toChannelNotification(
+            entry.notification,
+            entry.event as NotificationEvent
+          )
+        )
+      );
+    } catch (error) {
+      console.error(`Failed to send ${channelId} digest to ${userId}:`, error);
+      await db.notificationDigestEntry.updateMany({
+        where: { id: { in: entries.map((e) => e.id) } },
+        data: { sentAt: null },
+      });
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import { z } from "zod";
+
+export const conditionOperators = [
+  "equals",
+  "not_equals",
+  "greater_than",
+  "greater_than_or_equal",
+  "less_than",
+  "less_than_or_equal",
+] as const;
+
+export type ConditionOperator = (typeof conditionOperators)[number];
+
+export const operatorLabels: Record<ConditionOperator, string> = {
+  equals: "equals",
+  not_equals: "does not equal",
+  greater_than: "is greater than",
+  greater_than_or_equal: "is at least",
+  less_than: "is less than",
+  less_than_or_equal: "is at most",
+};
+
+// A condition compares one submitted form value, looked up by field name,
+// against a fixed value.
+export const conditionSchema = z.object({
+  field: z.string().min(1),
+  operator: z.enum(conditionOperators),
+  value: z.union([z.string(), z.number(), z.boolean()]),
+});
+
+export type Condition = z.infer<typeof conditionSchema>;
+
+function isEmpty(value: unknown) {
+  return value === undefined || value === null || value === "";
+}
+
+function compareNumbers(actual: unknown, expected: unknown) {
+  if (isEmpty(actual) || isEmpty(expected)) return null;
+  const a = Number(actual);
+  const b = Number(expected);
+  return Number.isNaN(a) || Number.isNaN(b) ? null : a - b;
+}
+
+/**
+ * Evaluates a condition against submitted form values. Used both for step
+ * conditions and for a form field's `conditionalOn`. Equality compares the
+ * text of both values so a condition entered as "5000" matches a number
+ * field; ordering operators only match when both sides are numeric.
+ */
+export function evaluateCondition(
+  condition: { field: string; operator: ConditionOperator; value: unknown },
+  values: Record<string, unknown>
+): boolean {
+  const actual = values[condition.field];
+
+  switch (condition.operator) {
+    case "equals":
+    case "not_equals": {
+      const equal =
+        actual === condition.value ||
+        (!isEmpty(actual) && String(actual) === String(condition.value));
+      return condition.operator === "equals" ? equal : !equal;
+    }
+    default: {
+      const difference = compareNumbers(actual, condition.value);
+      if (difference === null) return false;
+      switch (condition.operator) {
+        case "greater_than":
+          return difference > 0;
+        case "greater_than_or_equal":
+          return difference >= 0;
+        case "less_than":
+          return difference < 0;
+        case "less_than_or_equal":
+          return difference <= 0;
+      }
+    }
+  }
+}
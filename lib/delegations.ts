@@ -0,0 +1,26 @@
+import { db } from "@/lib/db";
+
+/**
+ * Maps each of the given users who is currently away to the delegate
+ * covering for them. Only one level is followed: a delegate's own delegation
+ * does not pass the assignment on again.
+ */
+export async function getActiveDelegates(userIds: string[], at = new Date()) {
+  const delegations = await db.delegation.findMany({
+    where: {
+      delegatorId: { in: userIds },
+      startsAt: { lte: at },
+      endsAt: { gte: at },
+      delegate: { isActive: true },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const delegates = new Map<string, string>();
+  for (const delegation of delegations) {
+    if (!delegates.has(delegation.delegatorId)) {
+      delegates.set(delegation.delegatorId, delegation.delegateId);
+    }
+  }
+  return delegates;
+}
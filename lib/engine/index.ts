@@ -0,0 +1,269 @@
+import {
+  Prisma,
+  type DecisionType,
+  type ProcessStatus,
+  type StepStatus,
+} from "@prisma/client";
+import { evaluateQuorum } from "@/lib/quorum";
+import { parseStepConfig, type StepQuorum } from "@/lib/step-config";
+import type { FormValues } from "@/lib/form-validation";
+import { findStepsToReopen, planAdvance } from "./steps";
+import { assertProcessTransition, assertStepTransition } from "./transitions";
+
+export { getActiveStep, planAdvance, type EngineStep } from "./steps";
+export {
+  canTransitionProcess,
+  canTransitionStep,
+  InvalidTransitionError,
+} from "./transitions";
+
+// All engine operations run inside the caller's transaction so the route can
+// combine them with its own writes.
+type Tx = Prisma.TransactionClient;
+
+async function loadProcess(tx: Tx, processInstanceId: string) {
+  return tx.processInstance.findUniqueOrThrow({
+    where: { id: processInstanceId },
+    include: {
+      steps: {
+        include: { workflowStep: true },
+        orderBy: { workflowStep: { stepOrder: "asc" } },
+      },
+    },
+  });
+}
+
+export type EngineProcess = Awaited<ReturnType<typeof loadProcess>>;
+export type ActiveStep = EngineProcess["steps"][number];
+
+async function setProcessStatus(
+  tx: Tx,
+  process: { id: string; status: ProcessStatus },
+  status: ProcessStatus
+) {
+  if (process.status === status) return;
+  assertProcessTransition(process.status, status);
+  await tx.processInstance.update({
+    where: { id: process.id },
+    data: { status },
+  });
+}
+
+async function setStepStatus(
+  tx: Tx,
+  step: { id: string; status: StepStatus },
+  data: Omit<Prisma.ProcessStepInstanceUncheckedUpdateInput, "status"> & {
+    status: StepStatus;
+  }
+) {
+  assertStepTransition(step.status, data.status);
+  await tx.processStepInstance.update({
+    where: { id: step.id },
+    data,
+  });
+}
+
+export interface AdvanceResult {
+  status: ProcessStatus;
+  // The approval step the process now waits on, if any
+  activeStep: ActiveStep | null;
+}
+
+/**
+ * Moves a process forward as far as it can go without anyone acting, and
+ * returns the step it ends up waiting on. Call after every change to a
+ * process's steps or form data.
+ */
+export async function advanceProcess(
+  tx: Tx,
+  processInstanceId: string
+): Promise<AdvanceResult> {
+  const process = await loadProcess(tx, processInstanceId);
+  const plan = planAdvance(
+    process.steps,
+    process.formData as FormValues,
+    process.createdById
+  );
+
+  const now = new Date();
+  for (const update of plan.stepUpdates) {
+    const step = process.steps.find((s) => s.id === update.id)!;
+    await setStepStatus(tx, step, {
+      status: update.status,
+      actedById: update.actedById,
+      actedAt: now,
+    });
+  }
+  await setProcessStatus(tx, process, plan.processStatus);
+
+  // Record when the step the process now waits on became active, and when
+  // it is due if the step has an SLA
+  const { activeStep } = plan;
+  if (activeStep && !activeStep.activatedAt) {
+    const { sla } = parseStepConfig(activeStep.workflowStep.config);
+    const dueAt = sla
+      ? new Date(now.getTime() + sla.dueInHours * 60 * 60 * 1000)
+      : null;
+    await tx.processStepInstance.update({
+      where: { id: activeStep.id },
+      data: { activatedAt: now, dueAt },
+    });
+    Object.assign(activeStep, { activatedAt: now, dueAt });
+  }
+
+  return { status: plan.processStatus, activeStep };
+}
+
+/**
+ * Completes or rejects an approval step once it has been decided, then moves
+ * the process on, ends it, or sends it back to the requester for changes.
+ * `actedById` is null when the system decides the step, e.g. on an SLA
+ * auto-approval.
+ */
+export async function resolveStep(
+  tx: Tx,
+  stepInstanceId: string,
+  outcome: DecisionType,
+  actedById: string | null,
+  comments?: string
+): Promise<AdvanceResult> {
+  const step = await tx.processStepInstance.findUniqueOrThrow({
+    where: { id: stepInstanceId },
+    include: { processInstance: true },
+  });
+
+  const now = new Date();
+  await setStepStatus(tx, step, {
+    status: outcome === "APPROVED" ? "COMPLETED" : "REJECTED",
+    actedById,
+    actedAt: now,
+    comments,
+    // Decided after its deadline but before the scheduler noticed
+    breachedAt:
+      step.breachedAt ?? (step.dueAt && step.dueAt < now ? step.dueAt : null),
+  });
+
+  if (outcome === "APPROVED") {
+    return advanceProcess(tx, step.processInstanceId);
+  }
+
+  const status = outcome === "REJECTED" ? "REJECTED" : "CHANGES_REQUESTED";
+  await setProcessStatus(tx, step.processInstance, status);
+  return { status, activeStep: null };
+}
+
+/**
+ * Sets aside the votes cast on a step so far, e.g. when it is reassigned. They
+ * stay in the step's history but no longer count towards its quorum.
+ */
+export async function supersedeDecisions(tx: Tx, stepInstanceId: string) {
+  await tx.stepDecision.updateMany({
+    where: { stepInstanceId, supersededAt: null },
+    data: { supersededAt: new Date() },
+  });
+}
+
+interface RecordDecisionParams {
+  stepInstanceId: string;
+  approverId: string;
+  // The assignee the approver is standing in for as their delegate
+  onBehalfOfId?: string | null;
+  decision: DecisionType;
+  comments?: string;
+  quorum?: StepQuorum;
+  eligibleCount: number;
+}
+
+export interface DecisionResult {
+  // How the step was decided, or null while its quorum is still open
+  outcome: DecisionType | null;
+  approvals: number;
+  activeStep: ActiveStep | null;
+  // The process's status after the vote
+  status: ProcessStatus;
+}
+
+/**
+ * Records an approver's vote on an approval step. Once the step's quorum is
+ * decided the step is completed or rejected and the process moves on, ends,
+ * or goes back to the requester for changes.
+ */
+export async function recordDecision(
+  tx: Tx,
+  {
+    stepInstanceId,
+    approverId,
+    onBehalfOfId,
+    decision,
+    comments,
+    quorum,
+    eligibleCount,
+  }: RecordDecisionParams
+): Promise<DecisionResult> {
+  await tx.stepDecision.create({
+    data: { stepInstanceId, approverId, onBehalfOfId, decision, comments },
+  });
+
+  const decisions = await tx.stepDecision.findMany({
+    where: { stepInstanceId, supersededAt: null },
+    orderBy: { createdAt: "asc" },
+  });
+  const outcome = evaluateQuorum(quorum, eligibleCount, decisions);
+  const approvals = decisions.filter((d) => d.decision === "APPROVED").length;
+
+  if (!outcome) {
+    return { outcome, approvals, activeStep: null, status: "IN_PROGRESS" };
+  }
+
+  const { status, activeStep } = await resolveStep(
+    tx,
+    stepInstanceId,
+    outcome,
+    approverId,
+    comments
+  );
+  return { outcome, approvals, activeStep, status };
+}
+
+/**
+ * Reopens the approval step that requested changes after the requester has
+ * updated the form data. Its votes are superseded so approval starts over.
+ * Conditions are checked again against the new data: the step itself may be
+ * skipped now, and skipped steps whose condition now matches are reopened.
+ */
+export async function resubmitProcess(
+  tx: Tx,
+  processInstanceId: string,
+  stepInstanceId: string
+): Promise<AdvanceResult> {
+  const process = await loadProcess(tx, processInstanceId);
+  const step = process.steps.find((s) => s.id === stepInstanceId)!;
+
+  await supersedeDecisions(tx, stepInstanceId);
+  // The step becomes active again with a fresh deadline and its original
+  // assignees; a breach of the earlier deadline stays on record
+  await setStepStatus(tx, step, {
+    status: "PENDING",
+    actedById: null,
+    actedAt: null,
+    comments: null,
+    assignee: Prisma.DbNull,
+    activatedAt: null,
+    dueAt: null,
+    lastRemindedAt: null,
+    escalatedAt: null,
+  });
+  for (const skipped of findStepsToReopen(
+    process.steps,
+    process.formData as FormValues
+  )) {
+    await setStepStatus(tx, skipped, {
+      status: "PENDING",
+      actedById: null,
+      actedAt: null,
+    });
+  }
+  await setProcessStatus(tx, process, "IN_PROGRESS");
+
+  return advanceProcess(tx, processInstanceId);
+}
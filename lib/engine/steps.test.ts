@@ -0,0 +1,217 @@
+import { describe, expect, it } from "vitest";
+import type { StepStatus, StepType } from "@prisma/client";
+import {
+  findStepsToReopen,
+  getActiveStep,
+  planAdvance,
+  type EngineStep,
+} from "./steps";
+
+const requesterId = "requester";
+
+function step(
+  id: string,
+  stepType: StepType,
+  stepOrder: number,
+  options: { status?: StepStatus; config?: unknown } = {}
+): EngineStep {
+  return {
+    id,
+    status: options.status ?? "PENDING",
+    workflowStep: { stepType, stepOrder, config: options.config ?? {} },
+  };
+}
+
+const highAmount = {
+  condition: { field: "amount", operator: "greater_than", value: 1000 },
+};
+
+describe("planAdvance", () => {
+  it("completes a chain of notification steps and the process", () => {
+    const plan = planAdvance(
+      [
+        step("n1", "NOTIFICATION", 1),
+        step("n2", "NOTIFICATION", 2),
+        step("n3", "NOTIFICATION", 3),
+      ],
+      {},
+      requesterId
+    );
+
+    expect(plan.stepUpdates).toEqual([
+      { id: "n1", status: "COMPLETED", actedById: null },
+      { id: "n2", status: "COMPLETED", actedById: null },
+      { id: "n3", status: "COMPLETED", actedById: null },
+    ]);
+    expect(plan.activeStep).toBeNull();
+    expect(plan.processStatus).toBe("COMPLETED");
+  });
+
+  it("stops at the approval step after a chain of notifications", () => {
+    const approval = step("a1", "APPROVAL", 3);
+    const plan = planAdvance(
+      [
+        step("n1", "NOTIFICATION", 1),
+        step("n2", "NOTIFICATION", 2),
+        approval,
+        step("n3", "NOTIFICATION", 4),
+      ],
+      {},
+      requesterId
+    );
+
+    expect(plan.stepUpdates.map((u) => u.id)).toEqual(["n1", "n2"]);
+    expect(plan.activeStep).toBe(approval);
+    expect(plan.processStatus).toBe("IN_PROGRESS");
+  });
+
+  it("visits steps by their order, not their position", () => {
+    const plan = planAdvance(
+      [
+        step("n2", "NOTIFICATION", 2),
+        step("a1", "APPROVAL", 3),
+        step("n1", "NOTIFICATION", 1),
+      ],
+      {},
+      requesterId
+    );
+
+    expect(plan.stepUpdates.map((u) => u.id)).toEqual(["n1", "n2"]);
+    expect(plan.activeStep?.id).toBe("a1");
+  });
+
+  it("completes a workflow that ends on a form step for the requester", () => {
+    const plan = planAdvance(
+      [
+        step("a1", "APPROVAL", 1, { status: "COMPLETED" }),
+        step("n1", "NOTIFICATION", 2),
+        step("f1", "FORM", 3),
+      ],
+      {},
+      requesterId
+    );
+
+    expect(plan.stepUpdates).toEqual([
+      { id: "n1", status: "COMPLETED", actedById: null },
+      { id: "f1", status: "COMPLETED", actedById: requesterId },
+    ]);
+    expect(plan.activeStep).toBeNull();
+    expect(plan.processStatus).toBe("COMPLETED");
+  });
+
+  it("skips steps whose condition doesn't match the form data", () => {
+    const plan = planAdvance(
+      [
+        step("f1", "FORM", 1),
+        step("a1", "APPROVAL", 2, { config: highAmount }),
+        step("n1", "NOTIFICATION", 3, { config: highAmount }),
+        step("a2", "APPROVAL", 4),
+      ],
+      { amount: 500 },
+      requesterId
+    );
+
+    expect(plan.stepUpdates).toEqual([
+      { id: "f1", status: "COMPLETED", actedById: requesterId },
+      { id: "a1", status: "SKIPPED", actedById: null },
+      { id: "n1", status: "SKIPPED", actedById: null },
+    ]);
+    expect(plan.activeStep?.id).toBe("a2");
+  });
+
+  it("runs conditional steps when the condition matches", () => {
+    const plan = planAdvance(
+      [step("f1", "FORM", 1), step("a1", "APPROVAL", 2, { config: highAmount })],
+      { amount: 5000 },
+      requesterId
+    );
+
+    expect(plan.stepUpdates.map((u) => u.id)).toEqual(["f1"]);
+    expect(plan.activeStep?.id).toBe("a1");
+  });
+
+  it("completes the process when every remaining step is skipped", () => {
+    const plan = planAdvance(
+      [
+        step("f1", "FORM", 1, { status: "COMPLETED" }),
+        step("a1", "APPROVAL", 2, { config: highAmount }),
+      ],
+      { amount: 10 },
+      requesterId
+    );
+
+    expect(plan.stepUpdates).toEqual([
+      { id: "a1", status: "SKIPPED", actedById: null },
+    ]);
+    expect(plan.processStatus).toBe("COMPLETED");
+  });
+
+  it("leaves steps that are already decided or skipped alone", () => {
+    const plan = planAdvance(
+      [
+        step("a1", "APPROVAL", 1, { status: "COMPLETED" }),
+        step("a2", "APPROVAL", 2, { status: "SKIPPED" }),
+        step("a3", "APPROVAL", 3),
+      ],
+      {},
+      requesterId
+    );
+
+    expect(plan.stepUpdates).toEqual([]);
+    expect(plan.activeStep?.id).toBe("a3");
+  });
+});
+
+describe("getActiveStep", () => {
+  it("returns the first pending step in order", () => {
+    const steps = [
+      step("a2", "APPROVAL", 2),
+      step("a1", "APPROVAL", 1, { status: "COMPLETED" }),
+      step("a3", "APPROVAL", 3),
+    ];
+
+    expect(getActiveStep(steps)?.id).toBe("a2");
+  });
+
+  it("returns null when nothing is pending", () => {
+    const steps = [
+      step("a1", "APPROVAL", 1, { status: "COMPLETED" }),
+      step("a2", "APPROVAL", 2, { status: "SKIPPED" }),
+    ];
+
+    expect(getActiveStep(steps)).toBeNull();
+  });
+});
+
+describe("findStepsToReopen", () => {
+  const steps = [
+    step("f1", "FORM", 1, { status: "COMPLETED" }),
+    step("n1", "NOTIFICATION", 3, { status: "SKIPPED", config: highAmount }),
+    step("a1", "APPROVAL", 2, { status: "SKIPPED", config: highAmount }),
+    step("a2", "APPROVAL", 4, { status: "REJECTED" }),
+  ];
+
+  it("reopens skipped steps whose condition now matches, in order", () => {
+    expect(
+      findStepsToReopen(steps, { amount: 5000 }).map((s) => s.id)
+    ).toEqual(["a1", "n1"]);
+  });
+
+  it("leaves skipped steps whose condition still doesn't match", () => {
+    expect(findStepsToReopen(steps, { amount: 500 })).toEqual([]);
+  });
+
+  it("runs a reopened approval step before the resubmitted one", () => {
+    // The resubmitted step a2 is reopened along with the skipped ones
+    const pending = new Set(
+      findStepsToReopen(steps, { amount: 5000 }).map((s) => s.id)
+    ).add("a2");
+    const afterResubmit = steps.map((s) =>
+      pending.has(s.id) ? { ...s, status: "PENDING" as const } : s
+    );
+    const plan = planAdvance(afterResubmit, { amount: 5000 }, requesterId);
+
+    expect(plan.stepUpdates).toEqual([]);
+    expect(plan.activeStep?.id).toBe("a1");
+  });
+});
@@ -0,0 +1,105 @@
+import type { ProcessStatus, StepStatus, StepType } from "@prisma/client";
+import { shouldRunStep } from "@/lib/step-config";
+import type { FormValues } from "@/lib/form-validation";
+
+export interface EngineStep {
+  id: string;
+  status: StepStatus;
+  workflowStep: {
+    stepType: StepType;
+    stepOrder: number;
+    config: unknown;
+  };
+}
+
+export interface StepResolution {
+  status: StepStatus;
+  actedById: string | null;
+}
+
+interface StepContext {
+  requesterId: string;
+}
+
+// Called when the process reaches a step. Returns how the step resolves
+// straight away, or null when it waits for someone to act on it.
+type StepHandler = (context: StepContext) => StepResolution | null;
+
+const stepHandlers: Record<StepType, StepHandler> = {
+  // The form is submitted together with the request, so form steps are
+  // completed on behalf of the requester
+  FORM: ({ requesterId }) => ({ status: "COMPLETED", actedById: requesterId }),
+  // Approval steps wait for their assignees to decide
+  APPROVAL: () => null,
+  // Notification steps have nothing to wait for
+  NOTIFICATION: () => ({ status: "COMPLETED", actedById: null }),
+};
+
+export interface AdvancePlan<T extends EngineStep> {
+  stepUpdates: Array<StepResolution & { id: string }>;
+  activeStep: T | null;
+  processStatus: ProcessStatus;
+}
+
+function sortSteps<T extends EngineStep>(steps: T[]) {
+  return [...steps].sort(
+    (a, b) => a.workflowStep.stepOrder - b.workflowStep.stepOrder
+  );
+}
+
+/**
+ * The step the process is waiting on: the first pending step in order. Only
+ * meaningful for processes that are in progress.
+ */
+export function getActiveStep<T extends EngineStep>(steps: T[]): T | null {
+  return sortSteps(steps).find((s) => s.status === "PENDING") ?? null;
+}
+
+/**
+ * Works out how a process moves forward from its current state. Pending
+ * steps are visited in order: steps whose condition doesn't match the form
+ * data are skipped, the rest are handed to their step type's handler, and the
+ * walk stops at the first step that has to wait. Without such a step the
+ * process is complete.
+ */
+export function planAdvance<T extends EngineStep>(
+  steps: T[],
+  formData: FormValues,
+  requesterId: string
+): AdvancePlan<T> {
+  const stepUpdates: AdvancePlan<T>["stepUpdates"] = [];
+
+  for (const step of sortSteps(steps)) {
+    if (step.status !== "PENDING") continue;
+
+    if (!shouldRunStep(step.workflowStep.config, formData)) {
+      stepUpdates.push({ id: step.id, status: "SKIPPED", actedById: null });
+      continue;
+    }
+
+    const resolution = stepHandlers[step.workflowStep.stepType]({
+      requesterId,
+    });
+    if (!resolution) {
+      return { stepUpdates, activeStep: step, processStatus: "IN_PROGRESS" };
+    }
+    stepUpdates.push({ id: step.id, ...resolution });
+  }
+
+  return { stepUpdates, activeStep: null, processStatus: "COMPLETED" };
+}
+
+/**
+ * Skipped steps whose condition matches the form data after all, e.g. once
+ * the requester has changed it on resubmitting. They are reopened so the
+ * process runs them.
+ */
+export function findStepsToReopen<T extends EngineStep>(
+  steps: T[],
+  formData: FormValues
+): T[] {
+  return sortSteps(steps).filter(
+    (s) =>
+      s.status === "SKIPPED" && shouldRunStep(s.workflowStep.config, formData)
+  );
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertProcessTransition,
+  assertStepTransition,
+  canTransitionProcess,
+  canTransitionStep,
+  InvalidTransitionError,
+} from "./transitions";
+
+describe("canTransitionProcess", () => {
+  it.each([
+    ["PENDING", "IN_PROGRESS"],
+    ["PENDING", "COMPLETED"],
+    ["IN_PROGRESS", "COMPLETED"],
+    ["IN_PROGRESS", "REJECTED"],
+    ["IN_PROGRESS", "CHANGES_REQUESTED"],
+    ["CHANGES_REQUESTED", "IN_PROGRESS"],
+  ] as const)("allows %s to %s", (from, to) => {
+    expect(canTransitionProcess(from, to)).toBe(true);
+  });
+
+  it.each([
+    ["PENDING", "REJECTED"],
+    ["IN_PROGRESS", "PENDING"],
+    ["CHANGES_REQUESTED", "COMPLETED"],
+    ["COMPLETED", "IN_PROGRESS"],
+    ["REJECTED", "IN_PROGRESS"],
+    ["REJECTED", "COMPLETED"],
+    ["APPROVED", "IN_PROGRESS"],
+  ] as const)("refuses %s to %s", (from, to) => {
+    expect(canTransitionProcess(from, to)).toBe(false);
+  });
+});
+
+describe("canTransitionStep", () => {
+  it.each([
+    ["PENDING", "COMPLETED"],
+    ["PENDING", "REJECTED"],
+    ["PENDING", "SKIPPED"],
+    ["PENDING", "IN_PROGRESS"],
+    ["IN_PROGRESS", "COMPLETED"],
+    ["REJECTED", "PENDING"],
+    ["SKIPPED", "PENDING"],
+  ] as const)("allows %s to %s", (from, to) => {
+    expect(canTransitionStep(from, to)).toBe(true);
+  });
+
+  it.each([
+    ["COMPLETED", "PENDING"],
+    ["COMPLETED", "REJECTED"],
+    ["SKIPPED", "COMPLETED"],
+    ["SKIPPED", "REJECTED"],
+    ["REJECTED", "COMPLETED"],
+    ["IN_PROGRESS", "SKIPPED"],
+  ] as const)("refuses %s to %s", (from, to) => {
+    expect(canTransitionStep(from, to)).toBe(false);
+  });
+});
+
+describe("assertions", () => {
+  it("throws an InvalidTransitionError for a refused transition", () => {
+    expect(() => assertProcessTransition("COMPLETED", "IN_PROGRESS")).toThrow(
+      InvalidTransitionError
+    );
+    expect(() => assertStepTransition("COMPLETED", "REJECTED")).toThrow(
+      "Invalid step transition from COMPLETED to REJECTED"
+    );
+  });
+
+  it("passes for an allowed transition", () => {
+    expect(() =>
+      assertProcessTransition("IN_PROGRESS", "COMPLETED")
+    ).not.toThrow();
+    expect(() => assertStepTransition("PENDING", "SKIPPED")).not.toThrow();
+  });
+});
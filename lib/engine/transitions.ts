@@ -0,0 +1,52 @@
+import type { ProcessStatus, StepStatus } from "@prisma/client";
+
+// Allowed status changes. Anything not listed here is a bug in the caller and
+// is refused by the engine rather than written to the database.
+const processTransitions: Record<ProcessStatus, ProcessStatus[]> = {
+  PENDING: ["IN_PROGRESS", "COMPLETED"],
+  IN_PROGRESS: ["COMPLETED", "REJECTED", "CHANGES_REQUESTED"],
+  CHANGES_REQUESTED: ["IN_PROGRESS"],
+  APPROVED: [],
+  COMPLETED: [],
+  REJECTED: [],
+};
+
+const stepTransitions: Record<StepStatus, StepStatus[]> = {
+  PENDING: ["IN_PROGRESS", "COMPLETED", "REJECTED", "SKIPPED"],
+  IN_PROGRESS: ["COMPLETED", "REJECTED"],
+  // A rejected step is reopened when the requester resubmits
+  REJECTED: ["PENDING"],
+  COMPLETED: [],
+  // A skipped step is reopened when resubmitted data matches its condition
+  SKIPPED: ["PENDING"],
+};
+
+export class InvalidTransitionError extends Error {
+  constructor(kind: "process" | "step", from: string, to: string) {
+    super(`Invalid ${kind} transition from ${from} to ${to}`);
+    this.name = "InvalidTransitionError";
+  }
+}
+
+export function canTransitionProcess(from: ProcessStatus, to: ProcessStatus) {
+  return processTransitions[from].includes(to);
+}
+
+export function canTransitionStep(from: StepStatus, to: StepStatus) {
+  return stepTransitions[from].includes(to);
+}
+
+export function assertProcessTransition(
+  from: ProcessStatus,
+  to: ProcessStatus
+) {
+  if (!canTransitionProcess(from, to)) {
+    throw new InvalidTransitionError("process", from, to);
+  }
+}
+
+export function assertStepTransition(from: StepStatus, to: StepStatus) {
+  if (!canTransitionStep(from, to)) {
+    throw new InvalidTransitionError("step", from, to);
+  }
+}
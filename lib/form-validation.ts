@@ -0,0 +1,288 @@
+import { z } from "zod";
+import { evaluateCondition } from "@/lib/conditions";
+
+export interface FormField {
+  id: string;
+  name: string;
+  label: string;
+  type: string;
+  required: boolean;
+  validation?: Record<string, unknown>;
+  options?: string[];
+  conditionalOn?: {
+    fieldId: string;
+    value: unknown;
+  };
+}
+
+export type FormValues = Record<string, unknown>;
+
+// The value a `file` field holds once its file has been uploaded
+export const fileValueSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  size: z.number(),
+  mimeType: z.string(),
+});
+
+export type FileValue = z.infer<typeof fileValueSchema>;
+
+// Used when a file field doesn't set `validation.maxSizeMb`
+export const DEFAULT_MAX_FILE_SIZE_MB = 10;
+
+// No file field accepts more than this, whatever its `validation.maxSizeMb`
+export const MAX_FILE_SIZE_MB = 50;
+
+// The browser reports whatever type the client claims, so a file's type is
+// taken from its extension instead. Anything else is stored as binary data.
+const mimeTypes: Record<string, string> = {
+  ".pdf": "application/pdf",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".txt": "text/plain",
+  ".csv": "text/csv",
+  ".doc": "application/msword",
+  ".docx":
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  ".xls": "application/vnd.ms-excel",
+  ".xlsx": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ".ppt": "application/vnd.ms-powerpoint",
+  ".pptx":
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  ".zip": "application/zip",
+};
+
+export function getMimeType(fileName: string) {
+  const extension = fileName.toLowerCase().match(/\.[^.]+$/)?.[0] ?? "";
+  return mimeTypes[extension] ?? "application/octet-stream";
+}
+
+function isEmpty(value: unknown) {
+  return value === undefined || value === null || value === "";
+}
+
+function numberRule(field: FormField, key: string) {
+  const rule = field.validation?.[key];
+  return typeof rule === "number" ? rule : undefined;
+}
+
+/**
+ * A field with `conditionalOn` is only shown (and validated) when the field
+ * it depends on currently holds the configured value.
+ */
+export function isFieldVisible(field: FormField, values: FormValues): boolean {
+  if (!field.conditionalOn) return true;
+  return evaluateCondition(
+    {
+      field: field.conditionalOn.fieldId,
+      operator: "equals",
+      value: field.conditionalOn.value,
+    },
+    values
+  );
+}
+
+function compileField(field: FormField): z.ZodType {
+  switch (field.type) {
+    case "text":
+    case "textarea": {
+      let schema = z.string({ message: `${field.label} must be text` });
+      const minLength = numberRule(field, "minLength");
+      const maxLength = numberRule(field, "maxLength");
+      if (minLength !== undefined) {
+        schema = schema.min(
+          minLength,
+          `${field.label} must be at least ${minLength} characters`
+        );
+      }
+      if (maxLength !== undefined) {
+        schema = schema.max(
+          maxLength,
+          `${field.label} must be no more than ${maxLength} characters`
+        );
+      }
+      return schema;
+    }
+
+    case "number":
+    case "currency": {
+      let schema = z.number({ message: `${field.label} must be a number` });
+      const min = numberRule(field, "min");
+      const max = numberRule(field, "max");
+      if (min !== undefined) {
+        schema = schema.min(min, `${field.label} must be at least ${min}`);
+      }
+      if (max !== undefined) {
+        schema = schema.max(max, `${field.label} must be no more than ${max}`);
+      }
+      return schema;
+    }
+
+    case "date":
+      return z
+        .string({ message: `${field.label} must be a date` })
+        .refine((value) => !Number.isNaN(Date.parse(value)), {
+          message: `${field.label} must be a valid date`,
+        });
+
+    case "dropdown":
+      return field.options?.length
+        ? z.enum(field.options as [string, ...string[]], {
+            message: `${field.label} must be one of the available options`,
+          })
+        : z.string({ message: `${field.label} must be text` });
+
+    case "file":
+      return z.custom<FileValue>(
+        (value) => fileValueSchema.safeParse(value).success,
+        { message: `${field.label} must be an uploaded file` }
+      );
+
+    default:
+      return z.unknown();
+  }
+}
+
+function matchesAccept(accept: string, fileName: string, mimeType: string) {
+  const patterns = accept
+    .split(",")
+    .map((p) => p.trim().toLowerCase())
+    .filter(Boolean);
+  if (patterns.length === 0) return true;
+
+  const name = fileName.toLowerCase();
+  const type = mimeType.toLowerCase();
+  return patterns.some((pattern) => {
+    if (pattern.startsWith(".")) return name.endsWith(pattern);
+    if (pattern.endsWith("/*")) return type.startsWith(pattern.slice(0, -1));
+    return type === pattern;
+  });
+}
+
+/**
+ * Checks a file against a file field's `validation.accept` (an HTML accept
+ * list such as ".pdf,image/*") and `validation.maxSizeMb`. Types are matched
+ * by the file's extension, see `getMimeType`. Returns the error message, or
+ * null if the file is allowed.
+ */
+export function checkFile(
+  field: FormField,
+  file: { name: string; size: number }
+): string | null {
+  const accept = field.validation?.accept;
+  if (
+    typeof accept === "string" &&
+    !matchesAccept(accept, file.name, getMimeType(file.name))
+  ) {
+    return `${field.label} must be one of: ${accept}`;
+  }
+
+  const maxSizeMb = Math.min(
+    numberRule(field, "maxSizeMb") ?? DEFAULT_MAX_FILE_SIZE_MB,
+    MAX_FILE_SIZE_MB
+  );
+  if (file.size > maxSizeMb * 1024 * 1024) {
+    return `${field.label} must be no larger than ${maxSizeMb} MB`;
+  }
+
+  return null;
+}
+
+/**
+ * Compiles the fields of a FormSchema into a runtime schema for submitted
+ * form data. Required and per-type rules are only applied to visible fields,
+ * and the parsed output keeps just the visible, known fields so values left
+ * behind by hidden conditional fields are never stored.
+ */
+export function compileFormSchema(fields: FormField[]) {
+  const compiled = fields.map((field) => ({
+    field,
+    schema: compileField(field),
+  }));
+
+  return z
+    .record(z.string(), z.unknown())
+    .superRefine((values, ctx) => {
+      for (const { field, schema } of compiled) {
+        if (!isFieldVisible(field, values)) continue;
+
+        const value = values[field.name];
+        if (isEmpty(value)) {
+          if (field.required) {
+            ctx.addIssue({
+              code: "custom",
+              path: [field.name],
+              message: `${field.label} is required`,
+            });
+          }
+          continue;
+        }
+
+        const result = schema.safeParse(value);
+        if (!result.success) {
+          for (const issue of result.error.issues) {
+            ctx.addIssue({
+              code: "custom",
+              path: [field.name],
+              message: issue.message,
+            });
+          }
+        }
+      }
+    })
+    .transform((values) => {
+      const data: FormValues = {};
+      for (const field of fields) {
+        const value = values[field.name];
+        if (isFieldVisible(field, values) && !isEmpty(value)) {
+          data[field.name] = value;
+        }
+      }
+      return data;
+    });
+}
+
+/**
+ * Client-side counterpart of `compileFormSchema`: returns the first error
+ * message for each invalid field, keyed by field name.
+ */
+export function validateFormData(
+  fields: FormField[],
+  values: FormValues
+): Record<string, string> {
+  const result = compileFormSchema(fields).safeParse(values);
+  if (result.success) return {};
+
+  const { fieldErrors } = result.error.flatten();
+  const errors: Record<string, string> = {};
+  for (const [name, messages] of Object.entries(fieldErrors)) {
+    if (messages?.length) {
+      errors[name] = messages[0];
+    }
+  }
+  return errors;
+}
+
+/**
+ * Returns the previous and new values of every field that differs between
+ * two submissions of the same form.
+ */
+export function diffFormData(previous: FormValues, next: FormValues) {
+  const before: FormValues = {};
+  const after: FormValues = {};
+
+  const names = Array.from(
+    new Set([...Object.keys(previous), ...Object.keys(next)])
+  );
+  for (const name of names) {
+    if (JSON.stringify(previous[name]) !== JSON.stringify(next[name])) {
+      before[name] = previous[name] ?? null;
+      after[name] = next[name] ?? null;
+    }
+  }
+
+  return { before, after };
+}
@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+export const groupInclude = {
+  manager: { select: { id: true, name: true } },
+  members: {
+    include: { user: { select: { id: true, name: true, email: true } } },
+    orderBy: { user: { name: "asc" } },
+  },
+  _count: { select: { members: true } },
+} as const;
+
+export const groupSchema = z.object({
+  name: z.string().min(1).max(255),
+  description: z.string().optional().nullable(),
+  managerId: z.string().min(1).optional().nullable(),
+  memberIds: z.array(z.string().min(1)),
+});
@@ -0,0 +1,219 @@
+import { db } from "@/lib/db";
+import {
+  DEFAULT_APPROVER_ROLES,
+  getActionableStepIds,
+} from "@/lib/assignees";
+import { getActiveStep } from "@/lib/engine";
+
+export const inboxSorts = ["age", "due"] as const;
+
+export type InboxSort = (typeof inboxSorts)[number];
+
+interface InboxOptions {
+  // Matched against the workflow name and the request's form values
+  search?: string;
+  // "age" orders by how long the step has been waiting, "due" by its
+  // deadline with steps without one last
+  sort?: InboxSort;
+  order?: "asc" | "desc";
+}
+
+/**
+ * Whose assignments a user can act on: their own, and those of everyone they
+ * currently stand in for as a delegate.
+ */
+async function getPrincipals(userId: string, at = new Date()) {
+  return db.user.findMany({
+    where: {
+      OR: [
+        { id: userId },
+        {
+          delegationsGiven: {
+            some: {
+              delegateId: userId,
+              startsAt: { lte: at },
+              endsAt: { gte: at },
+            },
+          },
+        },
+      ],
+    },
+    select: {
+      id: true,
+      role: true,
+      groupMemberships: { select: { groupId: true } },
+    },
+  });
+}
+
+/**
+ * The processes whose active approval step could be assigned to the user,
+ * found in one query: the step's assignee (or the config's, unless the step
+ * overrides it) names one of the principals, their role or one of their
+ * groups, or is the requester's manager and that is a principal. Steps that
+ * fall back to the default approver roles, because they have no assignee or
+ * it resolves to nobody active, are included for principals with those
+ * roles. This errs on the side of including a step; the exact assignments
+ * are resolved for the matches afterwards.
+ */
+async function findCandidateProcessIds(userId: string) {
+  const principals = await getPrincipals(userId);
+  const principalIds = principals.map((p) => p.id);
+  const roles = Array.from(new Set(principals.map((p) => p.role)));
+  const groupIds = principals.flatMap((p) =>
+    p.groupMemberships.map((m) => m.groupId)
+  );
+  const hasDefaultRole = roles.some((role) =>
+    DEFAULT_APPROVER_ROLES.includes(role)
+  );
+
+  const rows = await db.$queryRaw<Array<{ processInstanceId: string }>>`
+    SELECT s."processInstanceId"
+    FROM "ProcessStepInstance" s
+    JOIN "WorkflowStep" w ON w.id = s."workflowStepId"
+    JOIN "ProcessInstance" p ON p.id = s."processInstanceId"
+    JOIN "User" r ON r.id = p."createdById"
+    CROSS JOIN LATERAL (
+      SELECT COALESCE(s.assignee, w.config -> 'assignee') AS a
+    ) x
+    WHERE p.status = 'IN_PROGRESS'
+      AND s.status = 'PENDING'
+      AND w."stepType" = 'APPROVAL'
+      -- Only the step the process is waiting on
+      AND NOT EXISTS (
+        SELECT 1
+        FROM "ProcessStepInstance" s2
+        JOIN "WorkflowStep" w2 ON w2.id = s2."workflowStepId"
+        WHERE s2."processInstanceId" = s."processInstanceId"
+          AND s2.status = 'PENDING'
+          AND w2."stepOrder" < w."stepOrder"
+      )
+      AND (
+        (x.a ->> 'type' = 'users'
+          AND jsonb_typeof(x.a -> 'userIds') = 'array'
+          AND x.a -> 'userIds' ?| ${principalIds}::text[])
+        OR (x.a ->> 'type' = 'role' AND x.a ->> 'role' = ANY(${roles}::text[]))
+        OR (x.a ->> 'type' = 'group'
+          AND x.a ->> 'groupId' = ANY(${groupIds}::text[]))
+        OR (x.a ->> 'type' = 'manager'
+          AND r."managerId" = ANY(${principalIds}::text[]))
+        OR (${hasDefaultRole} AND (
+          x.a ->> 'type' IS NULL
+          OR x.a ->> 'type' NOT IN ('users', 'role', 'group', 'manager')
+          OR (x.a ->> 'type' = 'users' AND NOT EXISTS (
+            SELECT 1 FROM "User" u
+            WHERE u."isActive"
+              AND jsonb_typeof(x.a -> 'userIds') = 'array'
+              AND x.a -> 'userIds' ? u.id
+          ))
+          OR (x.a ->> 'type' = 'role' AND NOT EXISTS (
+            SELECT 1 FROM "User" u
+            WHERE u."isActive" AND u.role::text = x.a ->> 'role'
+          ))
+          OR (x.a ->> 'type' = 'group' AND NOT EXISTS (
+            SELECT 1 FROM "GroupMember" m
+            JOIN "User" u ON u.id = m."userId"
+            WHERE u."isActive" AND m."groupId" = x.a ->> 'groupId'
+          ))
+          OR (x.a ->> 'type' = 'manager' AND NOT EXISTS (
+            SELECT 1 FROM "User" u
+            WHERE u."isActive" AND u.id = r."managerId"
+          ))
+        ))
+      )
+  `;
+  return rows.map((row) => row.processInstanceId);
+}
+
+function loadProcesses(ids: string[]) {
+  return db.processInstance.findMany({
+    where: { id: { in: ids }, status: "IN_PROGRESS" },
+    include: {
+      workflowTemplate: { select: { id: true, name: true } },
+      createdBy: { select: { id: true, name: true, email: true } },
+      steps: {
+        include: {
+          workflowStep: true,
+          decisions: {
+            where: { supersededAt: null },
+            select: { approverId: true, onBehalfOfId: true, supersededAt: true },
+          },
+        },
+        orderBy: { workflowStep: { stepOrder: "asc" } },
+      },
+    },
+  });
+}
+
+type InboxProcess = Awaited<ReturnType<typeof loadProcesses>>[number];
+
+function formValuesText(formData: unknown) {
+  if (!formData || typeof formData !== "object") return [];
+  return Object.values(formData as Record<string, unknown>).map((value) =>
+    value !== null && typeof value === "object"
+      ? JSON.stringify(value)
+      : String(value ?? "")
+  );
+}
+
+function matchesSearch(process: InboxProcess, search: string) {
+  const term = search.toLowerCase();
+  return [
+    process.workflowTemplate.name,
+    ...formValuesText(process.formData),
+  ].some((text) => text.toLowerCase().includes(term));
+}
+
+/**
+ * The approval steps a user can act on right now: the steps processes are
+ * waiting on that they are assigned to, directly or as a delegate, and
+ * haven't voted on yet. Assignees are resolved when asked (roles, groups,
+ * managers and delegations can all change while a step waits), but only for
+ * the processes that could be assigned to the user.
+ */
+export async function getInboxSteps(
+  userId: string,
+  { search, sort = "age", order = "asc" }: InboxOptions = {}
+) {
+  const processes = await loadProcesses(
+    await findCandidateProcessIds(userId)
+  );
+  const now = new Date();
+
+  const items = [];
+  for (const process of processes) {
+    if (search && !matchesSearch(process, search)) continue;
+
+    const [stepId] = await getActionableStepIds(userId, process);
+    if (!stepId) continue;
+
+    const step = getActiveStep(process.steps)!;
+    items.push({
+      id: step.id,
+      name: step.workflowStep.name,
+      // Steps activated before activation times were recorded count from
+      // the request
+      waitingSince: step.activatedAt ?? process.createdAt,
+      dueAt: step.dueAt,
+      overdue: !!step.dueAt && step.dueAt < now,
+      process: {
+        id: process.id,
+        status: process.status,
+        formData: process.formData,
+        createdAt: process.createdAt,
+        workflowTemplate: process.workflowTemplate,
+        createdBy: process.createdBy,
+      },
+    });
+  }
+
+  const direction = order === "asc" ? 1 : -1;
+  return items.sort((a, b) => {
+    if (sort === "due" && a.dueAt?.getTime() !== b.dueAt?.getTime()) {
+      if (!a.dueAt) return 1;
+      if (!b.dueAt) return -1;
+      return (a.dueAt.getTime() - b.dueAt.getTime()) * direction;
+    }
+    return (a.waitingSince.getTime() - b.waitingSince.getTime()) * direction;
+  });
+}
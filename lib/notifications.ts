@@ -1,28 +1,48 @@
 import { db } from "@/lib/db";
 import { NotificationType } from "@prisma/client";
+import { resolveAssignees } from "@/lib/assignees";
+import { dispatchNotification, type NotificationEvent } from "@/lib/channels";
+import { publishNotifications } from "@/lib/realtime";
 
 interface CreateNotificationParams {
   userId: string;
   processInstanceId?: string;
+  // The approval step the user is asked to decide
+  stepInstanceId?: string;
+  // The scheduled report run the notification announces
+  reportRunId?: string;
   message: string;
   type?: NotificationType;
+  event: NotificationEvent;
 }
 
 export async function createNotification({
   userId,
   processInstanceId,
+  stepInstanceId,
+  reportRunId,
   message,
   type = "INFO",
+  event,
 }: CreateNotificationParams) {
   try {
-    return await db.notification.create({
+    const notification = await db.notification.create({
       data: {
         userId,
         processInstanceId,
+        stepInstanceId,
+        reportRunId,
         message,
         type,
       },
     });
+
+    // Emails and other channels go out in the background so a slow mail
+    // server doesn't hold up the request
+    void dispatchNotification(notification.id, event);
+    void publishNotifications(userId, notification);
+
+    return notification;
   } catch (error) {
     console.error("Failed to create notification:", error);
     // Don't throw - notification creation should not break main functionality
@@ -31,24 +51,38 @@ export async function createNotification({
 
 export async function notifyApprovers(
   processInstanceId: string,
-  workflowName: string
+  workflowName: string,
+  stepConfig: unknown,
+  requesterId: string,
+  assigneeOverride?: unknown,
+  // Sent instead of the new request message for reminders and escalations
+  reminder?: string
 ) {
   try {
-    // Notify all approvers about a pending approval
-    const approvers = await db.user.findMany({
-      where: {
-        role: { in: ["ADMIN", "APPROVER"] },
-      },
+    // Notify only the users assigned to the pending approval step
+    const assigneeIds = await resolveAssignees(
+      stepConfig,
+      requesterId,
+      assigneeOverride
+    );
+
+    // The step the process is waiting on, which the approvers can decide
+    // straight from the notification
+    const activeStep = await db.processStepInstance.findFirst({
+      where: { processInstanceId, status: "PENDING" },
+      orderBy: { workflowStep: { stepOrder: "asc" } },
       select: { id: true },
     });
 
     await Promise.all(
-      approvers.map((approver) =>
+      assigneeIds.map((userId) =>
         createNotification({
-          userId: approver.id,
+          userId,
           processInstanceId,
-          message: `New approval request: ${workflowName}`,
+          stepInstanceId: activeStep?.id,
+          message: reminder ?? `New approval request: ${workflowName}`,
           type: "ACTION_REQUIRED",
+          event: reminder ? "approval_reminder" : "approval_requested",
         })
       )
     );
@@ -71,6 +105,13 @@ export async function notifyProcessCreator(
     completed: `Your request "${workflowName}" has been completed`,
   };
 
+  const events: Record<typeof action, NotificationEvent> = {
+    approved: "request_approved",
+    rejected: "request_rejected",
+    changes_requested: "changes_requested",
+    completed: "request_completed",
+  };
+
   const type: NotificationType =
     action === "changes_requested" || action === "rejected"
       ? "ACTION_REQUIRED"
@@ -81,5 +122,6 @@ export async function notifyProcessCreator(
     processInstanceId,
     message: actionMessages[action],
     type,
+    event: events[action],
   });
 }
@@ -0,0 +1,86 @@
+import type { UserRole } from "@prisma/client";
+
+export const permissions = [
+  "workflow.create",
+  "workflow.edit",
+  "workflow.publish",
+  "workflow.delete",
+  "process.view.all",
+  "process.reassign",
+  "process.approve.default",
+  "audit.read",
+  "report.view",
+  "report.export",
+  "user.manage",
+  "group.manage",
+  "delegation.manage",
+  "webhook.manage",
+  "settings.manage",
+] as const;
+
+export type Permission = (typeof permissions)[number];
+
+// A permission applies either to every resource, or only to the ones the user
+// owns (e.g. the workflow templates they created)
+type Scope = "all" | "own";
+
+type Grants = Partial<Record<Permission, Scope>>;
+
+// What each role is allowed to do. Change a role's capabilities here rather
+// than checking role names in routes.
+const rolePermissions: Record<UserRole, Grants> = {
+  ADMIN: Object.fromEntries(permissions.map((p) => [p, "all"])) as Grants,
+  APPROVER: {
+    "workflow.create": "all",
+    "workflow.edit": "own",
+    "workflow.publish": "own",
+    "workflow.delete": "own",
+    "process.view.all": "all",
+    "process.approve.default": "all",
+    "report.view": "all",
+    "report.export": "all",
+  },
+  USER: {
+    "report.view": "all",
+    "report.export": "all",
+  },
+};
+
+/** The roles granted a permission, e.g. to find the users who hold it. */
+export function rolesWith(action: Permission): UserRole[] {
+  return (Object.keys(rolePermissions) as UserRole[]).filter(
+    (role) => !!rolePermissions[role][action]
+  );
+}
+
+interface Actor {
+  id: string;
+  role: string;
+}
+
+interface Resource {
+  ownerId?: string | null;
+}
+
+/**
+ * Whether a user may perform an action, optionally on a specific resource.
+ * A permission granted only over the user's own resources is checked against
+ * the resource's owner; without a resource it answers whether the user can
+ * perform the action at all, e.g. to decide whether to show a button.
+ * `user.role` must be current: `getSession` and `auth()` read it from the
+ * database on every request, so use the user they return rather than a copy
+ * kept from earlier.
+ */
+export function can(
+  user: Actor | null | undefined,
+  action: Permission,
+  resource?: Resource
+): boolean {
+  if (!user) return false;
+
+  const scope = rolePermissions[user.role as UserRole]?.[action];
+  if (!scope) return false;
+  if (scope === "all" || !resource) return true;
+
+  return !!resource.ownerId && resource.ownerId === user.id;
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildAssignments,
+  evaluateQuorum,
+  findOpenAssignment,
+  getRequiredApprovals,
+  type Assignment,
+  type Decision,
+} from "./quorum";
+
+function votes(...decisions: Decision[]) {
+  return decisions.map((decision) => ({ decision }));
+}
+
+describe("getRequiredApprovals", () => {
+  it("needs one approval for any", () => {
+    expect(getRequiredApprovals({ type: "any" }, 5)).toBe(1);
+  });
+
+  it("needs every eligible approver for all", () => {
+    expect(getRequiredApprovals({ type: "all" }, 3)).toBe(3);
+    expect(getRequiredApprovals({ type: "all" }, 0)).toBe(1);
+  });
+
+  it("caps a fixed count at the number of approvers", () => {
+    expect(getRequiredApprovals({ type: "count", count: 2 }, 5)).toBe(2);
+    expect(getRequiredApprovals({ type: "count", count: 4 }, 2)).toBe(2);
+  });
+});
+
+describe("evaluateQuorum", () => {
+  it("is decided by the first vote without a quorum", () => {
+    expect(evaluateQuorum(undefined, 3, votes())).toBeNull();
+    expect(evaluateQuorum(undefined, 3, votes("REJECTED"))).toBe("REJECTED");
+    expect(evaluateQuorum(undefined, 3, votes("APPROVED"))).toBe("APPROVED");
+  });
+
+  it("approves on the first approval for any", () => {
+    expect(evaluateQuorum({ type: "any" }, 3, votes("APPROVED"))).toBe(
+      "APPROVED"
+    );
+  });
+
+  it("stays open for any until every approver has rejected", () => {
+    const quorum = { type: "any" } as const;
+
+    expect(evaluateQuorum(quorum, 3, votes("REJECTED", "REJECTED"))).toBeNull();
+    expect(
+      evaluateQuorum(quorum, 3, votes("REJECTED", "REJECTED", "REJECTED"))
+    ).toBe("REJECTED");
+  });
+
+  it("waits for every approval for all", () => {
+    const quorum = { type: "all" } as const;
+
+    expect(evaluateQuorum(quorum, 3, votes("APPROVED", "APPROVED"))).toBeNull();
+    expect(
+      evaluateQuorum(quorum, 3, votes("APPROVED", "APPROVED", "APPROVED"))
+    ).toBe("APPROVED");
+  });
+
+  it("rejects all on the first rejection", () => {
+    expect(
+      evaluateQuorum({ type: "all" }, 3, votes("APPROVED", "REJECTED"))
+    ).toBe("REJECTED");
+  });
+
+  it("approves a count once enough approvals are in", () => {
+    const quorum = { type: "count", count: 2 } as const;
+
+    expect(evaluateQuorum(quorum, 4, votes("APPROVED"))).toBeNull();
+    expect(
+      evaluateQuorum(quorum, 4, votes("APPROVED", "REJECTED", "APPROVED"))
+    ).toBe("APPROVED");
+  });
+
+  it("rejects a count once it can no longer be reached", () => {
+    const quorum = { type: "count", count: 2 } as const;
+
+    expect(evaluateQuorum(quorum, 3, votes("REJECTED"))).toBeNull();
+    expect(evaluateQuorum(quorum, 3, votes("REJECTED", "REJECTED"))).toBe(
+      "REJECTED"
+    );
+  });
+
+  it("sends the request back on any request for changes", () => {
+    expect(
+      evaluateQuorum(
+        { type: "all" },
+        3,
+        votes("APPROVED", "CHANGES_REQUESTED")
+      )
+    ).toBe("CHANGES_REQUESTED");
+    expect(
+      evaluateQuorum(undefined, 3, votes("APPROVED", "CHANGES_REQUESTED"))
+    ).toBe("CHANGES_REQUESTED");
+  });
+});
+
+describe("buildAssignments", () => {
+  it("keeps one assignment per assignee when a delegate covers several", () => {
+    const assignments = buildAssignments(
+      ["alice", "bob", "carol"],
+      new Map([
+        ["alice", "dave"],
+        ["bob", "dave"],
+      ]),
+      "requester"
+    );
+
+    expect(assignments).toEqual([
+      { userId: "dave", onBehalfOfId: "alice" },
+      { userId: "dave", onBehalfOfId: "bob" },
+      { userId: "carol", onBehalfOfId: null },
+    ]);
+    expect(getRequiredApprovals({ type: "all" }, assignments.length)).toBe(3);
+  });
+
+  it("keeps an assignee's own assignment when they also cover someone", () => {
+    expect(
+      buildAssignments(["alice", "bob"], new Map([["alice", "bob"]]), "req")
+    ).toEqual([
+      { userId: "bob", onBehalfOfId: "alice" },
+      { userId: "bob", onBehalfOfId: null },
+    ]);
+  });
+
+  it("never hands an assignment to the requester", () => {
+    expect(
+      buildAssignments(["alice"], new Map([["alice", "req"]]), "req")
+    ).toEqual([{ userId: "alice", onBehalfOfId: null }]);
+  });
+});
+
+describe("findOpenAssignment", () => {
+  const assignments: Assignment[] = [
+    { userId: "bob", onBehalfOfId: "alice" },
+    { userId: "bob", onBehalfOfId: null },
+    { userId: "carol", onBehalfOfId: null },
+  ];
+
+  it("fills the user's own assignment first", () => {
+    expect(findOpenAssignment(assignments, "bob", [])).toEqual({
+      userId: "bob",
+      onBehalfOfId: null,
+    });
+  });
+
+  it("then the assignments of those they stand in for", () => {
+    expect(
+      findOpenAssignment(assignments, "bob", [
+        { approverId: "bob", onBehalfOfId: null },
+      ])
+    ).toEqual({ userId: "bob", onBehalfOfId: "alice" });
+  });
+
+  it("returns null once every assignment of the user has a vote", () => {
+    const decisions = [
+      { approverId: "bob", onBehalfOfId: null },
+      { approverId: "bob", onBehalfOfId: "alice" },
+    ];
+
+    expect(findOpenAssignment(assignments, "bob", decisions)).toBeNull();
+    expect(findOpenAssignment(assignments, "carol", decisions)).toEqual({
+      userId: "carol",
+      onBehalfOfId: null,
+    });
+    expect(findOpenAssignment(assignments, "dave", decisions)).toBeNull();
+  });
+
+  it("counts every vote towards the quorum of the whole step", () => {
+    const eligible = assignments.length;
+    const decisions = [
+      { approverId: "bob", onBehalfOfId: null },
+      { approverId: "bob", onBehalfOfId: "alice" },
+    ].map((d) => ({ ...d, decision: "APPROVED" as const }));
+
+    expect(evaluateQuorum({ type: "all" }, eligible, decisions)).toBeNull();
+    expect(
+      evaluateQuorum({ type: "count", count: 2 }, eligible, decisions)
+    ).toBe("APPROVED");
+  });
+});
@@ -0,0 +1,115 @@
+import type { StepQuorum } from "@/lib/step-config";
+
+export type Decision = "APPROVED" | "REJECTED" | "CHANGES_REQUESTED";
+
+/**
+ * One assignee's vote on a step, cast by the assignee or by the delegate
+ * standing in for them. A step has one assignment per assignee, so a
+ * delegate covering several assignees holds several of them.
+ */
+export interface Assignment {
+  userId: string;
+  // The assignee this user is standing in for as their delegate
+  onBehalfOfId: string | null;
+}
+
+/**
+ * Gives each assignee their assignment, held by their delegate while they
+ * are away. Assignees are never merged, so the number of assignments is the
+ * number of eligible votes however the delegations overlap.
+ */
+export function buildAssignments(
+  assigneeIds: string[],
+  delegates: Map<string, string>,
+  requesterId: string
+): Assignment[] {
+  return assigneeIds.map((assigneeId) => {
+    const delegateId = delegates.get(assigneeId);
+    // Requesters never approve their own request, even as a delegate
+    return delegateId && delegateId !== requesterId
+      ? { userId: delegateId, onBehalfOfId: assigneeId }
+      : { userId: assigneeId, onBehalfOfId: null };
+  });
+}
+
+/**
+ * The assignment a user's next vote is for: the first of theirs no current
+ * vote has been cast for, their own before those they stand in for. A vote
+ * counts for the assignee it was cast on behalf of, or else its voter.
+ */
+export function findOpenAssignment(
+  assignments: Assignment[],
+  userId: string,
+  decisions: Array<{ approverId: string; onBehalfOfId: string | null }>
+): Assignment | null {
+  const voted = new Set(decisions.map((d) => d.onBehalfOfId ?? d.approverId));
+  const open = assignments.filter(
+    (a) => a.userId === userId && !voted.has(a.onBehalfOfId ?? a.userId)
+  );
+  return open.find((a) => !a.onBehalfOfId) ?? open[0] ?? null;
+}
+
+/**
+ * Number of approvals a step needs from its eligible approvers. A fixed count
+ * is capped at the number of approvers so a step never becomes unreachable
+ * because its group or role shrank.
+ */
+export function getRequiredApprovals(
+  quorum: StepQuorum,
+  eligibleCount: number
+) {
+  switch (quorum.type) {
+    case "any":
+      return 1;
+    case "all":
+      return Math.max(eligibleCount, 1);
+    case "count":
+      return Math.max(Math.min(quorum.count, eligibleCount), 1);
+  }
+}
+
+/**
+ * Decides an approval step from the votes cast so far. Returns null while the
+ * outcome is still open: the step approves once enough approvals are in and
+ * rejects as soon as the remaining approvers can no longer reach the quorum.
+ * A request for changes from any approver sends the request back immediately.
+ */
+export function evaluateQuorum(
+  quorum: StepQuorum | undefined,
+  eligibleCount: number,
+  decisions: Array<{ decision: Decision }>
+): Decision | null {
+  if (decisions.some((d) => d.decision === "CHANGES_REQUESTED")) {
+    return "CHANGES_REQUESTED";
+  }
+
+  // Without a quorum rule the first decision decides the step
+  if (!quorum) {
+    return decisions[0]?.decision ?? null;
+  }
+
+  const required = getRequiredApprovals(quorum, eligibleCount);
+  const approvals = decisions.filter((d) => d.decision === "APPROVED").length;
+  const rejections = decisions.filter((d) => d.decision === "REJECTED").length;
+
+  if (approvals >= required) {
+    return "APPROVED";
+  }
+  if (eligibleCount - rejections < required) {
+    return "REJECTED";
+  }
+  return null;
+}
+
+export function describeQuorum(quorum: StepQuorum | undefined) {
+  switch (quorum?.type) {
+    case "any":
+      return "Any one approval";
+    case "all":
+      return "All approvers";
+    case "count":
+      return `${quorum.count} approval${quorum.count === 1 ? "" : "s"} required`;
+    default:
+      return "Single decision";
+  }
+}
@@ -0,0 +1,76 @@
+import { EventEmitter } from "events";
+import type { Notification } from "@prisma/client";
+import { db } from "@/lib/db";
+
+export type RealtimeEvent =
+  | {
+      type: "notifications";
+      userId: string;
+      unreadCount: number;
+      // Set when the update is a new notification
+      notification?: Notification;
+    }
+  | { type: "process"; processInstanceId: string };
+
+// Route handlers and the scheduler (loaded from instrumentation.ts) are
+// bundled separately, so the emitter lives on globalThis to be shared
+const globalForRealtime = globalThis as unknown as {
+  realtimeEvents: EventEmitter | undefined;
+};
+
+function getEmitter() {
+  if (!globalForRealtime.realtimeEvents) {
+    globalForRealtime.realtimeEvents = new EventEmitter();
+    // One listener per open connection
+    globalForRealtime.realtimeEvents.setMaxListeners(0);
+  }
+  return globalForRealtime.realtimeEvents;
+}
+
+/**
+ * Listens for updates to push to connected clients. Only sees events
+ * published by this server process. Returns a function that stops
+ * listening.
+ */
+export function subscribeRealtime(listener: (event: RealtimeEvent) => void) {
+  const emitter = getEmitter();
+  emitter.on("event", listener);
+  return () => {
+    emitter.off("event", listener);
+  };
+}
+
+/**
+ * Tells a user's clients that their notifications changed, with the new
+ * notification if there is one. Never throws.
+ */
+export async function publishNotifications(
+  userId: string,
+  notification?: Notification
+) {
+  try {
+    const unreadCount = await db.notification.count({
+      where: { userId, isRead: false },
+    });
+    getEmitter().emit("event", {
+      type: "notifications",
+      userId,
+      unreadCount,
+      notification,
+    } satisfies RealtimeEvent);
+  } catch (error) {
+    console.error(`Failed to publish notifications for ${userId}:`, error);
+  }
+}
+
+/**
+ * Tells clients watching a process that its status or steps changed. Each
+ * connection checks that its user can still see the process before passing
+ * it on.
+ */
+export function publishProcessUpdate(processInstanceId: string) {
+  getEmitter().emit("event", {
+    type: "process",
+    processInstanceId,
+  } satisfies RealtimeEvent);
+}
@@ -0,0 +1,296 @@
+import { once } from "events";
+import { PassThrough, type Readable } from "stream";
+import type { Prisma } from "@prisma/client";
+import ExcelJS from "exceljs";
+import PDFDocument from "pdfkit";
+import Papa from "papaparse";
+import { format } from "date-fns";
+import { db } from "@/lib/db";
+import { slaBreachedStepWhere } from "@/lib/sla";
+import {
+  escapeSpreadsheetFormula,
+  SPREADSHEET_FORMULA_PATTERN,
+} from "@/lib/utils";
+import {
+  findReportFieldColumns,
+  forEachReportBatch,
+  lastApproverName,
+  reportHeaders,
+  reportInclude,
+  reportRow,
+} from "./index";
+
+export const reportExportFormats = ["csv", "xlsx", "pdf"] as const;
+
+export type ReportExportFormat = (typeof reportExportFormats)[number];
+
+export const reportExportFiles: Record<
+  ReportExportFormat,
+  { contentType: string; extension: string }
+> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  xlsx: {
+    contentType:
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+  },
+  pdf: { contentType: "application/pdf", extension: "pdf" },
+};
+
+export interface ReportExportOptions {
+  where: Prisma.ProcessInstanceWhereInput;
+  // One column per form field rather than the form data as JSON. PDFs only
+  // show a summary, so they ignore it.
+  flatten: boolean;
+  // The heading of a PDF, and its filters in words
+  title: string;
+  filterLines: string[];
+}
+
+// PDFs are meant for printing; larger reports are better read as CSV or XLSX
+const PDF_ROW_LIMIT = 500;
+
+/**
+ * Generates a report export into a stream as it is read, so exports of any
+ * size run in constant memory. Errors end the stream with the error.
+ */
+export function streamReportExport(
+  exportFormat: ReportExportFormat,
+  options: ReportExportOptions
+): Readable {
+  const output = new PassThrough();
+  const writers = { csv: writeCsv, xlsx: writeXlsx, pdf: writePdf };
+
+  writers[exportFormat](output, options).catch((error) => {
+    console.error(`Failed to export ${exportFormat} report:`, error);
+    output.destroy(error);
+  });
+  return output;
+}
+
+// Waits for the reader to catch up, or stops if it went away
+async function write(output: PassThrough, chunk: string) {
+  if (output.destroyed) throw new Error("Report export was cancelled");
+  if (!output.write(chunk)) {
+    await Promise.race([once(output, "drain"), once(output, "close")]);
+  }
+}
+
+async function writeCsv(
+  output: PassThrough,
+  { where, flatten }: ReportExportOptions
+) {
+  const fieldColumns = flatten ? await findReportFieldColumns(where) : null;
+
+  // Form data and names are user input, so formulas in them are escaped
+  const unparseConfig = { escapeFormulae: SPREADSHEET_FORMULA_PATTERN };
+
+  await write(
+    output,
+    `${Papa.unparse([reportHeaders(fieldColumns)], unparseConfig)}\r\n`
+  );
+  await forEachReportBatch(where, (processes) =>
+    write(
+      output,
+      `${Papa.unparse(
+        processes.map((p) => reportRow(p, fieldColumns)),
+        unparseConfig
+      )}\r\n`
+    )
+  );
+  output.end();
+}
+
+async function writeXlsx(
+  output: PassThrough,
+  { where, flatten }: ReportExportOptions
+) {
+  const fieldColumns = flatten ? await findReportFieldColumns(where) : null;
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+  });
+  const sheet = workbook.addWorksheet("Report", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  sheet.columns = reportHeaders(fieldColumns).map((header) => ({
+    header: escapeSpreadsheetFormula(header),
+    width: Math.max(12, header.length + 2),
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  await forEachReportBatch(where, (processes) => {
+    if (output.destroyed) throw new Error("Report export was cancelled");
+    for (const process of processes) {
+      sheet
+        .addRow(reportRow(process, fieldColumns).map(escapeSpreadsheetFormula))
+        .commit();
+    }
+  });
+
+  sheet.commit();
+  // Finishes the file and ends the stream
+  await workbook.commit();
+}
+
+const pdfColumns = [
+  { header: "Workflow", width: 190 },
+  { header: "Status", width: 100 },
+  { header: "Created By", width: 140 },
+  { header: "Created", width: 90 },
+  { header: "Last Approver", width: 140 },
+  { header: "SLA Breached", width: 80 },
+];
+
+const PDF_ROW_HEIGHT = 16;
+
+/**
+ * A printable summary: counts by status and workflow, then the most recent
+ * processes in a table.
+ */
+async function writePdf(
+  output: PassThrough,
+  { where, title, filterLines }: ReportExportOptions
+) {
+  const [total, breached, byStatus, byWorkflow, processes] =
+    await Promise.all([
+      db.processInstance.count({ where }),
+      db.processInstance.count({
+        where: { AND: [where, { steps: { some: slaBreachedStepWhere() } }] },
+      }),
+      db.processInstance.groupBy({
+        by: ["status"],
+        where,
+        _count: { _all: true },
+        orderBy: { status: "asc" },
+      }),
+      db.processInstance.groupBy({
+        by: ["workflowTemplateId"],
+        where,
+        _count: { _all: true },
+        orderBy: { workflowTemplateId: "asc" },
+      }),
+      db.processInstance.findMany({
+        where,
+        include: reportInclude,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+        take: PDF_ROW_LIMIT,
+      }),
+    ]);
+  const workflows = await db.workflowTemplate.findMany({
+    where: { id: { in: byWorkflow.map((group) => group.workflowTemplateId) } },
+    select: { id: true, name: true },
+  });
+  const workflowNames = new Map(workflows.map((w) => [w.id, w.name]));
+
+  const doc = new PDFDocument({
+    size: "A4",
+    layout: "landscape",
+    margin: 40,
+    info: { Title: title },
+  });
+  doc.pipe(output);
+
+  doc.fontSize(18).font("Helvetica-Bold").text(title);
+  doc
+    .fontSize(10)
+    .font("Helvetica")
+    .fillColor("#555555")
+    .text(`Generated ${format(new Date(), "MMM d, yyyy h:mm a")}`)
+    .text(filterLines.length > 0 ? filterLines.join(" · ") : "All processes")
+    .moveDown();
+
+  doc.fillColor("#000000").fontSize(12).font("Helvetica-Bold").text("Summary");
+  doc
+    .fontSize(10)
+    .font("Helvetica")
+    .text(`Processes: ${total}`)
+    .text(`SLA breached: ${breached}`)
+    .moveDown(0.5)
+    .text(
+      `By status: ${
+        byStatus
+          .map(
+            (group) =>
+              `${group.status.replace(/_/g, " ")} ${group._count._all}`
+          )
+          .join(", ") || "-"
+      }`
+    )
+    .text(
+      `By workflow: ${
+        byWorkflow
+          .map(
+            (group) =>
+              `${workflowNames.get(group.workflowTemplateId) ?? "Unknown"} ${
+                group._count._all
+              }`
+          )
+          .join(", ") || "-"
+      }`
+    )
+    .moveDown();
+
+  const left = doc.page.margins.left;
+  const bottom = () => doc.page.height - doc.page.margins.bottom;
+
+  function drawRow(cells: string[], bold = false) {
+    if (doc.y + PDF_ROW_HEIGHT > bottom()) {
+      doc.addPage();
+      drawRow(
+        pdfColumns.map((column) => column.header),
+        true
+      );
+    }
+    const y = doc.y;
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(9);
+    let x = left;
+    cells.forEach((cell, i) => {
+      // Cut to one line
+      doc.text(cell, x, y, {
+        width: pdfColumns[i].width - 6,
+        height: PDF_ROW_HEIGHT - 4,
+        ellipsis: true,
+      });
+      x += pdfColumns[i].width;
+    });
+    doc
+      .moveTo(left, y + PDF_ROW_HEIGHT - 4)
+      .lineTo(x, y + PDF_ROW_HEIGHT - 4)
+      .strokeColor("#dddddd")
+      .stroke();
+    doc.x = left;
+    doc.y = y + PDF_ROW_HEIGHT;
+  }
+
+  drawRow(
+    pdfColumns.map((column) => column.header),
+    true
+  );
+  for (const process of processes) {
+    drawRow([
+      process.workflowTemplate.name,
+      process.status.replace(/_/g, " "),
+      process.createdBy.name,
+      format(process.createdAt, "MMM d, yyyy"),
+      lastApproverName(process) ?? "-",
+      process.steps.some((step) => step.breachedAt) ? "Yes" : "No",
+    ]);
+  }
+
+  if (total > processes.length) {
+    doc
+      .moveDown()
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor("#555555")
+      .text(
+        `Showing the ${processes.length} most recent of ${total} processes. ` +
+          "Export as CSV or XLSX for every row.",
+        left
+      );
+  }
+
+  doc.end();
+}
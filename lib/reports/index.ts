@@ -0,0 +1,256 @@
+import { Prisma, ProcessStatus } from "@prisma/client";
+import { format } from "date-fns";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { slaBreachedStepWhere } from "@/lib/sla";
+import { getManagedUserIds, processVisibilityWhere } from "@/lib/visibility";
+import type { FormField } from "@/lib/form-validation";
+
+export const reportFiltersSchema = z.object({
+  workflowId: z.string().min(1).optional(),
+  status: z
+    .enum(Object.values(ProcessStatus) as [ProcessStatus])
+    .optional(),
+  approverId: z.string().min(1).optional(),
+  // Only processes with a step that missed its deadline
+  sla: z.enum(["breached"]).optional(),
+  // The requester's group, or everyone in a manager's team
+  groupId: z.string().min(1).optional(),
+  managerId: z.string().min(1).optional(),
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+});
+
+export type ReportFilters = z.infer<typeof reportFiltersSchema>;
+
+interface Viewer {
+  id: string;
+  role: string;
+}
+
+/** The processes a report covers, of those the user can see. */
+export async function reportWhere(
+  viewer: Viewer,
+  filters: ReportFilters
+): Promise<Prisma.ProcessInstanceWhereInput> {
+  const { workflowId, status, approverId, sla, groupId, managerId } = filters;
+  const { startDate, endDate } = filters;
+
+  return {
+    AND: [
+      await processVisibilityWhere(viewer),
+      sla === "breached" ? { steps: { some: slaBreachedStepWhere() } } : {},
+    ],
+    workflowTemplateId: workflowId,
+    status,
+    createdAt:
+      startDate || endDate ? { gte: startDate, lte: endDate } : undefined,
+    steps: approverId ? { some: { actedById: approverId } } : undefined,
+    createdBy: groupId
+      ? { groupMemberships: { some: { groupId } } }
+      : undefined,
+    createdById: managerId
+      ? { in: await getManagedUserIds(managerId) }
+      : undefined,
+  };
+}
+
+/** The filters in words, e.g. for the heading of a printed report. */
+export async function describeReportFilters(filters: ReportFilters) {
+  const { workflowId, status, approverId, groupId, managerId } = filters;
+  const [workflow, approver, group, manager] = await Promise.all([
+    workflowId
+      ? db.workflowTemplate.findUnique({ where: { id: workflowId } })
+      : null,
+    approverId ? db.user.findUnique({ where: { id: approverId } }) : null,
+    groupId ? db.group.findUnique({ where: { id: groupId } }) : null,
+    managerId ? db.user.findUnique({ where: { id: managerId } }) : null,
+  ]);
+
+  const { startDate, endDate } = filters;
+  const lines: string[] = [];
+  if (workflow) lines.push(`Workflow: ${workflow.name}`);
+  if (status) lines.push(`Status: ${status.replace(/_/g, " ")}`);
+  if (approver) lines.push(`Approver: ${approver.name}`);
+  if (filters.sla === "breached") lines.push("SLA breached");
+  if (group) lines.push(`Group: ${group.name}`);
+  if (manager) lines.push(`Team of ${manager.name}`);
+  if (startDate || endDate) {
+    const from = startDate ? format(startDate, "MMM d, yyyy") : "the start";
+    const to = endDate ? format(endDate, "MMM d, yyyy") : "now";
+    lines.push(`Created from ${from} to ${to}`);
+  }
+  return lines;
+}
+
+export const reportInclude = {
+  workflowTemplate: {
+    select: { id: true, name: true },
+  },
+  createdBy: {
+    select: { id: true, name: true, email: true },
+  },
+  steps: {
+    include: {
+      workflowStep: true,
+      actedBy: { select: { id: true, name: true } },
+    },
+    orderBy: { workflowStep: { stepOrder: "asc" } },
+  },
+} satisfies Prisma.ProcessInstanceInclude;
+
+export type ReportProcess = Prisma.ProcessInstanceGetPayload<{
+  include: typeof reportInclude;
+}>;
+
+const REPORT_BATCH_SIZE = 500;
+
+/**
+ * Loads every process a report covers, newest first, a batch at a time, so
+ * exports don't need to hold the whole report in memory.
+ */
+export async function forEachReportBatch(
+  where: Prisma.ProcessInstanceWhereInput,
+  handle: (processes: ReportProcess[]) => Promise<void> | void
+) {
+  let cursor: string | null = null;
+  for (;;) {
+    const processes: ReportProcess[] = await db.processInstance.findMany({
+      where,
+      include: reportInclude,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: REPORT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    if (processes.length === 0) return;
+
+    await handle(processes);
+    cursor = processes[processes.length - 1].id;
+  }
+}
+
+// A form field flattened into its own column
+export interface ReportFieldColumn {
+  workflowTemplateId: string;
+  name: string;
+  header: string;
+}
+
+/**
+ * One column per form field of each workflow in the report, for exports that
+ * flatten the form data. Fields are collected from every version of the
+ * workflows so older requests keep their values; a field's latest label is
+ * used. Headers are prefixed with the workflow's name when the report spans
+ * several workflows.
+ */
+export async function findReportFieldColumns(
+  where: Prisma.ProcessInstanceWhereInput
+): Promise<ReportFieldColumn[]> {
+  const workflows = await db.workflowTemplate.findMany({
+    where: { processes: { some: where } },
+    select: {
+      id: true,
+      name: true,
+      versions: {
+        select: { formSchema: { select: { fields: true } } },
+        orderBy: { version: "asc" },
+      },
+    },
+    orderBy: { name: "asc" },
+  });
+
+  return workflows.flatMap((workflow) => {
+    // Oldest version first: fields keep the position they were added at,
+    // and later versions update their labels
+    const labels = new Map<string, string>();
+    for (const version of workflow.versions) {
+      const fields = (version.formSchema?.fields ?? []) as unknown as
+        FormField[];
+      for (const field of fields) {
+        labels.set(field.name, field.label);
+      }
+    }
+
+    return Array.from(labels.entries()).map(([name, label]) => ({
+      workflowTemplateId: workflow.id,
+      name,
+      header: workflows.length > 1 ? `${workflow.name}: ${label}` : label,
+    }));
+  });
+}
+
+const reportColumns = [
+  "ID",
+  "Workflow",
+  "Status",
+  "Created By",
+  "Created By Email",
+  "Created At",
+  "Updated At",
+  "Last Approver",
+  "Completion Date",
+  "SLA Breached",
+];
+
+function formatDate(date: Date) {
+  return format(date, "yyyy-MM-dd HH:mm:ss");
+}
+
+// Files show their name, lists their items, anything else as JSON
+function formatFieldValue(value: unknown) {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) return value.map(String).join(", ");
+  if (typeof value === "object") {
+    const { name } = value as { name?: unknown };
+    return typeof name === "string" ? name : JSON.stringify(value);
+  }
+  return String(value);
+}
+
+export function lastApproverName(process: ReportProcess) {
+  return process.steps
+    .filter((step) => step.actedBy)
+    .map((step) => step.actedBy!.name)
+    .pop();
+}
+
+/**
+ * The columns of a report export: the process details, then either one
+ * column per form field or the whole form data as JSON in one column.
+ */
+export function reportHeaders(fieldColumns: ReportFieldColumn[] | null) {
+  return [
+    ...reportColumns,
+    ...(fieldColumns
+      ? fieldColumns.map((column) => column.header)
+      : ["Form Data"]),
+  ];
+}
+
+/** A process as a row of `reportHeaders`. */
+export function reportRow(
+  process: ReportProcess,
+  fieldColumns: ReportFieldColumn[] | null
+) {
+  const formData = (process.formData ?? {}) as Record<string, unknown>;
+
+  return [
+    process.id,
+    process.workflowTemplate.name,
+    process.status,
+    process.createdBy.name,
+    process.createdBy.email,
+    formatDate(process.createdAt),
+    formatDate(process.updatedAt),
+    lastApproverName(process) ?? "",
+    process.status === "COMPLETED" ? formatDate(process.updatedAt) : "",
+    process.steps.some((step) => step.breachedAt) ? "Yes" : "No",
+    ...(fieldColumns
+      ? fieldColumns.map((column) =>
+          column.workflowTemplateId === process.workflowTemplateId
+            ? formatFieldValue(formData[column.name])
+            : ""
+        )
+      : [JSON.stringify(formData)]),
+  ];
+}
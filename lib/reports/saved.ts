@@ -0,0 +1,448 @@
+import {
+  endOfMonth,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfWeek,
+  subDays,
+  subMonths,
+  subWeeks,
+} from "date-fns";
+import { Prisma, ReportSchedule } from "@prisma/client";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { getStorage } from "@/lib/storage";
+import { createNotification } from "@/lib/notifications";
+import { can, rolesWith } from "@/lib/permissions";
+import {
+  describeReportFilters,
+  reportFiltersSchema,
+  reportWhere,
+  type ReportFilters,
+} from "./index";
+import {
+  reportExportFiles,
+  reportExportFormats,
+  streamReportExport,
+  type ReportExportFormat,
+} from "./export";
+
+// Date ranges relative to when a report runs, so a weekly report always
+// covers the week before it
+export const reportPeriods = {
+  last_7_days: "Last 7 days",
+  last_30_days: "Last 30 days",
+  previous_week: "Previous week",
+  previous_month: "Previous month",
+} as const;
+
+export type ReportPeriod = keyof typeof reportPeriods;
+
+export const savedReportFiltersSchema = reportFiltersSchema.extend({
+  // Replaces the start and end dates when set
+  period: z.enum(Object.keys(reportPeriods) as [ReportPeriod]).optional(),
+});
+
+export type SavedReportFilters = z.infer<typeof savedReportFiltersSchema>;
+
+export const savedReportSchema = z
+  .object({
+    name: z.string().min(1).max(255),
+    filters: savedReportFiltersSchema,
+    format: z.enum(reportExportFormats),
+    flatten: z.boolean(),
+    sharedGroupIds: z.array(z.string().min(1)),
+    recipientIds: z.array(z.string().min(1)),
+    schedule: z
+      .enum(Object.values(ReportSchedule) as [ReportSchedule])
+      .nullable(),
+    scheduleDay: z.number().int().min(0).max(28).nullable(),
+    scheduleHour: z.number().int().min(0).max(23),
+  })
+  .refine(
+    ({ schedule, scheduleDay }) =>
+      schedule === "WEEKLY"
+        ? scheduleDay !== null && scheduleDay <= 6
+        : schedule === "MONTHLY"
+          ? scheduleDay !== null && scheduleDay >= 1
+          : true,
+    {
+      message:
+        "Pick a day of the week for weekly reports, or a day of the month " +
+        "from 1 to 28 for monthly ones",
+      path: ["scheduleDay"],
+    }
+  );
+
+export type SavedReportInput = z.infer<typeof savedReportSchema>;
+
+export const savedReportInclude = {
+  owner: { select: { id: true, name: true } },
+  runs: { orderBy: { startedAt: "desc" }, take: 1 },
+} satisfies Prisma.SavedReportInclude;
+
+// What the audit log records of a saved report
+export function savedReportAuditValue(report: {
+  id: string;
+  name: string;
+  filters: Prisma.JsonValue;
+  format: string;
+  flatten: boolean;
+  sharedGroupIds: string[];
+  recipientIds: string[];
+  schedule: ReportSchedule | null;
+  scheduleDay: number | null;
+  scheduleHour: number;
+}) {
+  return {
+    savedReportId: report.id,
+    name: report.name,
+    filters: report.filters,
+    format: report.format,
+    flatten: report.flatten,
+    sharedGroupIds: report.sharedGroupIds,
+    recipientIds: report.recipientIds,
+    schedule: report.schedule,
+    scheduleDay: report.scheduleDay,
+    scheduleHour: report.scheduleHour,
+  };
+}
+
+interface Viewer {
+  id: string;
+  role: string;
+}
+
+/**
+ * The saved reports a user can see: their own and, if they can see every
+ * process, those shared with a group they're in and those they receive.
+ * Reports run with their owner's access, so other users would be shown
+ * processes they can't open themselves. Sharing is checked when a report is
+ * saved (see `findSharingError`); this covers users whose role changed or who
+ * joined a group since.
+ */
+export async function savedReportVisibilityWhere(
+  viewer: Viewer
+): Promise<Prisma.SavedReportWhereInput> {
+  if (!can(viewer, "process.view.all")) {
+    return { ownerId: viewer.id };
+  }
+
+  const memberships = await db.groupMember.findMany({
+    where: { userId: viewer.id },
+    select: { groupId: true },
+  });
+
+  return {
+    OR: [
+      { ownerId: viewer.id },
+      { recipientIds: { has: viewer.id } },
+      { sharedGroupIds: { hasSome: memberships.map((m) => m.groupId) } },
+    ],
+  };
+}
+
+/** A saved report by id, or null if it's missing or the user can't see it. */
+export async function findVisibleSavedReport(viewer: Viewer, id: string) {
+  return db.savedReport.findFirst({
+    where: { AND: [{ id }, await savedReportVisibilityWhere(viewer)] },
+    include: savedReportInclude,
+  });
+}
+
+/**
+ * Why a report can't be shared as submitted, or null if it can. Groups and
+ * recipients must exist, and everyone it's shared with must be able to see
+ * every process: recipients, and the active members of shared groups. The
+ * owner can always receive their own report.
+ */
+export async function findSharingError(
+  ownerId: string,
+  {
+    sharedGroupIds,
+    recipientIds,
+  }: Pick<SavedReportInput, "sharedGroupIds" | "recipientIds">
+) {
+  const groupIds = Array.from(new Set(sharedGroupIds));
+  const groupCount = await db.group.count({ where: { id: { in: groupIds } } });
+  if (groupCount !== groupIds.length) {
+    return "One or more groups were not found";
+  }
+
+  const userIds = Array.from(new Set(recipientIds));
+  const recipients = await db.user.findMany({
+    where: { id: { in: userIds } },
+    select: { id: true, role: true },
+  });
+  if (recipients.length !== userIds.length) {
+    return "One or more recipients were not found";
+  }
+  if (
+    recipients.some(
+      (user) => user.id !== ownerId && !can(user, "process.view.all")
+    )
+  ) {
+    return "Reports can only be sent to users who can see all processes";
+  }
+
+  const restrictedMember = await db.groupMember.findFirst({
+    where: {
+      groupId: { in: groupIds },
+      user: {
+        id: { not: ownerId },
+        isActive: true,
+        role: { notIn: rolesWith("process.view.all") },
+      },
+    },
+    select: { group: { select: { name: true } } },
+  });
+  if (restrictedMember) {
+    return `Some members of ${restrictedMember.group.name} can't see all processes, so the report can't be shared with the group`;
+  }
+  return null;
+}
+
+interface Schedule {
+  schedule: ReportSchedule | null;
+  scheduleDay: number | null;
+  scheduleHour: number;
+}
+
+/** When a schedule next comes round after `after`, or null without one. */
+export function nextScheduledRun(
+  { schedule, scheduleDay, scheduleHour }: Schedule,
+  after = new Date()
+) {
+  if (!schedule) return null;
+
+  const next = new Date(after);
+  next.setHours(scheduleHour, 0, 0, 0);
+  switch (schedule) {
+    case "DAILY":
+      if (next <= after) next.setDate(next.getDate() + 1);
+      break;
+    case "WEEKLY":
+      next.setDate(next.getDate() + ((scheduleDay! - next.getDay() + 7) % 7));
+      if (next <= after) next.setDate(next.getDate() + 7);
+      break;
+    case "MONTHLY":
+      // Days are 28 at most, so every month has them
+      next.setDate(scheduleDay!);
+      if (next <= after) next.setMonth(next.getMonth() + 1);
+      break;
+  }
+  return next;
+}
+
+/** The report filters for a run at `now`, with the period turned into dates. */
+export function resolveSavedReportFilters(
+  filters: Prisma.JsonValue,
+  now = new Date()
+): ReportFilters {
+  const { period, ...rest } = savedReportFiltersSchema.parse(filters);
+  switch (period) {
+    case undefined:
+      return rest;
+    case "last_7_days":
+      return { ...rest, startDate: subDays(now, 7), endDate: now };
+    case "last_30_days":
+      return { ...rest, startDate: subDays(now, 30), endDate: now };
+    case "previous_week": {
+      const week = subWeeks(now, 1);
+      return {
+        ...rest,
+        startDate: startOfWeek(week),
+        endDate: endOfWeek(week),
+      };
+    }
+    case "previous_month": {
+      const month = subMonths(now, 1);
+      return {
+        ...rest,
+        startDate: startOfMonth(month),
+        endDate: endOfMonth(month),
+      };
+    }
+  }
+}
+
+/**
+ * The stored fields of a saved report as submitted, with its next run
+ * worked out from now.
+ */
+export function savedReportData(input: SavedReportInput, now = new Date()) {
+  const { filters, schedule, scheduleHour } = input;
+  // Daily reports have no day
+  const scheduleDay =
+    schedule && schedule !== "DAILY" ? input.scheduleDay : null;
+
+  return {
+    name: input.name,
+    // Dates are kept as strings, and parsed again when the report runs. A
+    // period replaces any dates.
+    filters: JSON.parse(
+      JSON.stringify(
+        filters.period
+          ? { ...filters, startDate: undefined, endDate: undefined }
+          : filters
+      )
+    ) as Prisma.InputJsonObject,
+    format: input.format,
+    flatten: input.flatten,
+    sharedGroupIds: Array.from(new Set(input.sharedGroupIds)),
+    recipientIds: Array.from(new Set(input.recipientIds)),
+    schedule,
+    scheduleDay,
+    scheduleHour,
+    nextRunAt: nextScheduledRun({ schedule, scheduleDay, scheduleHour }, now),
+  };
+}
+
+/** A saved report's filters in words, with its period. */
+export async function describeSavedReportFilters(filters: Prisma.JsonValue) {
+  const { period, ...rest } = savedReportFiltersSchema.parse(filters);
+  const lines = await describeReportFilters(rest);
+  if (period) {
+    lines.push(`Created in the ${reportPeriods[period].toLowerCase()}`);
+  }
+  return lines;
+}
+
+function runFileName(name: string, startedAt: Date, extension: string) {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "report"}-${format(startedAt, "yyyy-MM-dd")}.${extension}`;
+}
+
+/**
+ * Generates a saved report into a file in storage and records the run.
+ * Reports are generated with their owner's access; only users who can see
+ * every process are shown reports they don't own. Scheduled runs (without a
+ * user) are announced to the report's recipients. Failures are recorded on
+ * the run rather than thrown.
+ */
+export async function runSavedReport(
+  savedReportId: string,
+  triggeredById: string | null
+) {
+  const report = await db.savedReport.findUniqueOrThrow({
+    where: { id: savedReportId },
+    include: { owner: { select: { id: true, role: true } } },
+  });
+  const run = await db.reportRun.create({
+    data: { savedReportId, triggeredById },
+  });
+
+  const exportFormat = report.format as ReportExportFormat;
+  const { contentType, extension } = reportExportFiles[exportFormat];
+  const storageKey = `report-runs/${run.id}.${extension}`;
+
+  let completed;
+  try {
+    const filters = resolveSavedReportFilters(report.filters, run.startedAt);
+    const where = await reportWhere(report.owner, filters);
+    const [processCount, chunks] = await Promise.all([
+      db.processInstance.count({ where }),
+      streamReportExport(exportFormat, {
+        where,
+        flatten: report.flatten,
+        title: report.name,
+        filterLines: await describeReportFilters(filters),
+      }).toArray(),
+    ]);
+    const data = Buffer.concat(chunks);
+    await getStorage().put(storageKey, data, contentType);
+
+    completed = await db.reportRun.update({
+      where: { id: run.id },
+      data: {
+        status: "SUCCEEDED",
+        storageKey,
+        fileName: runFileName(report.name, run.startedAt, extension),
+        size: data.length,
+        processCount,
+        completedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error(`Failed to run saved report ${savedReportId}:`, error);
+    return db.reportRun.update({
+      where: { id: run.id },
+      data: {
+        status: "FAILED",
+        error: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  if (!triggeredById && report.recipientIds.length > 0) {
+    // Recipients whose role changed since are no longer told, except the
+    // owner
+    const recipients = await db.user.findMany({
+      where: {
+        id: { in: report.recipientIds },
+        isActive: true,
+        OR: [
+          { id: report.ownerId },
+          { role: { in: rolesWith("process.view.all") } },
+        ],
+      },
+      select: { id: true },
+    });
+    await Promise.all(
+      recipients.map((recipient) =>
+        createNotification({
+          userId: recipient.id,
+          reportRunId: run.id,
+          message: `Your scheduled report "${report.name}" is ready`,
+          type: "REPORT",
+          event: "report_ready",
+        })
+      )
+    );
+  }
+
+  return completed;
+}
+
+/**
+ * Runs every saved report whose schedule has come round. Safe to run from
+ * several servers at once: a report is claimed by moving its next run time
+ * on with a conditional update before it is generated. Reports that were
+ * due several times while no server was running are generated once.
+ */
+export async function runScheduledReports(now = new Date()) {
+  const due = await db.savedReport.findMany({
+    where: {
+      schedule: { not: null },
+      nextRunAt: { lte: now },
+      // Reports of deactivated users stop running until they are reactivated
+      owner: { isActive: true },
+    },
+    select: {
+      id: true,
+      schedule: true,
+      scheduleDay: true,
+      scheduleHour: true,
+      nextRunAt: true,
+    },
+    orderBy: { nextRunAt: "asc" },
+  });
+
+  for (const report of due) {
+    const claimed = await db.savedReport.updateMany({
+      where: { id: report.id, nextRunAt: report.nextRunAt },
+      data: { nextRunAt: nextScheduledRun(report, now) },
+    });
+    if (claimed.count === 0) continue;
+
+    try {
+      await runSavedReport(report.id, null);
+    } catch (error) {
+      console.error(`Failed to run scheduled report ${report.id}:`, error);
+    }
+  }
+}
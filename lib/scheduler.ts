@@ -0,0 +1,47 @@
+import { runSlaChecks } from "@/lib/sla";
+import { deleteOrphanedAttachments } from "@/lib/attachments";
+import { retryWebhookDeliveries } from "@/lib/webhooks";
+import { sendNotificationDigests } from "@/lib/channels";
+import { deleteExpiredActionLinks } from "@/lib/action-links";
+import { archiveExpiredAuditLogs } from "@/lib/audit-retention";
+import { runScheduledReports } from "@/lib/reports/saved";
+
+const DEFAULT_INTERVAL_MINUTES = 5;
+
+const globalForScheduler = globalThis as unknown as {
+  schedulerTimer: ReturnType<typeof setInterval> | undefined;
+};
+
+/**
+ * Runs the periodic background jobs in this server process. Started once
+ * from `instrumentation.ts`; the global guard keeps hot reloads in
+ * development from starting a second timer.
+ */
+export function startScheduler() {
+  if (globalForScheduler.schedulerTimer) return;
+
+  const minutes =
+    Number(process.env.SCHEDULER_INTERVAL_MINUTES) || DEFAULT_INTERVAL_MINUTES;
+  let running = false;
+
+  async function tick() {
+    // Skip a tick rather than overlap with a run that is still going
+    if (running) return;
+    running = true;
+    try {
+      await runSlaChecks();
+      await deleteOrphanedAttachments();
+      await retryWebhookDeliveries();
+      await sendNotificationDigests();
+      await deleteExpiredActionLinks();
+      await archiveExpiredAuditLogs();
+      await runScheduledReports();
+    } catch (error) {
+      console.error("Scheduler run failed:", error);
+    } finally {
+      running = false;
+    }
+  }
+
+  globalForScheduler.schedulerTimer = setInterval(tick, minutes * 60 * 1000);
+}
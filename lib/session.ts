@@ -0,0 +1,38 @@
+import { headers } from "next/headers";
+import type { Session } from "next-auth";
+import { auth } from "@/lib/auth";
+import { verifyApiToken, type ApiTokenScope } from "@/lib/api-tokens";
+
+export type ApiSession = Session & {
+  // The personal API token the request was made with, if any
+  apiTokenId?: string;
+};
+
+/**
+ * The signed-in user of an API request: either a browser session, or a
+ * personal API token sent as `Authorization: Bearer <token>`. A token is only
+ * accepted if it has `scope`; routes without a scope are for the browser
+ * only. Returns null when the request isn't authenticated.
+ */
+export async function getSession(
+  scope?: ApiTokenScope
+): Promise<ApiSession | null> {
+  const authorization = headers().get("authorization");
+  if (!authorization?.startsWith("Bearer ")) {
+    return auth();
+  }
+
+  if (!scope) return null;
+
+  const apiToken = await verifyApiToken(authorization.slice(7).trim());
+  if (!apiToken || !apiToken.scopes.includes(scope)) {
+    return null;
+  }
+
+  const { user } = apiToken;
+  return {
+    user: { id: user.id, name: user.name, email: user.email, role: user.role },
+    expires: (apiToken.expiresAt ?? new Date(8.64e15)).toISOString(),
+    apiTokenId: apiToken.id,
+  };
+}
@@ -0,0 +1,36 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+
+const SETTINGS_ID = "default";
+
+export interface AppSettingsValues {
+  // Whether users can sign in with an email and password, or only through
+  // single sign-on
+  passwordLoginEnabled: boolean;
+}
+
+const defaultSettings: AppSettingsValues = {
+  passwordLoginEnabled: true,
+};
+
+/** The installation's settings, or the defaults until an admin saves them. */
+export async function getAppSettings(): Promise<AppSettingsValues> {
+  const settings = await db.appSettings.findUnique({
+    where: { id: SETTINGS_ID },
+  });
+  if (!settings) return defaultSettings;
+
+  return { passwordLoginEnabled: settings.passwordLoginEnabled };
+}
+
+export async function saveAppSettings(
+  tx: Prisma.TransactionClient,
+  values: Partial<AppSettingsValues>
+): Promise<AppSettingsValues> {
+  const settings = await tx.appSettings.upsert({
+    where: { id: SETTINGS_ID },
+    create: { id: SETTINGS_ID, ...values },
+    update: values,
+  });
+  return { passwordLoginEnabled: settings.passwordLoginEnabled };
+}
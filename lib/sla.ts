@@ -0,0 +1,273 @@
+import { Prisma } from "@prisma/client";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit";
+import { notifyApprovers, notifyProcessCreator } from "@/lib/notifications";
+import { parseStepConfig, type StepEscalation } from "@/lib/step-config";
+import { resolveStep, supersedeDecisions } from "@/lib/engine";
+import { emitProcessEndEvent, emitWebhookEvent } from "@/lib/webhooks";
+import { publishProcessUpdate } from "@/lib/realtime";
+
+const HOUR = 60 * 60 * 1000;
+
+/**
+ * Approval steps that are still waiting after their deadline. Includes steps
+ * the scheduler hasn't got to yet.
+ */
+export function overdueStepWhere(
+  now = new Date()
+): Prisma.ProcessStepInstanceWhereInput {
+  return {
+    status: "PENDING",
+    dueAt: { lt: now },
+    processInstance: { status: "IN_PROGRESS" },
+  };
+}
+
+/**
+ * Steps that missed their deadline, whether they are still overdue or were
+ * decided late.
+ */
+export function slaBreachedStepWhere(
+  now = new Date()
+): Prisma.ProcessStepInstanceWhereInput {
+  return {
+    OR: [{ breachedAt: { not: null } }, overdueStepWhere(now)],
+  };
+}
+
+type SlaStep = Awaited<ReturnType<typeof findStepsWithSla>>[number];
+
+// Active steps with a deadline. Only the step a process is waiting on gets a
+// `dueAt`, so these are exactly the steps the SLA applies to right now.
+function findStepsWithSla() {
+  return db.processStepInstance.findMany({
+    where: {
+      status: "PENDING",
+      dueAt: { not: null },
+      processInstance: { status: "IN_PROGRESS" },
+    },
+    include: {
+      workflowStep: true,
+      processInstance: {
+        include: {
+          workflowTemplate: { select: { name: true } },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Sends due reminders and handles deadlines for every active approval step
+ * with an SLA. Safe to run from several servers at once: each reminder and
+ * breach is claimed with a conditional update before it is acted on.
+ */
+export async function runSlaChecks(now = new Date()) {
+  const steps = await findStepsWithSla();
+
+  for (const step of steps) {
+    try {
+      if (step.dueAt! <= now && !step.breachedAt) {
+        await handleBreach(step, now);
+      } else {
+        await sendReminder(step, now);
+      }
+    } catch (error) {
+      console.error(`Failed to run SLA checks for step ${step.id}:`, error);
+    }
+  }
+}
+
+async function sendReminder(step: SlaStep, now: Date) {
+  const { sla } = parseStepConfig(step.workflowStep.config);
+  if (!sla?.reminderIntervalHours) return;
+
+  const lastReminder = step.lastRemindedAt ?? step.activatedAt ?? now;
+  const interval = sla.reminderIntervalHours * HOUR;
+  if (now.getTime() - lastReminder.getTime() < interval) return;
+
+  const claimed = await db.processStepInstance.updateMany({
+    where: { id: step.id, lastRemindedAt: step.lastRemindedAt },
+    data: { lastRemindedAt: now },
+  });
+  if (claimed.count === 0) return;
+
+  const workflowName = step.processInstance.workflowTemplate.name;
+  await notifyApprovers(
+    step.processInstanceId,
+    workflowName,
+    step.workflowStep.config,
+    step.processInstance.createdById,
+    step.assignee,
+    step.dueAt! <= now
+      ? `Reminder: "${workflowName}" is overdue and waiting for your approval`
+      : `Reminder: "${workflowName}" is waiting for your approval`
+  );
+}
+
+async function handleBreach(step: SlaStep, now: Date) {
+  const { sla } = parseStepConfig(step.workflowStep.config);
+  const workflowName = step.processInstance.workflowTemplate.name;
+  const escalation = sla?.escalation;
+
+  const claimed = await db.$transaction(async (tx) => {
+    const claimed = await tx.processStepInstance.updateMany({
+      where: { id: step.id, status: "PENDING", breachedAt: null },
+      data: { breachedAt: step.dueAt },
+    });
+    if (claimed.count === 0) return false;
+
+    await createAuditLog(tx, {
+      processInstanceId: step.processInstanceId,
+      action: "SLA_BREACHED",
+      newValue: {
+        stepName: step.workflowStep.name,
+        dueAt: step.dueAt,
+        escalation: escalation?.type ?? null,
+      },
+      notes: `${step.workflowStep.name}: deadline passed`,
+    });
+    return true;
+  });
+  if (!claimed) return;
+
+  if (
+    escalation?.type === "auto_approve" ||
+    escalation?.type === "auto_reject"
+  ) {
+    await autoResolve(step, escalation.type, workflowName);
+  } else if (escalation) {
+    await escalate(step, escalation, workflowName, now);
+  } else {
+    await notifyApprovers(
+      step.processInstanceId,
+      workflowName,
+      step.workflowStep.config,
+      step.processInstance.createdById,
+      step.assignee,
+      `Overdue: "${workflowName}" has passed its approval deadline`
+    );
+  }
+
+  publishProcessUpdate(step.processInstanceId);
+}
+
+async function escalate(
+  step: SlaStep,
+  escalation: Extract<StepEscalation, { type: "user" | "role" }>,
+  workflowName: string,
+  now: Date
+) {
+  const assignee =
+    escalation.type === "user"
+      ? { type: "users" as const, userIds: [escalation.userId] }
+      : { type: "role" as const, role: escalation.role };
+
+  // Locked and checked again like a reassignment, so a vote can't land on
+  // the step while it changes hands. Votes from the previous assignees are
+  // superseded and the new ones decide the step from scratch.
+  const escalated = await db.$transaction(async (tx) => {
+    await tx.$executeRaw`
+      SELECT 1 FROM "ProcessStepInstance" WHERE id = ${step.id} FOR UPDATE
+    `;
+    const current = await tx.processStepInstance.findUniqueOrThrow({
+      where: { id: step.id },
+      select: { status: true, assignee: true },
+    });
+    if (current.status !== "PENDING") return false;
+
+    await supersedeDecisions(tx, step.id);
+    await tx.processStepInstance.update({
+      where: { id: step.id },
+      data: { assignee, escalatedAt: now },
+    });
+
+    await createAuditLog(tx, {
+      processInstanceId: step.processInstanceId,
+      action: "STEP_ESCALATED",
+      previousValue: { assignee: current.assignee },
+      newValue: { stepName: step.workflowStep.name, assignee },
+      notes: `${step.workflowStep.name}: escalated after missing its deadline`,
+    });
+    return true;
+  });
+  // Already decided by someone before the deadline handling got to it
+  if (!escalated) return;
+
+  await notifyApprovers(
+    step.processInstanceId,
+    workflowName,
+    step.workflowStep.config,
+    step.processInstance.createdById,
+    assignee,
+    `Escalated: "${workflowName}" is overdue and needs your approval`
+  );
+}
+
+async function autoResolve(
+  step: SlaStep,
+  type: "auto_approve" | "auto_reject",
+  workflowName: string
+) {
+  const outcome = type === "auto_approve" ? "APPROVED" : "REJECTED";
+  // Locked and checked again like a vote, so an approver deciding the step
+  // at the same moment either goes first and wins or waits and is refused
+  const result = await db.$transaction(async (tx) => {
+    await tx.$executeRaw`
+      SELECT 1 FROM "ProcessStepInstance" WHERE id = ${step.id} FOR UPDATE
+    `;
+    const current = await tx.processStepInstance.findUniqueOrThrow({
+      where: { id: step.id },
+      select: { status: true },
+    });
+    if (current.status !== "PENDING") return null;
+
+    const advance = await resolveStep(
+      tx,
+      step.id,
+      outcome,
+      null,
+      `Automatically ${outcome.toLowerCase()} after the deadline passed`
+    );
+
+    await createAuditLog(tx, {
+      processInstanceId: step.processInstanceId,
+      action:
+        outcome === "APPROVED" ? "STEP_AUTO_APPROVED" : "STEP_AUTO_REJECTED",
+      newValue: { stepName: step.workflowStep.name },
+      notes: `${step.workflowStep.name}: automatically ${outcome.toLowerCase()} after the deadline passed`,
+    });
+
+    return advance;
+  });
+  // Already decided by someone before the deadline handling got to it
+  if (!result) return;
+
+  const { status, activeStep } = result;
+  const eventContext = {
+    processInstanceId: step.processInstanceId,
+    stepInstanceId: step.id,
+  };
+  await emitWebhookEvent(
+    outcome === "APPROVED" ? "step.approved" : "step.rejected",
+    eventContext
+  );
+  await emitProcessEndEvent(status, eventContext);
+
+  await notifyProcessCreator(
+    step.processInstanceId,
+    step.processInstance.createdById,
+    outcome === "APPROVED" ? "approved" : "rejected",
+    workflowName
+  );
+
+  if (activeStep) {
+    await notifyApprovers(
+      step.processInstanceId,
+      workflowName,
+      activeStep.workflowStep.config,
+      step.processInstance.createdById,
+      activeStep.assignee
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import type { UserRole } from "@prisma/client";
+import type { Provider } from "next-auth/providers";
+import BoxyHQSAML from "next-auth/providers/boxyhq-saml";
+import bcrypt from "bcryptjs";
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit";
+
+const roles: UserRole[] = ["USER", "APPROVER", "ADMIN"];
+
+// The role of new users, and of users the role claim no longer maps
+const defaultRole: UserRole = "USER";
+
+/**
+ * The single sign-on providers configured through the environment: a generic
+ * OIDC provider, and SAML through a SAML Jackson service that bridges SAML
+ * identity providers to OAuth.
+ */
+export function getSsoProviders(): Provider[] {
+  const providers: Provider[] = [];
+
+  if (process.env.AUTH_OIDC_ISSUER) {
+    providers.push({
+      id: "oidc",
+      name: process.env.AUTH_OIDC_NAME || "SSO",
+      type: "oidc",
+      issuer: process.env.AUTH_OIDC_ISSUER,
+      clientId: process.env.AUTH_OIDC_CLIENT_ID,
+      clientSecret: process.env.AUTH_OIDC_CLIENT_SECRET,
+      authorization: {
+        params: { scope: process.env.AUTH_OIDC_SCOPE || "openid email profile" },
+      },
+      profile(profile) {
+        return {
+          id: profile.sub as string,
+          email: profile.email as string | undefined,
+          name: (profile.name || profile.preferred_username) as
+            | string
+            | undefined,
+        };
+      },
+    });
+  }
+
+  if (process.env.AUTH_SAML_ISSUER) {
+    providers.push(
+      BoxyHQSAML({
+        name: process.env.AUTH_SAML_NAME || "SAML",
+        issuer: process.env.AUTH_SAML_ISSUER,
+        // Jackson identifies the SAML connection by tenant and product, e.g.
+        // "tenant=example.com&product=process-ninja"
+        clientId: process.env.AUTH_SAML_CLIENT_ID || "dummy",
+        clientSecret: process.env.AUTH_SAML_CLIENT_SECRET || "dummy",
+        authorization: { params: { scope: "" } },
+      })
+    );
+  }
+
+  return providers;
+}
+
+// AUTH_SSO_ROLE_MAPPING lists claim values and the role they grant, e.g.
+// "process-admins=ADMIN,approvers=APPROVER"
+function parseRoleMapping(value: string) {
+  const mapping = new Map<string, UserRole>();
+  for (const entry of value.split(",")) {
+    const [claimValue, role] = entry.split("=").map((s) => s.trim());
+    if (!claimValue || !role) continue;
+    if (!roles.includes(role as UserRole)) {
+      console.warn(`Ignoring SSO role mapping to unknown role "${role}"`);
+      continue;
+    }
+    mapping.set(claimValue, role as UserRole);
+  }
+  return mapping;
+}
+
+const roleMapping = parseRoleMapping(process.env.AUTH_SSO_ROLE_MAPPING || "");
+const roleClaim = process.env.AUTH_SSO_ROLE_CLAIM || "groups";
+
+/**
+ * The role granted by the identity provider's role claim, or null when none
+ * of its values are mapped. When several values match, the most privileged
+ * role wins.
+ */
+export function mapRole(profile: Record<string, unknown>): UserRole | null {
+  // SAML Jackson passes the assertion's attributes through under `raw`
+  const raw = profile.raw as Record<string, unknown> | undefined;
+  const claim = profile[roleClaim] ?? raw?.[roleClaim];
+  const values = Array.isArray(claim) ? claim : claim ? [claim] : [];
+
+  let role: UserRole | null = null;
+  for (const value of values) {
+    const mapped = roleMapping.get(String(value));
+    if (mapped && (!role || roles.indexOf(mapped) > roles.indexOf(role))) {
+      role = mapped;
+    }
+  }
+  return role;
+}
+
+/**
+ * Whether the identity provider vouches for the user's email address, so it
+ * can be trusted to take over an existing account. OIDC providers say so in
+ * the `email_verified` claim; AUTH_OIDC_TRUST_EMAIL=true trusts providers
+ * that only issue verified addresses but don't send it. SAML assertions come
+ * from the organization's own identity provider, through a connection an
+ * admin set up in Jackson.
+ */
+function isEmailVerified(provider: string, profile: Record<string, unknown>) {
+  if (provider === "boxyhq-saml") return true;
+  return (
+    profile.email_verified === true ||
+    process.env.AUTH_OIDC_TRUST_EMAIL === "true"
+  );
+}
+
+/**
+ * Finds or creates the user signing in through single sign-on. Users are
+ * matched by email, so accounts created by an admin can switch to SSO, but
+ * only when the provider has verified the address. When roles are mapped
+ * the identity provider is in charge of them: the mapped role replaces the
+ * user's role on every sign-in, and users it no longer maps fall back to
+ * the default role. Returns null when the user can't sign in: the provider
+ * gave no email, the address of an existing account isn't verified, or the
+ * account is deactivated.
+ */
+export async function provisionSsoUser(
+  provider: string,
+  user: { email?: string | null; name?: string | null },
+  profile: Record<string, unknown>
+) {
+  const email = user.email?.trim();
+  if (!email) return null;
+
+  const role = roleMapping.size > 0 ? mapRole(profile) ?? defaultRole : null;
+  const existing = await db.user.findUnique({ where: { email } });
+
+  if (existing) {
+    if (!existing.isActive) return null;
+    if (!isEmailVerified(provider, profile)) {
+      console.warn(
+        `Refused ${provider} sign-in to ${email}: the address isn't verified`
+      );
+      return null;
+    }
+    if (!role || role === existing.role) return existing;
+
+    return db.$transaction(async (tx) => {
+      const updated = await tx.user.update({
+        where: { id: existing.id },
+        data: { role },
+      });
+      await createAuditLog(tx, {
+        action: "USER_UPDATED",
+        previousValue: { userId: existing.id, role: existing.role },
+        newValue: { userId: existing.id, role },
+        notes: `Role of ${existing.name} updated from ${provider} sign-in`,
+      });
+      return updated;
+    });
+  }
+
+  // SSO users have no password of their own; an admin can still reset one
+  const name = user.name?.trim() || email;
+  const passwordHash = await bcrypt.hash(crypto.randomUUID(), 10);
+  return db.$transaction(async (tx) => {
+    const created = await tx.user.create({
+      data: { name, email, role: role ?? defaultRole, passwordHash },
+    });
+    await createAuditLog(tx, {
+      action: "USER_PROVISIONED",
+      newValue: {
+        userId: created.id,
+        name,
+        email,
+        role: created.role,
+        provider,
+      },
+      notes: `Created user ${name} (${email}) on first ${provider} sign-in`,
+    });
+    return created;
+  });
+}
@@ -0,0 +1,312 @@
+import { db } from "@/lib/db";
+import { createAuditLog } from "@/lib/audit";
+import { notifyProcessCreator, notifyApprovers } from "@/lib/notifications";
+import { resolveAssignments } from "@/lib/assignees";
+import { parseStepConfig } from "@/lib/step-config";
+import { findOpenAssignment, getRequiredApprovals } from "@/lib/quorum";
+import { getActiveStep, recordDecision } from "@/lib/engine";
+import {
+  emitProcessEndEvent,
+  emitWebhookEvent,
+  type WebhookEvent,
+} from "@/lib/webhooks";
+import { publishProcessUpdate } from "@/lib/realtime";
+import { claimActionLink, type ActionLink } from "@/lib/action-links";
+
+export const stepActions = ["approve", "reject", "request_changes"] as const;
+
+export type StepAction = (typeof stepActions)[number];
+
+const decisionMap = {
+  approve: "APPROVED",
+  reject: "REJECTED",
+  request_changes: "CHANGES_REQUESTED",
+} as const;
+
+const outcomeMap = {
+  APPROVED: "approve",
+  REJECTED: "reject",
+  CHANGES_REQUESTED: "request_changes",
+} as const;
+
+const webhookEventMap: Record<StepAction, WebhookEvent> = {
+  approve: "step.approved",
+  reject: "step.rejected",
+  request_changes: "step.changes_requested",
+};
+
+/** A step action that isn't allowed, with the HTTP status to respond with. */
+export class StepActionError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = "StepActionError";
+  }
+}
+
+interface StepActionParams {
+  processId: string;
+  stepId: string;
+  userId: string;
+  action: StepAction;
+  comments?: string;
+  // The API token the action was taken with, for the audit log
+  apiTokenId?: string;
+  // Set when the action was taken through a signed action link. The link is
+  // used up in the same transaction as the vote, so it stays usable if the
+  // vote fails.
+  actionLink?: ActionLink;
+}
+
+/**
+ * Records an approver's decision on the step a process is waiting on, after
+ * checking that they are assigned to it and haven't voted yet. Once the
+ * step's quorum is decided the process moves on and everyone involved is
+ * notified. Returns the outcome, or null while the quorum is still open.
+ */
+export async function performStepAction({
+  processId,
+  stepId,
+  userId,
+  action,
+  comments,
+  apiTokenId,
+  actionLink,
+}: StepActionParams): Promise<StepAction | null> {
+  const stepInstance = await db.processStepInstance.findUnique({
+    where: { id: stepId },
+    include: {
+      processInstance: {
+        include: {
+          workflowTemplate: { select: { id: true, name: true } },
+          createdBy: { select: { id: true, name: true } },
+          steps: {
+            include: { workflowStep: true },
+            orderBy: { workflowStep: { stepOrder: "asc" } },
+          },
+        },
+      },
+      workflowStep: true,
+      decisions: {
+        where: { supersededAt: null },
+        select: { approverId: true, onBehalfOfId: true },
+      },
+    },
+  });
+
+  if (!stepInstance) {
+    throw new StepActionError("Step not found", 404);
+  }
+
+  if (stepInstance.processInstanceId !== processId) {
+    throw new StepActionError("Step does not belong to this process", 400);
+  }
+
+  if (stepInstance.status !== "PENDING") {
+    throw new StepActionError("Step is not pending", 400);
+  }
+
+  if (stepInstance.workflowStep.stepType !== "APPROVAL") {
+    throw new StepActionError(
+      "This step type does not support approval actions",
+      400
+    );
+  }
+
+  const process = stepInstance.processInstance;
+
+  // Only the step the process is currently waiting on can be acted on
+  if (
+    process.status !== "IN_PROGRESS" ||
+    getActiveStep(process.steps)?.id !== stepId
+  ) {
+    throw new StepActionError("Step is not awaiting action", 400);
+  }
+
+  // Only users assigned to this step, or their delegates, can act on it
+  const assignments = await resolveAssignments(
+    stepInstance.workflowStep.config,
+    process.createdById,
+    stepInstance.assignee
+  );
+  const assignment = findOpenAssignment(
+    assignments,
+    userId,
+    stepInstance.decisions
+  );
+  if (!assignment) {
+    if (!assignments.some((a) => a.userId === userId)) {
+      throw new StepActionError("You are not assigned to this step", 403);
+    }
+    throw new StepActionError(
+      "You have already submitted a decision for this step",
+      400
+    );
+  }
+
+  // Each vote counts for one assignee. A delegate votes for the assignee
+  // they stand in for, who must not have voted in the meantime.
+  const { onBehalfOfId } = assignment;
+  const principalId = onBehalfOfId ?? userId;
+  const assertNotVoted = (
+    decisions: Array<{ approverId: string; onBehalfOfId: string | null }>
+  ) => {
+    if (
+      decisions.some((d) => (d.onBehalfOfId ?? d.approverId) === principalId)
+    ) {
+      throw new StepActionError(
+        "You have already submitted a decision for this step",
+        400
+      );
+    }
+  };
+
+  const { quorum } = parseStepConfig(stepInstance.workflowStep.config);
+  const required = quorum
+    ? getRequiredApprovals(quorum, assignments.length)
+    : 1;
+
+  const workflow = process.workflowTemplate;
+
+  const onBehalfOf = onBehalfOfId
+    ? await db.user.findUnique({
+        where: { id: onBehalfOfId },
+        select: { id: true, name: true },
+      })
+    : null;
+  const onBehalfOfNote = onBehalfOf ? ` on behalf of ${onBehalfOf.name}` : "";
+  const viaNote = actionLink ? " (via action link)" : "";
+  const via = actionLink ? { via: "action_link" } : {};
+
+  // Create audit log
+  const actionMap = {
+    approve: "STEP_COMPLETED",
+    reject: "STEP_REJECTED",
+    request_changes: "CHANGES_REQUESTED",
+  };
+
+  // Record the vote and, once the quorum is decided, let the engine update
+  // the step and process, together with the audit entry. The step is locked
+  // and checked again first, so concurrent votes on it take turns and can't
+  // miss each other, and a vote can't land on a step reassigned meanwhile.
+  const { votes, outcome } = await db.$transaction(async (tx) => {
+    await tx.$executeRaw`
+      SELECT 1 FROM "ProcessStepInstance" WHERE id = ${stepId} FOR UPDATE
+    `;
+    const current = await tx.processStepInstance.findUniqueOrThrow({
+      where: { id: stepId },
+      select: {
+        status: true,
+        assignee: true,
+        decisions: {
+          where: { supersededAt: null },
+          select: { approverId: true, onBehalfOfId: true },
+        },
+      },
+    });
+    if (current.status !== "PENDING") {
+      throw new StepActionError("Step is not pending", 400);
+    }
+    if (
+      JSON.stringify(current.assignee) !== JSON.stringify(stepInstance.assignee)
+    ) {
+      throw new StepActionError("Step was reassigned, please try again", 400);
+    }
+    assertNotVoted(current.decisions);
+    if (actionLink && !(await claimActionLink(tx, actionLink))) {
+      throw new StepActionError("This link has already been used", 410);
+    }
+
+    const votes = await recordDecision(tx, {
+      stepInstanceId: stepId,
+      approverId: userId,
+      onBehalfOfId,
+      decision: decisionMap[action],
+      comments,
+      quorum,
+      eligibleCount: assignments.length,
+    });
+    const outcome = votes.outcome && outcomeMap[votes.outcome];
+
+    if (!outcome) {
+      // Quorum not reached yet - only the vote itself is recorded
+      await createAuditLog(tx, {
+        processInstanceId: processId,
+        action: "STEP_DECISION_RECORDED",
+        changedById: userId,
+        apiTokenId,
+        newValue: {
+          stepName: stepInstance.workflowStep.name,
+          action,
+          comments,
+          approvals: votes.approvals,
+          required,
+          onBehalfOf,
+          ...via,
+        },
+        notes: `${stepInstance.workflowStep.name}: ${action}${onBehalfOfNote} (${votes.approvals}/${required} approvals)${viaNote}${comments ? ` - ${comments}` : ""}`,
+      });
+    } else {
+      await createAuditLog(tx, {
+        processInstanceId: processId,
+        action: actionMap[outcome],
+        changedById: userId,
+        apiTokenId,
+        newValue: {
+          stepName: stepInstance.workflowStep.name,
+          action: outcome,
+          comments,
+          onBehalfOf,
+          ...via,
+        },
+        notes: `${stepInstance.workflowStep.name}: ${outcome}${onBehalfOfNote}${viaNote}${comments ? ` - ${comments}` : ""}`,
+      });
+    }
+
+    return { votes, outcome };
+  });
+  publishProcessUpdate(processId);
+
+  if (!outcome) return null;
+
+  const eventContext = {
+    processInstanceId: processId,
+    stepInstanceId: stepId,
+    actorId: userId,
+  };
+  await emitWebhookEvent(webhookEventMap[outcome], eventContext);
+  await emitProcessEndEvent(votes.status, eventContext);
+
+  // Notify creator
+  const notificationAction =
+    outcome === "approve"
+      ? "approved"
+      : outcome === "reject"
+      ? "rejected"
+      : "changes_requested";
+
+  // Get current user's name for notification
+  const currentUser = await db.user.findUnique({
+    where: { id: userId },
+    select: { name: true },
+  });
+
+  await notifyProcessCreator(
+    processId,
+    process.createdById,
+    notificationAction,
+    workflow.name,
+    currentUser?.name
+  );
+
+  // If approved and there's a next approval step, notify approvers
+  if (votes.activeStep) {
+    await notifyApprovers(
+      processId,
+      workflow.name,
+      votes.activeStep.workflowStep.config,
+      process.createdById
+    );
+  }
+
+  return outcome;
+}
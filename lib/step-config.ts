@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { conditionSchema, evaluateCondition } from "@/lib/conditions";
+import type { FormValues } from "@/lib/form-validation";
+
+export const stepAssigneeSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("users"),
+    userIds: z.array(z.string().min(1)).min(1),
+  }),
+  z.object({
+    type: z.literal("role"),
+    role: z.enum(["ADMIN", "APPROVER", "USER"]),
+  }),
+  z.object({
+    type: z.literal("group"),
+    groupId: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal("manager"),
+  }),
+]);
+
+// Without a quorum the first decision on a step decides it.
+export const stepQuorumSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("any"),
+  }),
+  z.object({
+    type: z.literal("all"),
+  }),
+  z.object({
+    type: z.literal("count"),
+    count: z.number().int().min(1),
+  }),
+]);
+
+// What happens to an approval step that is still pending at its deadline
+export const stepEscalationSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("user"),
+    userId: z.string().min(1),
+  }),
+  z.object({
+    type: z.literal("role"),
+    role: z.enum(["ADMIN", "APPROVER", "USER"]),
+  }),
+  z.object({
+    type: z.literal("auto_approve"),
+  }),
+  z.object({
+    type: z.literal("auto_reject"),
+  }),
+]);
+
+export const stepSlaSchema = z.object({
+  dueInHours: z.number().positive(),
+  reminderIntervalHours: z.number().positive().optional(),
+  escalation: stepEscalationSchema.optional(),
+});
+
+// Unknown keys are preserved so configuration written by newer clients is
+// not dropped when a workflow is saved.
+export const stepConfigSchema = z.looseObject({
+  assignee: stepAssigneeSchema.optional(),
+  quorum: stepQuorumSchema.optional(),
+  // The step only runs when the condition holds; otherwise it is SKIPPED
+  condition: conditionSchema.optional(),
+  sla: stepSlaSchema.optional(),
+});
+
+export type StepAssignee = z.infer<typeof stepAssigneeSchema>;
+export type StepQuorum = z.infer<typeof stepQuorumSchema>;
+export type StepEscalation = z.infer<typeof stepEscalationSchema>;
+export type StepSla = z.infer<typeof stepSlaSchema>;
+export type StepConfig = z.infer<typeof stepConfigSchema>;
+
+/**
+ * Reads the stored `WorkflowStep.config`. Invalid or legacy configuration is
+ * treated as empty so it falls back to the default behaviour.
+ */
+export function parseStepConfig(config: unknown): StepConfig {
+  const result = stepConfigSchema.safeParse(config ?? {});
+  return result.success ? result.data : {};
+}
+
+/**
+ * Whether a step runs for the given form data. Steps without a condition
+ * always run.
+ */
+export function shouldRunStep(config: unknown, formData: FormValues) {
+  const { condition } = parseStepConfig(config);
+  return !condition || evaluateCondition(condition, formData);
+}
@@ -0,0 +1,40 @@
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+
+/**
+ * Where uploaded files are kept. Files are addressed by a key chosen by the
+ * caller; drivers only need to store and return the bytes.
+ */
+export interface FileStorage {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
+
+let storage: FileStorage | undefined;
+
+function createStorage(): FileStorage {
+  const driver = process.env.STORAGE_DRIVER ?? "local";
+  switch (driver) {
+    case "local":
+      return createLocalStorage(process.env.UPLOAD_DIR ?? "./uploads");
+    case "s3":
+      return createS3Storage({
+        bucket: process.env.S3_BUCKET ?? "",
+        region: process.env.S3_REGION ?? "us-east-1",
+        endpoint: process.env.S3_ENDPOINT || undefined,
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+        // MinIO and most self-hosted S3 servers need path-style URLs
+        forcePathStyle: process.env.S3_FORCE_PATH_STYLE === "true",
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+}
+
+/** The storage driver configured by `STORAGE_DRIVER` (local disk by default). */
+export function getStorage(): FileStorage {
+  storage ??= createStorage();
+  return storage;
+}
@@ -0,0 +1,30 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { FileStorage } from "./index";
+
+export function createLocalStorage(directory: string): FileStorage {
+  const root = path.resolve(directory);
+
+  // Keys are generated by the app, but never let one point outside the root
+  function resolve(key: string) {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  }
+
+  return {
+    async put(key, data) {
+      const filePath = resolve(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+    },
+    async get(key) {
+      return readFile(resolve(key));
+    },
+    async delete(key) {
+      await rm(resolve(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,63 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import type { FileStorage } from "./index";
+
+interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+}
+
+/**
+ * Stores files in an S3 bucket, or any S3-compatible server such as MinIO
+ * when `endpoint` is set.
+ */
+export function createS3Storage(options: S3StorageOptions): FileStorage {
+  const { bucket, accessKeyId, secretAccessKey } = options;
+  if (!bucket) {
+    throw new Error("S3_BUCKET must be set to use the s3 storage driver");
+  }
+
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint,
+    forcePathStyle: options.forcePathStyle,
+    // Without explicit keys the SDK's default credential chain is used
+    credentials:
+      accessKeyId && secretAccessKey
+        ? { accessKeyId, secretAccessKey }
+        : undefined,
+  });
+
+  return {
+    async put(key, data, contentType) {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: data,
+          ContentType: contentType,
+        })
+      );
+    },
+    async get(key) {
+      const object = await client.send(
+        new GetObjectCommand({ Bucket: bucket, Key: key })
+      );
+      if (!object.Body) {
+        throw new Error(`Object "${key}" has no content`);
+      }
+      return Buffer.from(await object.Body.transformToByteArray());
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+}
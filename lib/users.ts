@@ -0,0 +1,56 @@
+import { randomBytes } from "crypto";
+import bcrypt from "bcryptjs";
+import { z } from "zod";
+import { db } from "@/lib/db";
+
+export const passwordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(128, "Password must be no more than 128 characters");
+
+export function hashPassword(password: string) {
+  return bcrypt.hash(password, 10);
+}
+
+export function verifyPassword(password: string, passwordHash: string) {
+  return bcrypt.compare(password, passwordHash);
+}
+
+/**
+ * A random password for new accounts and admin resets. It is shown to the
+ * admin once, to be passed on to the user.
+ */
+export function generatePassword() {
+  return randomBytes(12).toString("base64url");
+}
+
+/** Fields of a user that are safe to return from the API. */
+export const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  isActive: true,
+  createdAt: true,
+  manager: { select: { id: true, name: true } },
+} as const;
+
+/**
+ * Whether making `managerId` the manager of `userId` would make the user
+ * (indirectly) their own manager.
+ */
+export async function createsManagerCycle(userId: string, managerId: string) {
+  let currentId: string | null = managerId;
+  const seen = new Set<string>();
+  while (currentId && !seen.has(currentId)) {
+    if (currentId === userId) return true;
+    seen.add(currentId);
+    const manager: { managerId: string | null } | null =
+      await db.user.findUnique({
+        where: { id: currentId },
+        select: { managerId: true },
+      });
+    currentId = manager?.managerId ?? null;
+  }
+  return false;
+}
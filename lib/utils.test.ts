@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest"
+import Papa from "papaparse"
+import { escapeSpreadsheetFormula, SPREADSHEET_FORMULA_PATTERN } from "./utils"
+
+describe("escapeSpreadsheetFormula", () => {
+  it.each([
+    '=HYPERLINK("https://example.com")',
+    "+1",
+    "-2+3",
+    "@SUM(A1)",
+    "\tx",
+    "=cmd|' /C calc'!A0\nmore",
+  ])("prefixes %j", (value) => {
+    expect(escapeSpreadsheetFormula(value)).toBe(`'${value}`)
+  })
+
+  it("leaves other values alone", () => {
+    expect(escapeSpreadsheetFormula("Laptop = 1200")).toBe("Laptop = 1200")
+    expect(escapeSpreadsheetFormula(42)).toBe(42)
+    expect(escapeSpreadsheetFormula("")).toBe("")
+  })
+
+  it("matches what CSV exports escape", () => {
+    const csv = Papa.unparse([["=1+1\nsecond line", "ok"]], {
+      escapeFormulae: SPREADSHEET_FORMULA_PATTERN,
+    })
+    expect(csv).toBe('"\'=1+1\nsecond line",ok')
+  })
+})
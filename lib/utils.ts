@@ -4,3 +4,47 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/** An absolute link to a page of the app, for emails and other messages. */
+export function appUrl(path: string) {
+  const base = process.env.NEXTAUTH_URL || "http://localhost:3000"
+  return `${base.replace(/\/$/, "")}${path}`
+}
+
+/**
+ * JSON with object keys in sorted order, so equal values always serialize
+ * the same way. Postgres doesn't keep the key order of JSON columns.
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`
+  }
+  if (value !== null && typeof value === "object") {
+    const object = value as Record<string, unknown>
+    return `{${Object.keys(object)
+      .filter((key) => object[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify(object[key])}`)
+      .join(",")}}`
+  }
+  return JSON.stringify(value) ?? "null"
+}
+
+// Cells starting with one of these are run as formulas by spreadsheet apps
+export const SPREADSHEET_FORMULA_PATTERN = /^[=+\-@\t\r]/
+
+/**
+ * Makes user-entered text safe to open in a spreadsheet: text that would be
+ * read as a formula is prefixed with an apostrophe so it stays plain text.
+ */
+export function escapeSpreadsheetFormula<T>(value: T): T | string {
+  return typeof value === "string" && SPREADSHEET_FORMULA_PATTERN.test(value)
+    ? `'${value}`
+    : value
+}
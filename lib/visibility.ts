@@ -0,0 +1,121 @@
+import { Prisma, type StepStatus, type StepType } from "@prisma/client";
+import { db } from "@/lib/db";
+import { resolveAssignments } from "@/lib/assignees";
+import { can } from "@/lib/permissions";
+
+interface Viewer {
+  id: string;
+  role: string;
+}
+
+/**
+ * The users whose requests a manager can see: everyone who reports to them,
+ * directly or further down the hierarchy, and the members of groups they
+ * manage (along with those members' own reports).
+ */
+export async function getManagedUserIds(managerId: string) {
+  const managed = new Set<string>();
+
+  const groupMembers = await db.groupMember.findMany({
+    where: { group: { managerId } },
+    select: { userId: true },
+  });
+  let frontier = groupMembers
+    .map((m) => m.userId)
+    .filter((id) => id !== managerId);
+  frontier.forEach((id) => managed.add(id));
+  frontier.push(managerId);
+
+  // Walk down the reporting lines one level at a time
+  while (frontier.length > 0) {
+    const reports = await db.user.findMany({
+      where: { managerId: { in: frontier } },
+      select: { id: true },
+    });
+    frontier = reports
+      .map((r) => r.id)
+      .filter((id) => id !== managerId && !managed.has(id));
+    frontier.forEach((id) => managed.add(id));
+  }
+
+  return Array.from(managed);
+}
+
+/**
+ * Which processes a user can list. Users with `process.view.all` see
+ * everything; others see their own requests and those of the people they
+ * manage.
+ */
+export async function processVisibilityWhere(
+  viewer: Viewer
+): Promise<Prisma.ProcessInstanceWhereInput> {
+  if (can(viewer, "process.view.all")) return {};
+
+  const managedUserIds = await getManagedUserIds(viewer.id);
+  return { createdById: { in: [viewer.id, ...managedUserIds] } };
+}
+
+interface ViewableProcess {
+  createdById: string;
+  steps: Array<{
+    status: StepStatus;
+    actedById: string | null;
+    assignee: unknown;
+    workflowStep: { stepType: StepType; config: unknown };
+    // Including superseded votes
+    decisions: Array<{ approverId: string; onBehalfOfId: string | null }>;
+  }>;
+}
+
+/**
+ * Whether a user is one of the approvers of a process's approval steps,
+ * directly or as a delegate, whether the step is waiting, decided or still
+ * to come.
+ */
+async function isProcessApprover(userId: string, process: ViewableProcess) {
+  for (const step of process.steps) {
+    if (
+      step.workflowStep.stepType !== "APPROVAL" ||
+      step.status === "SKIPPED"
+    ) {
+      continue;
+    }
+
+    const assignments = await resolveAssignments(
+      step.workflowStep.config,
+      process.createdById,
+      step.assignee
+    );
+    if (
+      assignments.some((a) => a.userId === userId || a.onBehalfOfId === userId)
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Whether a user can open a process: everyone who can list it, everyone who
+ * has acted on one of its steps (so approvers keep access after voting or
+ * once the step moves on), and the approvers of its steps.
+ */
+export async function canViewProcess(viewer: Viewer, process: ViewableProcess) {
+  if (can(viewer, "process.view.all") || process.createdById === viewer.id) {
+    return true;
+  }
+
+  const hasActed = process.steps.some(
+    (step) =>
+      step.actedById === viewer.id ||
+      step.decisions.some(
+        (d) => d.approverId === viewer.id || d.onBehalfOfId === viewer.id
+      )
+  );
+  if (hasActed) return true;
+
+  const managedUserIds = await getManagedUserIds(viewer.id);
+  if (managedUserIds.includes(process.createdById)) return true;
+
+  return isProcessApprover(viewer.id, process);
+}
@@ -0,0 +1,290 @@
+import { createHmac, randomBytes } from "crypto";
+import { Prisma, type ProcessStatus } from "@prisma/client";
+import { z } from "zod";
+import { db } from "@/lib/db";
+
+export const webhookEvents = {
+  "process.created": "A process is started",
+  "process.resubmitted": "A process is resubmitted after changes were requested",
+  "step.approved": "An approval step is approved",
+  "step.rejected": "An approval step is rejected",
+  "step.changes_requested": "An approval step requests changes",
+  "process.completed": "A process completes",
+  "process.rejected": "A process is rejected",
+} as const;
+
+export type WebhookEvent = keyof typeof webhookEvents;
+
+// Everything but the secret, which is only shown when the subscription is
+// created
+export const webhookSelect = {
+  id: true,
+  name: true,
+  url: true,
+  events: true,
+  workflowTemplateIds: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+  createdBy: { select: { id: true, name: true } },
+} as const;
+
+export const webhookSchema = z.object({
+  name: z.string().min(1).max(255),
+  url: z
+    .string()
+    .url()
+    .refine((url) => /^https?:\/\//.test(url), "Must be an http(s) URL"),
+  events: z
+    .array(z.enum(Object.keys(webhookEvents) as [WebhookEvent]))
+    .min(1, "Select at least one event"),
+  // Empty for every workflow
+  workflowTemplateIds: z.array(z.string().min(1)),
+  isActive: z.boolean(),
+});
+
+const MAX_ATTEMPTS = 8;
+// Retries wait 1, 2, 4, ... minutes, about two hours in total
+const RETRY_BASE = 60 * 1000;
+const REQUEST_TIMEOUT = 10 * 1000;
+// How long an attempt holds a delivery before another server may retry it
+const CLAIM_TIMEOUT = 2 * 60 * 1000;
+
+export function generateWebhookSecret() {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * The signature sent in the `X-Webhook-Signature` header: an HMAC-SHA256 of
+ * the timestamp and the raw body, keyed with the subscription's secret.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string
+) {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+interface EventContext {
+  processInstanceId: string;
+  // The step the event is about, for step events
+  stepInstanceId?: string;
+  // The user who caused the event; omitted for the system
+  actorId?: string;
+}
+
+async function buildPayload({
+  processInstanceId,
+  stepInstanceId,
+  actorId,
+}: EventContext) {
+  const [process, step, actor] = await Promise.all([
+    db.processInstance.findUniqueOrThrow({
+      where: { id: processInstanceId },
+      include: {
+        workflowTemplate: { select: { id: true, name: true } },
+        workflowVersion: { select: { version: true } },
+        createdBy: { select: { id: true, name: true, email: true } },
+      },
+    }),
+    stepInstanceId
+      ? db.processStepInstance.findUniqueOrThrow({
+          where: { id: stepInstanceId },
+          include: { workflowStep: { select: { name: true } } },
+        })
+      : null,
+    actorId
+      ? db.user.findUnique({
+          where: { id: actorId },
+          select: { id: true, name: true, email: true },
+        })
+      : null,
+  ]);
+
+  return {
+    process: {
+      id: process.id,
+      status: process.status,
+      workflow: {
+        ...process.workflowTemplate,
+        version: process.workflowVersion.version,
+      },
+      createdBy: process.createdBy,
+      formData: process.formData,
+      createdAt: process.createdAt,
+      updatedAt: process.updatedAt,
+    },
+    step: step && {
+      id: step.id,
+      name: step.workflowStep.name,
+      status: step.status,
+      comments: step.comments,
+    },
+    actor,
+  };
+}
+
+/**
+ * Queues an event for every active subscription that wants it and starts
+ * delivering it. Failed deliveries are retried by the scheduler. Never
+ * throws, so webhooks can't break the action that caused the event.
+ */
+export async function emitWebhookEvent(
+  event: WebhookEvent,
+  context: EventContext
+) {
+  try {
+    const { workflowTemplateId } =
+      await db.processInstance.findUniqueOrThrow({
+        where: { id: context.processInstanceId },
+        select: { workflowTemplateId: true },
+      });
+
+    const subscriptions = await db.webhookSubscription.findMany({
+      where: {
+        isActive: true,
+        events: { has: event },
+        OR: [
+          { workflowTemplateIds: { isEmpty: true } },
+          { workflowTemplateIds: { has: workflowTemplateId } },
+        ],
+      },
+      select: { id: true },
+    });
+    if (subscriptions.length === 0) return;
+
+    const payload = await buildPayload(context);
+    const deliveries = await db.webhookDelivery.createManyAndReturn({
+      data: subscriptions.map((subscription) => ({
+        subscriptionId: subscription.id,
+        event,
+        payload: payload as unknown as Prisma.InputJsonValue,
+      })),
+      select: { id: true },
+    });
+
+    // Delivered in the background so a slow receiver doesn't hold up the
+    // request
+    void Promise.all(deliveries.map((d) => deliverWebhook(d.id))).catch(
+      (error) => console.error(`Failed to deliver webhook event ${event}:`, error)
+    );
+  } catch (error) {
+    console.error(`Failed to emit webhook event ${event}:`, error);
+  }
+}
+
+/**
+ * Emits process.completed or process.rejected when an action has just ended
+ * a process.
+ */
+export async function emitProcessEndEvent(
+  status: ProcessStatus,
+  context: EventContext
+) {
+  if (status === "COMPLETED") {
+    await emitWebhookEvent("process.completed", context);
+  } else if (status === "REJECTED") {
+    await emitWebhookEvent("process.rejected", context);
+  }
+}
+
+/**
+ * Makes one attempt at a pending delivery. The delivery is claimed first, so
+ * several servers can run retries at once without sending it twice.
+ */
+export async function deliverWebhook(deliveryId: string) {
+  const now = new Date();
+  const claimed = await db.webhookDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      status: "PENDING",
+      nextAttemptAt: { lte: now },
+    },
+    data: { nextAttemptAt: new Date(now.getTime() + CLAIM_TIMEOUT) },
+  });
+  if (claimed.count === 0) return;
+
+  const delivery = await db.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { subscription: true },
+  });
+
+  const body = JSON.stringify({
+    id: delivery.id,
+    event: delivery.event,
+    createdAt: delivery.createdAt,
+    data: delivery.payload,
+  });
+  const timestamp = Math.floor(now.getTime() / 1000);
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(delivery.subscription.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "ProcessNinja-Webhooks",
+        "X-Webhook-Event": delivery.event,
+        "X-Webhook-Delivery": delivery.id,
+        "X-Webhook-Signature": signWebhookPayload(
+          delivery.subscription.secret,
+          timestamp,
+          body
+        ),
+      },
+      body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, 1000);
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  }
+
+  const succeeded =
+    responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+  const attempts = delivery.attempts + 1;
+  const givesUp = !succeeded && attempts >= MAX_ATTEMPTS;
+
+  await db.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: succeeded ? "SUCCEEDED" : givesUp ? "FAILED" : "PENDING",
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt:
+        succeeded || givesUp
+          ? null
+          : new Date(now.getTime() + RETRY_BASE * 2 ** (attempts - 1)),
+      responseStatus,
+      responseBody,
+      error:
+        error ??
+        (succeeded ? null : `Receiver responded with ${responseStatus}`),
+    },
+  });
+}
+
+/** Retries the deliveries whose next attempt is due. */
+export async function retryWebhookDeliveries(now = new Date()) {
+  const due = await db.webhookDelivery.findMany({
+    where: { status: "PENDING", nextAttemptAt: { lte: now } },
+    select: { id: true },
+    orderBy: { nextAttemptAt: "asc" },
+    take: 100,
+  });
+
+  for (const delivery of due) {
+    try {
+      await deliverWebhook(delivery.id);
+    } catch (error) {
+      console.error(`Failed to deliver webhook ${delivery.id}:`, error);
+    }
+  }
+}
@@ -0,0 +1,191 @@
+import { stableStringify } from "@/lib/utils";
+
+export interface StepSnapshot {
+  stepOrder: number;
+  stepType: string;
+  name: string;
+  config?: unknown;
+}
+
+export interface FieldSnapshot {
+  id: string;
+  name: string;
+  label: string;
+  type: string;
+  required?: boolean;
+  validation?: unknown;
+  options?: unknown;
+  conditionalOn?: unknown;
+}
+
+export interface ChangedItem<T> {
+  before: T;
+  after: T;
+  changes: string[];
+}
+
+export interface WorkflowDiff {
+  steps: {
+    added: StepSnapshot[];
+    removed: StepSnapshot[];
+    changed: ChangedItem<StepSnapshot>[];
+    reordered: Array<{ name: string; from: number; to: number }>;
+  };
+  fields: {
+    added: FieldSnapshot[];
+    removed: FieldSnapshot[];
+    changed: ChangedItem<FieldSnapshot>[];
+  };
+}
+
+interface DiffableVersion {
+  steps: StepSnapshot[];
+  formSchema?: { fields: unknown } | null;
+}
+
+const STEP_PROPERTIES = ["stepType", "config"] as const;
+const FIELD_PROPERTIES = [
+  "name",
+  "label",
+  "type",
+  "required",
+  "validation",
+  "options",
+  "conditionalOn",
+] as const;
+
+function isEqual(a: unknown, b: unknown) {
+  return stableStringify(a ?? null) === stableStringify(b ?? null);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+// Changes within an object property, such as a step's config, are named by
+// key, e.g. "config.sla"
+function changedProperties<T>(before: T, after: T, properties: readonly (keyof T)[]) {
+  return properties.flatMap((property) => {
+    const a = before[property];
+    const b = after[property];
+    if (isEqual(a, b)) return [];
+    if (!isObject(a) || !isObject(b)) return [String(property)];
+
+    const keys = Array.from(new Set(Object.keys(a).concat(Object.keys(b))));
+    return keys
+      .filter((key) => !isEqual(a[key], b[key]))
+      .map((key) => `${String(property)}.${key}`);
+  });
+}
+
+/** The value a change name such as "config.sla" refers to. */
+export function changedValue(snapshot: object, change: string): unknown {
+  return change
+    .split(".")
+    .reduce<unknown>(
+      (value, key) => (isObject(value) ? value[key] : undefined),
+      snapshot
+    );
+}
+
+function fieldsOf(version: DiffableVersion): FieldSnapshot[] {
+  const fields = version.formSchema?.fields;
+  return Array.isArray(fields) ? (fields as FieldSnapshot[]) : [];
+}
+
+/**
+ * The parts of a version that are compared, without database ids. A missing
+ * version is empty, so diffing from or to it lists everything as added or
+ * removed.
+ */
+export function versionSnapshot(
+  version: DiffableVersion | null | undefined
+): DiffableVersion {
+  return {
+    steps: (version?.steps ?? []).map(
+      ({ stepOrder, stepType, name, config }) => ({
+        stepOrder,
+        stepType,
+        name,
+        config,
+      })
+    ),
+    formSchema: version?.formSchema
+      ? { fields: version.formSchema.fields }
+      : null,
+  };
+}
+
+/**
+ * Compares two workflow versions. Step rows are recreated for every version,
+ * so steps are matched by name; form fields carry a stable `id`.
+ */
+export function diffWorkflowVersions(
+  previous: DiffableVersion,
+  next: DiffableVersion
+): WorkflowDiff {
+  const diff: WorkflowDiff = {
+    steps: { added: [], removed: [], changed: [], reordered: [] },
+    fields: { added: [], removed: [], changed: [] },
+  };
+
+  const unmatchedSteps = [...previous.steps];
+  const matchedSteps: Array<{ before: StepSnapshot; after: StepSnapshot }> = [];
+  for (const step of next.steps) {
+    const index = unmatchedSteps.findIndex((s) => s.name === step.name);
+    if (index === -1) {
+      diff.steps.added.push(step);
+      continue;
+    }
+
+    const [before] = unmatchedSteps.splice(index, 1);
+    matchedSteps.push({ before, after: step });
+    const changes = changedProperties(before, step, STEP_PROPERTIES);
+    if (changes.length > 0) {
+      diff.steps.changed.push({ before, after: step, changes });
+    }
+  }
+  diff.steps.removed = unmatchedSteps;
+
+  // Only a change in relative order counts as a reorder; steps shifted by an
+  // insertion or removal above them are not reported.
+  const previousOrder = [...matchedSteps].sort(
+    (a, b) => a.before.stepOrder - b.before.stepOrder
+  );
+  matchedSteps.forEach((match, index) => {
+    if (previousOrder[index] !== match) {
+      diff.steps.reordered.push({
+        name: match.after.name,
+        from: match.before.stepOrder,
+        to: match.after.stepOrder,
+      });
+    }
+  });
+
+  const previousFields = fieldsOf(previous);
+  const nextFields = fieldsOf(next);
+  for (const field of nextFields) {
+    const before = previousFields.find((f) => f.id === field.id);
+    if (!before) {
+      diff.fields.added.push(field);
+      continue;
+    }
+
+    const changes = changedProperties(before, field, FIELD_PROPERTIES);
+    if (changes.length > 0) {
+      diff.fields.changed.push({ before, after: field, changes });
+    }
+  }
+  diff.fields.removed = previousFields.filter(
+    (field) => !nextFields.some((f) => f.id === field.id)
+  );
+
+  return diff;
+}
+
+export function hasChanges(diff: WorkflowDiff) {
+  return (
+    Object.values(diff.steps).some((items) => items.length > 0) ||
+    Object.values(diff.fields).some((items) => items.length > 0)
+  );
+}
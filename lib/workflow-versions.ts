@@ -0,0 +1,213 @@
+import { Prisma, StepType } from "@prisma/client";
+import { diffWorkflowVersions, hasChanges } from "@/lib/workflow-diff";
+
+type TransactionClient = Prisma.TransactionClient;
+
+export const versionInclude = {
+  steps: { orderBy: { stepOrder: "asc" } },
+  formSchema: true,
+} satisfies Prisma.WorkflowVersionInclude;
+
+// Only the current draft and the published version are needed to render a
+// workflow; superseded versions are served by the versions endpoint.
+export const workflowInclude = {
+  versions: {
+    where: { status: { in: ["DRAFT", "PUBLISHED"] } },
+    include: versionInclude,
+    orderBy: { version: "desc" },
+  },
+  _count: {
+    select: { processes: true },
+  },
+} satisfies Prisma.WorkflowTemplateInclude;
+
+export type WorkflowVersionWithDetails = Prisma.WorkflowVersionGetPayload<{
+  include: typeof versionInclude;
+}>;
+
+export interface WorkflowStepInput {
+  stepOrder: number;
+  stepType: StepType;
+  name: string;
+  config?: Record<string, unknown>;
+}
+
+export interface VersionContent {
+  steps?: WorkflowStepInput[];
+  formSchema?: { fields: unknown[] } | null;
+}
+
+/**
+ * Flattens a template loaded with `workflowInclude` into the shape the UI
+ * expects: `steps` and `formSchema` of the latest version, plus the version
+ * that new processes are started on.
+ */
+export function serializeWorkflow<
+  T extends { versions: WorkflowVersionWithDetails[] }
+>(workflow: T) {
+  const { versions, ...rest } = workflow;
+  const latest = versions[0] ?? null;
+  const published = versions.find((v) => v.status === "PUBLISHED") ?? null;
+
+  return {
+    ...rest,
+    version: latest?.version ?? null,
+    versionStatus: latest?.status ?? null,
+    steps: latest?.steps ?? [],
+    formSchema: latest?.formSchema ?? null,
+    publishedVersion: published,
+  };
+}
+
+function toStepData(steps: WorkflowStepInput[]) {
+  return steps.map((step) => ({
+    stepOrder: step.stepOrder,
+    stepType: step.stepType,
+    name: step.name,
+    config: (step.config || {}) as Prisma.InputJsonValue,
+  }));
+}
+
+export function buildVersionData(
+  version: number,
+  createdById: string,
+  { steps, formSchema }: VersionContent
+): Prisma.WorkflowVersionCreateWithoutWorkflowTemplateInput {
+  return {
+    version,
+    createdBy: { connect: { id: createdById } },
+    steps: steps?.length ? { create: toStepData(steps) } : undefined,
+    formSchema: formSchema
+      ? { create: { fields: formSchema.fields as Prisma.InputJsonValue } }
+      : undefined,
+  };
+}
+
+/** The newest version of a workflow, whatever its status. */
+export function findLatestVersion(
+  tx: TransactionClient,
+  workflowTemplateId: string
+) {
+  return tx.workflowVersion.findFirst({
+    where: { workflowTemplateId },
+    include: versionInclude,
+    orderBy: { version: "desc" },
+  });
+}
+
+/**
+ * Applies an edit to a workflow. A DRAFT version is still mutable and is
+ * updated in place; a published (or superseded) version is left untouched
+ * and the edit is stored as the next DRAFT version instead. Returns null
+ * when the edit leaves a published version unchanged.
+ */
+export async function saveDraftVersion(
+  tx: TransactionClient,
+  workflowTemplateId: string,
+  createdById: string,
+  content: VersionContent
+) {
+  // Lock the template so concurrent edits can't both create the same next
+  // version number
+  await tx.$executeRaw`
+    SELECT 1 FROM "WorkflowTemplate" WHERE id = ${workflowTemplateId} FOR UPDATE
+  `;
+
+  const latest = await findLatestVersion(tx, workflowTemplateId);
+
+  if (latest?.status === "DRAFT") {
+    if (content.steps) {
+      // Draft versions are never referenced by processes, so their steps can
+      // be replaced wholesale.
+      await tx.workflowStep.deleteMany({
+        where: { workflowVersionId: latest.id },
+      });
+      await tx.workflowStep.createMany({
+        data: toStepData(content.steps).map((step) => ({
+          ...step,
+          workflowVersionId: latest.id,
+        })),
+      });
+    }
+
+    if (content.formSchema !== undefined) {
+      if (content.formSchema === null) {
+        await tx.formSchema.deleteMany({
+          where: { workflowVersionId: latest.id },
+        });
+      } else {
+        await tx.formSchema.upsert({
+          where: { workflowVersionId: latest.id },
+          create: {
+            workflowVersionId: latest.id,
+            fields: content.formSchema.fields as Prisma.InputJsonValue,
+          },
+          update: {
+            fields: content.formSchema.fields as Prisma.InputJsonValue,
+          },
+        });
+      }
+    }
+
+    return tx.workflowVersion.findUniqueOrThrow({
+      where: { id: latest.id },
+      include: versionInclude,
+    });
+  }
+
+  // Carry over whatever the edit did not replace from the latest version
+  const steps =
+    content.steps ??
+    latest?.steps.map((step) => ({
+      stepOrder: step.stepOrder,
+      stepType: step.stepType,
+      name: step.name,
+      config: step.config as Record<string, unknown>,
+    }));
+  const formSchema =
+    content.formSchema !== undefined
+      ? content.formSchema
+      : latest?.formSchema
+      ? { fields: latest.formSchema.fields as unknown[] }
+      : null;
+
+  const diff = latest
+    ? diffWorkflowVersions(latest, { steps: steps ?? [], formSchema })
+    : null;
+  if (diff && !hasChanges(diff)) {
+    return null;
+  }
+
+  return tx.workflowVersion.create({
+    data: {
+      ...buildVersionData((latest?.version ?? 0) + 1, createdById, {
+        steps,
+        formSchema,
+      }),
+      workflowTemplate: { connect: { id: workflowTemplateId } },
+    },
+    include: versionInclude,
+  });
+}
+
+/**
+ * Makes `versionId` the version new processes start on. The previously
+ * published version is marked SUPERSEDED but stays attached to the
+ * processes that were started on it.
+ */
+export async function publishVersion(
+  tx: TransactionClient,
+  workflowTemplateId: string,
+  versionId: string
+) {
+  await tx.workflowVersion.updateMany({
+    where: { workflowTemplateId, status: "PUBLISHED" },
+    data: { status: "SUPERSEDED" },
+  });
+
+  return tx.workflowVersion.update({
+    where: { id: versionId },
+    data: { status: "PUBLISHED", publishedAt: new Date() },
+    include: versionInclude,
+  });
+}
@@ -12,6 +12,22 @@ export default auth((req) => {
     return NextResponse.next();
   }
 
+  // Action links carry their own signed credentials
+  const isActionLink =
+    req.nextUrl.pathname.startsWith("/actions/") ||
+    req.nextUrl.pathname.startsWith("/api/action-links/");
+  if (isActionLink) {
+    return NextResponse.next();
+  }
+
+  // API requests with a personal token are authenticated by the route
+  const hasApiToken =
+    req.nextUrl.pathname.startsWith("/api/") &&
+    !!req.headers.get("authorization")?.startsWith("Bearer ");
+  if (hasApiToken) {
+    return NextResponse.next();
+  }
+
   // Redirect to dashboard if logged in and trying to access auth pages
   if (isAuthPage && isLoggedIn) {
     return NextResponse.redirect(new URL("/dashboard", req.url));
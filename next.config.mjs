@@ -1,4 +1,11 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Starts the background scheduler (see instrumentation.ts)
+    instrumentationHook: true,
+    // Report exports; pdfkit reads its font files from its package directory
+    serverComponentsExternalPackages: ["exceljs", "pdfkit"],
+  },
+};
 
 export default nextConfig;
@@ -44,10 +44,25 @@ async function main() {
       name: "Regular User",
       passwordHash: userPassword,
       role: UserRole.USER,
+      managerId: approver.id,
     },
   });
   console.log("Created regular user:", user.email);
 
+  // Create a group for group-assigned approval steps
+  const finance = await prisma.group.upsert({
+    where: { name: "Finance" },
+    update: {},
+    create: {
+      name: "Finance",
+      description: "Approves purchase and expense requests",
+      members: {
+        create: [{ userId: approver.id }, { userId: admin.id }],
+      },
+    },
+  });
+  console.log("Created group:", finance.name);
+
   console.log("Seeding completed!");
 }
 
@@ -0,0 +1,90 @@
+import { db } from "../lib/db";
+
+// Moves a database created before workflow versioning onto versions. Steps,
+// form schemas and processes used to hang off the template directly; this
+// gives every template a version 1 holding them. Run it before pushing the
+// new schema, which drops the old columns:
+//
+//   npm run db:backfill-versions
+//   npx prisma db push --accept-data-loss
+//
+// Running it again, or on a database that is already versioned, is a no-op.
+async function main() {
+  const [{ legacy }] = await db.$queryRaw<{ legacy: boolean }[]>`
+    SELECT EXISTS (
+      SELECT 1 FROM information_schema.columns
+      WHERE table_name = 'WorkflowStep' AND column_name = 'workflowTemplateId'
+    ) AS legacy
+  `;
+  if (!legacy) {
+    console.log("Workflows are already versioned, nothing to do");
+    return;
+  }
+
+  const created = await db.$transaction(async (tx) => {
+    await tx.$executeRawUnsafe(`
+      DO $$ BEGIN
+        CREATE TYPE "VersionStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'SUPERSEDED');
+      EXCEPTION WHEN duplicate_object THEN NULL;
+      END $$
+    `);
+    await tx.$executeRawUnsafe(`
+      CREATE TABLE IF NOT EXISTS "WorkflowVersion" (
+        "id" TEXT PRIMARY KEY,
+        "workflowTemplateId" TEXT NOT NULL,
+        "version" INTEGER NOT NULL,
+        "status" "VersionStatus" NOT NULL DEFAULT 'DRAFT',
+        "createdById" TEXT,
+        "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        "publishedAt" TIMESTAMP(3)
+      )
+    `);
+
+    // A template that was never activated keeps its content as a draft;
+    // anything that processes may have started on is published
+    const created = await tx.$executeRawUnsafe(`
+      INSERT INTO "WorkflowVersion"
+        ("id", "workflowTemplateId", "version", "status", "createdAt", "publishedAt")
+      SELECT
+        gen_random_uuid()::text, t."id", 1, v."status"::"VersionStatus",
+        t."createdAt", CASE WHEN v."status" = 'PUBLISHED' THEN t."updatedAt" END
+      FROM "WorkflowTemplate" t
+      CROSS JOIN LATERAL (
+        SELECT CASE
+          WHEN t."status" = 'DRAFT' AND NOT EXISTS (
+            SELECT 1 FROM "ProcessInstance" p WHERE p."workflowTemplateId" = t."id"
+          ) THEN 'DRAFT'
+          ELSE 'PUBLISHED'
+        END AS "status"
+      ) v
+      WHERE NOT EXISTS (
+        SELECT 1 FROM "WorkflowVersion" wv WHERE wv."workflowTemplateId" = t."id"
+      )
+    `);
+
+    for (const table of ["WorkflowStep", "FormSchema", "ProcessInstance"]) {
+      await tx.$executeRawUnsafe(
+        `ALTER TABLE "${table}" ADD COLUMN IF NOT EXISTS "workflowVersionId" TEXT`
+      );
+      await tx.$executeRawUnsafe(`
+        UPDATE "${table}" r SET "workflowVersionId" = wv."id"
+        FROM "WorkflowVersion" wv
+        WHERE wv."workflowTemplateId" = r."workflowTemplateId"
+          AND wv."version" = 1
+          AND r."workflowVersionId" IS NULL
+      `);
+    }
+
+    return created;
+  });
+
+  console.log(`Created version 1 for ${created} workflow(s)`);
+  console.log("Now run: npx prisma db push --accept-data-loss");
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(() => db.$disconnect());
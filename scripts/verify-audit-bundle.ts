@@ -0,0 +1,42 @@
+import { readFile } from "fs/promises";
+import { verifyAuditBundle, type AuditBundle } from "../lib/audit-chain";
+
+// Checks an audit bundle or archive without access to the server:
+//
+//   npm run audit:verify-bundle -- bundle.json [public-key.pem]
+//
+// Pass the public key from GET /api/audit/signing-key to check that the
+// bundle was signed by this installation.
+async function main() {
+  const [bundlePath, publicKeyPath] = process.argv.slice(2);
+  if (!bundlePath) {
+    console.error(
+      "Usage: npm run audit:verify-bundle -- <bundle.json> [public-key.pem]"
+    );
+    process.exit(2);
+  }
+
+  const bundle: AuditBundle = JSON.parse(await readFile(bundlePath, "utf8"));
+  const publicKey = publicKeyPath
+    ? await readFile(publicKeyPath, "utf8")
+    : undefined;
+
+  const result = verifyAuditBundle(bundle, publicKey);
+  console.log(`${result.entryCount} entries checked`);
+  if (result.keyId) console.log(`Signed with key ${result.keyId}`);
+  if (result.signed && !publicKey) {
+    console.log("No public key given; the signer wasn't checked");
+  }
+
+  if (result.valid) {
+    console.log("The bundle is intact");
+  } else {
+    result.issues.forEach((issue) => console.error(`- ${issue}`));
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(2);
+});